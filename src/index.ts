@@ -9,12 +9,38 @@ export * from './models/Customer';
 export * from './models/Supplier';
 export * from './models/Especificacion';
 export * from './models/Product';
+export * from './models/StockMovement';
+export * from './models/Counter';
+export * from './models/PriceChange';
+export * from './models/CatalogMerge';
+export * from './models/SupplierCost';
+export * from './models/PurchaseOrder';
 export * from './models/QuickNote';
 export * from './models/SalesNote';
 export * from './models/ServiceRequest';
 
 // Export database utilities
 export * from './utils/database';
+export * from './utils/counters';
+export * from './utils/stockThresholds';
+export * from './utils/productName';
+export * from './utils/barcodes';
+export * from './utils/errors';
+export * from './utils/search';
+export * from './utils/pagination';
+export * from './utils/integrity';
+export * from './utils/specifications';
+export * from './utils/categoryTree';
+export * from './utils/slugs';
+export * from './utils/deletion';
+export * from './utils/merge';
+export * from './utils/cuit';
+export * from './utils/supplierCosts';
+export * from './utils/csv';
+export * from './utils/priceListImport';
+export * from './utils/stock';
+export * from './utils/purchaseOrders';
+export * from './utils/reorder';
 
 // Export services and cache utilities
 export * from './services';
@@ -43,7 +69,8 @@ export {
 
 export {
   Supplier,
-  SupplierSchema
+  SupplierSchema,
+  SupplierContactoSchema
 } from './models/Supplier';
 
 export {
@@ -55,9 +82,44 @@ export {
   Product,
   ProductSchema,
   ProductEspecificacionSchema,
+  ProductVarianteSchema,
   ProductImageSchema
 } from './models/Product';
 
+export {
+  StockMovement,
+  StockMovementSchema
+} from './models/StockMovement';
+
+export {
+  Counter,
+  CounterSchema
+} from './models/Counter';
+
+export {
+  PriceChange,
+  PriceChangeSchema
+} from './models/PriceChange';
+
+export {
+  SupplierCost,
+  SupplierCostSchema
+} from './models/SupplierCost';
+
+export {
+  PurchaseOrder,
+  PurchaseOrderSchema,
+  PurchaseOrderItemSchema,
+  PurchaseReceptionSchema,
+  PurchaseReceptionItemSchema,
+  PurchaseDiscrepancySchema
+} from './models/PurchaseOrder';
+
+export {
+  CatalogMerge,
+  CatalogMergeSchema
+} from './models/CatalogMerge';
+
 export {
   QuickNote,
   QuickNoteSchema
@@ -93,10 +155,12 @@ export {
   ProductService,
   CatalogService,
   SalesService,
+  PurchaseService,
   createCacheManager,
   createProductService,
   createCatalogService,
-  createSalesService
+  createSalesService,
+  createPurchaseService
 } from './services';
 
 // Type exports
@@ -109,9 +173,19 @@ export type {
   ISupplier,
   IEspecificacion,
   IOpcionEspecificacion,
+  TipoEspecificacion,
+  EspecificacionValor,
   IProduct,
   IProductEspecificacion,
+  IProductVariante,
   IProductImage,
+  ProductRelation,
+  ProductWithRelations,
+  IStockMovement,
+  StockMovementType,
+  ICounter,
+  IPriceChange,
+  PriceChangeStatus,
   IQuickNote,
   ISalesNote,
   ISalesNoteItem,
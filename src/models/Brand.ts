@@ -1,5 +1,9 @@
 import mongoose, { Document, Schema } from "mongoose";
 import { IBrand } from '../types';
+import { regenerateProductNames } from '../utils/productName';
+import { assignSlug, retrySlugConflicts } from '../utils/slugs';
+import { guardDeletes } from '../utils/deletion';
+import { guardUniqueName } from '../utils/merge';
 
 const BrandSchema = new Schema<IBrand>(
   {
@@ -9,13 +13,58 @@ const BrandSchema = new Schema<IBrand>(
       trim: true,
       unique: true,
     },
+    // Lowercase, accent-free name that makes "Samsung" and "SAMSUNG " the same name
+    nombreNormalizado: {
+      type: String,
+      required: false,
+      unique: true,
+      sparse: true,
+    },
+    slug: {
+      type: String,
+      required: false,
+      trim: true,
+      unique: true,
+      sparse: true,
+    },
+    // Replaced slugs, so old URLs can redirect
+    slugsAnteriores: {
+      type: [String],
+      default: [],
+    },
   },
   {
     timestamps: true,
   }
 );
 
+BrandSchema.pre('save', async function(next) {
+  if (this.isModified(['nombre', 'slug']) || !this.slug) {
+    await assignSlug(this, this.nombre);
+  }
+  next();
+});
+
+BrandSchema.pre('save', function(next) {
+  this.$locals.nombreModificado = !this.isNew && this.isModified('nombre');
+  next();
+});
+
+BrandSchema.post('save', async function(doc) {
+  if (!doc.$locals.nombreModificado) return;
+  try {
+    await regenerateProductNames({ marcaId: String(doc._id) });
+  } catch (error) {
+    console.error('Error regenerating product names:', error);
+  }
+});
+
+guardUniqueName(BrandSchema, 'Brand');
+guardDeletes(BrandSchema, 'Brand');
+retrySlugConflicts(BrandSchema);
+
 BrandSchema.index({ nombre: 1 });
+BrandSchema.index({ slugsAnteriores: 1 });
 
 export const Brand = mongoose.models.Brand || mongoose.model<IBrand>("Brand", BrandSchema);
 export { BrandSchema };
\ No newline at end of file
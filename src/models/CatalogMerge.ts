@@ -0,0 +1,53 @@
+import mongoose, { Schema } from "mongoose";
+import { ICatalogMerge } from '../types';
+
+const CatalogMergeSchema = new Schema<ICatalogMerge>(
+  {
+    entity: {
+      type: String,
+      enum: ['Brand', 'Supplier'],
+      required: true,
+    },
+    targetId: {
+      type: String,
+      required: true,
+    },
+    targetName: {
+      type: String,
+      required: true,
+    },
+    mergedIds: {
+      type: [String],
+      default: [],
+    },
+    mergedNames: {
+      type: [String],
+      default: [],
+    },
+    productCount: {
+      type: Number,
+      required: true,
+      default: 0,
+      min: 0,
+    },
+    reason: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    userId: {
+      type: String,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+CatalogMergeSchema.index({ entity: 1, createdAt: -1 });
+CatalogMergeSchema.index({ targetId: 1 });
+CatalogMergeSchema.index({ mergedIds: 1 });
+
+export const CatalogMerge = mongoose.models.CatalogMerge || mongoose.model<ICatalogMerge>("CatalogMerge", CatalogMergeSchema);
+export { CatalogMergeSchema };
\ No newline at end of file
@@ -1,5 +1,10 @@
-import mongoose, { Document, Schema } from "mongoose";
+import mongoose, { Document, Schema, Types } from "mongoose";
 import { ICategory, ISubcategory } from '../types';
+import { recalculateEffectiveThresholds } from '../utils/stockThresholds';
+import { regenerateProductNames } from '../utils/productName';
+import { categoryPathFields, getCategoryBranchIds, updateDescendantPaths } from '../utils/categoryTree';
+import { assignSlug, retrySlugConflicts } from '../utils/slugs';
+import { guardDeletes } from '../utils/deletion';
 
 const SubcategorySchema = new Schema<ISubcategory>(
   {
@@ -34,37 +39,136 @@ const CategorySchema = new Schema<ICategory>(
       unique: true,
       sparse: true,
     },
+    // Replaced slugs, so old URLs can redirect
+    slugsAnteriores: {
+      type: [String],
+      default: [],
+    },
     umbralStockBajo: {
       type: Number,
       required: false,
       min: 0,
     },
+    plantillaNombre: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    // Deprecated: replaced by child categories, see migrateEmbeddedSubcategories()
     subcategorias: [SubcategorySchema],
+    parentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Category',
+      default: null,
+    },
+    // Ids from the root down to the parent, maintained on save
+    ancestros: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Category',
+    }],
+    nivel: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    // Slugs from the root, e.g. "electronica/televisores/oled"
+    ruta: {
+      type: String,
+      trim: true,
+    },
   },
   {
     timestamps: true,
   }
 );
 
-function generateSlug(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/[^a-z0-9\s-]/g, '')
-    .replace(/\s+/g, '-')
-    .replace(/-+/g, '-')
-    .trim();
-}
+CategorySchema.pre('save', async function(next) {
+  if (this.isModified(['nombre', 'slug']) || !this.slug) {
+    await assignSlug(this, this.nombre);
+  }
+  next();
+});
 
-CategorySchema.pre('save', function(next) {
-  if (this.isModified('nombre') || !this.slug) {
-    this.slug = generateSlug(this.nombre);
+CategorySchema.pre('validate', async function(next) {
+  if (!this.isNew && !this.isModified('parentId')) return next();
+
+  if (this.parentId) {
+    const parent: any = await Category.findById(this.parentId, { slug: 1, ancestros: 1, ruta: 1 }).lean();
+    if (!parent) {
+      this.invalidate('parentId', 'La categoría padre no existe', this.parentId);
+    } else if (String(parent._id) === String(this._id) || (parent.ancestros || []).map(String).includes(String(this._id))) {
+      this.invalidate('parentId', 'Una categoría no puede moverse dentro de sí misma ni de sus subcategorías', this.parentId);
+    }
+    this.$locals.padre = parent;
+  } else {
+    this.$locals.padre = null;
   }
   next();
 });
 
+// Runs after the slug is generated, since the path is made of slugs
+CategorySchema.pre('save', async function(next) {
+  if (!this.isNew && !this.isModified(['parentId', 'slug'])) return next();
+
+  const parent = this.$locals.padre !== undefined
+    ? this.$locals.padre as any
+    : this.parentId ? await Category.findById(this.parentId, { slug: 1, ancestros: 1, ruta: 1 }).lean() : null;
+
+  const fields = categoryPathFields(this.slug, parent);
+  this.ancestros = fields.ancestros;
+  this.nivel = fields.nivel;
+  this.ruta = fields.ruta;
+  this.$locals.rutaModificada = !this.isNew;
+  this.$locals.padre = undefined;
+  next();
+});
+
+CategorySchema.pre('save', function(next) {
+  this.$locals.umbralesModificados = !this.isNew && this.isModified(['umbralStockBajo', 'subcategorias', 'parentId']);
+  this.$locals.nombresModificados = !this.isNew && this.isModified(['nombre', 'plantillaNombre', 'subcategorias']);
+  next();
+});
+
+CategorySchema.post('save', async function(doc) {
+  if (!doc.$locals.rutaModificada) return;
+  doc.$locals.rutaModificada = false;
+  try {
+    await updateDescendantPaths({ _id: doc._id as Types.ObjectId, slug: doc.slug, ancestros: doc.ancestros, ruta: doc.ruta });
+  } catch (error) {
+    console.error('Error updating subcategory paths:', error);
+  }
+});
+
+// Categories below inherit the threshold, so the whole branch is recalculated. Runs after the
+// descendant paths are updated, since ancestors are resolved through them.
+CategorySchema.post('save', async function(doc) {
+  if (!doc.$locals.umbralesModificados) return;
+  try {
+    await recalculateEffectiveThresholds({ categoriaId: { $in: await getCategoryBranchIds(doc._id as Types.ObjectId) } });
+  } catch (error) {
+    console.error('Error recalculating product stock thresholds:', error);
+  }
+});
+
+CategorySchema.post('save', async function(doc) {
+  if (!doc.$locals.nombresModificados) return;
+  try {
+    await regenerateProductNames({ categoriaId: String(doc._id) });
+  } catch (error) {
+    console.error('Error regenerating product names:', error);
+  }
+});
+
+guardDeletes(CategorySchema, 'Category');
+retrySlugConflicts(CategorySchema);
+
 CategorySchema.index({ nombre: 1 });
 CategorySchema.index({ slug: 1 });
+CategorySchema.index({ slugsAnteriores: 1 });
 CategorySchema.index({ "subcategorias.nombre": 1 });
+CategorySchema.index({ parentId: 1 });
+CategorySchema.index({ ancestros: 1 });
+CategorySchema.index({ ruta: 1 });
 
 export const Category = mongoose.models.Category || mongoose.model<ICategory>("Category", CategorySchema);
 export { CategorySchema, SubcategorySchema };
\ No newline at end of file
@@ -0,0 +1,24 @@
+import mongoose, { Schema } from "mongoose";
+import { ICounter } from '../types';
+
+const CounterSchema = new Schema<ICounter>(
+  {
+    key: {
+      type: String,
+      required: true,
+      trim: true,
+      unique: true,
+    },
+    seq: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const Counter = mongoose.models.Counter || mongoose.model<ICounter>("Counter", CounterSchema);
+export { CounterSchema };
\ No newline at end of file
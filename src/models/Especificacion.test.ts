@@ -0,0 +1,24 @@
+import mongoose from 'mongoose';
+import { Especificacion } from './Especificacion';
+
+describe('Especificacion option snapshot', () => {
+  const _id = new mongoose.Types.ObjectId();
+
+  it('loads documents whose query projects opciones out', () => {
+    const doc = Especificacion.hydrate({ _id, updatedAt: new Date() }, { updatedAt: 1 });
+
+    expect(doc.updatedAt).toBeInstanceOf(Date);
+    expect(doc.$locals.opcionesOriginales).toBeUndefined();
+  });
+
+  it('keeps the loaded option values to detect renames', () => {
+    const opcionId = new mongoose.Types.ObjectId();
+    const doc = Especificacion.hydrate({
+      _id,
+      nombre: 'Color',
+      opciones: [{ _id: opcionId, valor: 'Rojo', umbralStockBajo: 3 }]
+    });
+
+    expect(doc.$locals.opcionesOriginales).toEqual([{ _id: String(opcionId), valor: 'Rojo' }]);
+  });
+});
\ No newline at end of file
@@ -1,5 +1,9 @@
 import mongoose, { Document, Schema } from "mongoose";
 import { IEspecificacion, IOpcionEspecificacion } from '../types';
+import { recalculateEffectiveThresholds } from '../utils/stockThresholds';
+import { regenerateProductNames } from '../utils/productName';
+import { recastEspecificacionValues } from '../utils/specifications';
+import { guardDeletes } from '../utils/deletion';
 
 const EspecificacionSchema = new Schema<IEspecificacion>(
   {
@@ -12,6 +16,30 @@ const EspecificacionSchema = new Schema<IEspecificacion>(
       type: String,
       trim: true,
     },
+    tipo: {
+      type: String,
+      enum: ['texto', 'numero', 'booleano', 'opcion', 'multiple'],
+      required: true,
+      default: 'opcion',
+    },
+    // Shown after numeric values, e.g. GB, pulgadas, W
+    unidad: {
+      type: String,
+      trim: true,
+    },
+    // Allowed range of numeric values
+    min: {
+      type: Number,
+      validate: {
+        validator: function(this: any, value: number) {
+          return value === undefined || value === null || this.max === undefined || this.max === null || value <= this.max;
+        },
+        message: 'El mínimo no puede ser mayor que el máximo'
+      }
+    },
+    max: {
+      type: Number,
+    },
     opciones: [{
       valor: {
         type: String,
@@ -37,6 +65,11 @@ const EspecificacionSchema = new Schema<IEspecificacion>(
       type: Boolean,
       default: true,
     },
+    // 'opcion' and 'multiple' specifications accept values outside the opciones (e.g. model numbers)
+    valorLibre: {
+      type: Boolean,
+      default: false,
+    },
     umbralStockBajoGeneral: {
       type: Number,
       required: true,
@@ -49,6 +82,107 @@ const EspecificacionSchema = new Schema<IEspecificacion>(
   }
 );
 
+interface OpcionRenombrada {
+  anterior: string;
+  nuevo: string;
+}
+
+/**
+ * Products store option values as text, so renaming an option rewrites the stored values
+ */
+async function renameOptionValues(
+  especificacionId: string,
+  renombradas: OpcionRenombrada[],
+  multiple: boolean
+): Promise<void> {
+  const Product = mongoose.models.Product;
+  for (const { anterior, nuevo } of renombradas) {
+    await Promise.all([
+      // Multiple-selection values are arrays, so the matching element is renamed instead
+      multiple
+        ? Product.updateMany(
+          { especificaciones: { $elemMatch: { especificacionId, valor: anterior } } },
+          { $set: { 'especificaciones.$[e].valor.$[v]': nuevo } },
+          { arrayFilters: [{ 'e.especificacionId': especificacionId }, { v: anterior }] }
+        )
+        : Product.updateMany(
+          { especificaciones: { $elemMatch: { especificacionId, valor: anterior } } },
+          { $set: { 'especificaciones.$[e].valor': nuevo } },
+          { arrayFilters: [{ 'e.especificacionId': especificacionId, 'e.valor': anterior }] }
+        ),
+      Product.updateMany(
+        { variantes: { $elemMatch: { especificacionId, valor: anterior } } },
+        { $set: { 'variantes.$[v].valor': nuevo } },
+        { arrayFilters: [{ 'v.especificacionId': especificacionId, 'v.valor': anterior }] }
+      )
+    ]);
+  }
+}
+
+// Option values as loaded, to detect renames on save. Queries that project `opciones` out
+// leave no snapshot, so nothing is renamed from them.
+function snapshotOptions(doc: any): void {
+  if (!doc.isSelected('opciones')) return;
+  doc.$locals.opcionesOriginales = (doc.opciones || []).map((opcion: any) => ({
+    _id: String(opcion._id),
+    valor: opcion.valor
+  }));
+}
+
+EspecificacionSchema.post('init', function(doc) {
+  snapshotOptions(doc);
+});
+
+EspecificacionSchema.pre('save', function(next) {
+  const originales: Array<{ _id: string; valor: string }> = (this.$locals.opcionesOriginales as any) || [];
+  this.$locals.opcionesRenombradas = (this.opciones || [])
+    .map((opcion: any) => ({
+      anterior: originales.find(o => o._id === String(opcion._id))?.valor,
+      nuevo: opcion.valor
+    }))
+    .filter((r: any) => r.anterior !== undefined && r.anterior !== r.nuevo);
+
+  this.$locals.tipoModificado = !this.isNew && this.isModified('tipo');
+  this.$locals.umbralesModificados = !this.isNew
+    && this.isModified(['tipo', 'opciones', 'umbralStockBajoGeneral', 'isActive']);
+  this.$locals.nombresModificados = !this.isNew && this.isModified(['nombre', 'tipo', 'unidad', 'opciones']);
+  next();
+});
+
+// Runs as one hook so values are renamed and re-cast before thresholds and names are derived from them
+EspecificacionSchema.post('save', async function(doc) {
+  const especificacionId = String(doc._id);
+  const productFilter = {
+    $or: [
+      { 'especificaciones.especificacionId': especificacionId },
+      { 'variantes.especificacionId': especificacionId }
+    ]
+  };
+  const renombradas = (doc.$locals.opcionesRenombradas as OpcionRenombrada[]) || [];
+
+  try {
+    if (renombradas.length > 0) {
+      await renameOptionValues(especificacionId, renombradas, doc.tipo === 'multiple');
+    }
+    if (doc.$locals.tipoModificado) {
+      // Read by catalogService.changeEspecificacionType, which reports the values left unconverted
+      doc.$locals.recastReport = await recastEspecificacionValues(especificacionId);
+    }
+    if (doc.$locals.umbralesModificados) {
+      await recalculateEffectiveThresholds(productFilter);
+    }
+    if (doc.$locals.nombresModificados) {
+      await regenerateProductNames(productFilter);
+    }
+  } catch (error) {
+    console.error('Error updating products after especificacion change:', error);
+  }
+
+  snapshotOptions(doc);
+});
+
+guardDeletes(EspecificacionSchema, 'Especificacion');
+
 EspecificacionSchema.index({ nombre: 1 });
 EspecificacionSchema.index({ categoriaIds: 1 });
 EspecificacionSchema.index({ isActive: 1 });
@@ -0,0 +1,66 @@
+import mongoose, { Schema } from "mongoose";
+import { IPriceChange } from '../types';
+
+const PriceChangeSchema = new Schema<IPriceChange>(
+  {
+    productId: {
+      type: String,
+      required: true,
+    },
+    previousPrice: {
+      type: Number,
+      required: false,
+      min: 0,
+    },
+    newPrice: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    previousIva: {
+      type: Number,
+      required: false,
+      min: 0,
+      max: 100,
+    },
+    newIva: {
+      type: Number,
+      required: false,
+      min: 0,
+      max: 100,
+    },
+    reason: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    userId: {
+      type: String,
+      required: false,
+    },
+    status: {
+      type: String,
+      enum: ['scheduled', 'applied', 'cancelled'],
+      required: true,
+      default: 'applied',
+    },
+    effectiveDate: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    appliedAt: {
+      type: Date,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+PriceChangeSchema.index({ productId: 1, status: 1, appliedAt: -1 });
+PriceChangeSchema.index({ status: 1, effectiveDate: 1 });
+
+export const PriceChange = mongoose.models.PriceChange || mongoose.model<IPriceChange>("PriceChange", PriceChangeSchema);
+export { PriceChangeSchema };
\ No newline at end of file
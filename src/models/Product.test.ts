@@ -0,0 +1,293 @@
+import mongoose from 'mongoose';
+import { Product } from './Product';
+import { PriceChange } from './PriceChange';
+import { Brand } from './Brand';
+import { Category } from './Category';
+import { Supplier } from './Supplier';
+import { Especificacion } from './Especificacion';
+import { configureBarcodes } from '../utils/barcodes';
+
+// Model.find stub returning the given rows through .session().lean()
+function findReturning(...results: any[][]) {
+  const find = jest.spyOn(Product, 'find');
+  for (const rows of results) {
+    find.mockReturnValueOnce({ session: () => ({ lean: async () => rows }) } as any);
+  }
+  return find;
+}
+
+describe('Product price history from update queries', () => {
+  const _id = new mongoose.Types.ObjectId();
+  let insertMany: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(Product.collection, 'updateMany').mockResolvedValue({ acknowledged: true, modifiedCount: 1 } as any);
+    insertMany = jest.spyOn(PriceChange, 'insertMany').mockResolvedValue([] as any);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('records the price a query changed with who and why', async () => {
+    findReturning([{ _id, precio: 100, iva: 21 }], [{ _id, precio: 110, iva: 21 }]);
+
+    await Product.updateMany({}, { $mul: { precio: 1.1 } })
+      .setOptions({ cambioPrecio: { userId: 'u1', reason: 'Aumento' } });
+
+    expect(insertMany).toHaveBeenCalledWith([expect.objectContaining({
+      productId: String(_id),
+      previousPrice: 100,
+      newPrice: 110,
+      previousIva: 21,
+      newIva: 21,
+      userId: 'u1',
+      reason: 'Aumento',
+      status: 'applied'
+    })], { session: undefined });
+  });
+
+  it('skips products whose price did not change', async () => {
+    findReturning([{ _id, precio: 100, iva: 21 }], [{ _id, precio: 100, iva: 21 }]);
+
+    await Product.updateMany({}, { $set: { precio: 100 } });
+
+    expect(insertMany).not.toHaveBeenCalled();
+  });
+
+  it('does not look at prices for updates that leave them alone', async () => {
+    const find = findReturning();
+
+    await Product.updateMany({}, { $set: { destacado: true } });
+
+    expect(find).not.toHaveBeenCalled();
+    expect(insertMany).not.toHaveBeenCalled();
+  });
+
+  it('lets callers that record the change themselves opt out', async () => {
+    const find = findReturning();
+
+    await Product.updateMany({}, { $set: { precio: 120 } }).setOptions({ cambioPrecio: false });
+
+    expect(find).not.toHaveBeenCalled();
+  });
+
+  it('rejects the query when the history cannot be written', async () => {
+    findReturning([{ _id, precio: 100, iva: 21 }], [{ _id, precio: 90, iva: 21 }]);
+    insertMany.mockRejectedValueOnce(new Error('write failed'));
+
+    await expect(Product.updateMany({}, { $set: { precio: 90 } })).rejects.toThrow('write failed');
+  });
+});
+describe('Product stock validation', () => {
+  const _id = new mongoose.Types.ObjectId();
+
+  it('saves other changes of a product whose stock went negative through a movement', async () => {
+    const doc = Product.hydrate({ _id, nombre: 'Cable', stock: -3 });
+    doc.nombre = 'Cable USB';
+
+    await expect(doc.validate(['stock'])).resolves.toBeUndefined();
+  });
+
+  it('rejects negative stock written directly', async () => {
+    const doc = Product.hydrate({ _id, nombre: 'Cable', stock: 2 });
+    doc.stock = -1;
+
+    await expect(doc.validate(['stock'])).rejects.toThrow('El stock no puede ser negativo');
+  });
+
+  it('applies the same rule to variant stock', async () => {
+    const doc = Product.hydrate({
+      _id,
+      nombre: 'Remera',
+      variantes: [{ especificacionId: 'esp', valor: 'M', stock: -2, codigosBarras: [] }]
+    });
+
+    await expect(doc.validate(['variantes.0.stock'])).resolves.toBeUndefined();
+
+    doc.variantes[0].stock = -4;
+    await expect(doc.validate(['variantes.0.stock'])).rejects.toThrow('El stock no puede ser negativo');
+  });
+});
+
+describe('Product variants', () => {
+  const _id = new mongoose.Types.ObjectId();
+
+  it('rejects two variants for the same option', async () => {
+    const doc = Product.hydrate({
+      _id,
+      nombre: 'Remera',
+      variantes: [
+        { especificacionId: 'esp', valor: 'M', stock: 1, codigosBarras: [] },
+        { especificacionId: 'esp', valor: 'L', stock: 1, codigosBarras: [] }
+      ]
+    });
+    doc.variantes[1].valor = 'M';
+
+    await expect(doc.validate(['variantes'])).rejects.toThrow('No se permiten variantes repetidas');
+  });
+
+  it('rejects a variant barcode the product or another variant already uses', async () => {
+    const doc = Product.hydrate({
+      _id,
+      nombre: 'Remera',
+      codigosBarras: ['7790001000014'],
+      variantes: [{ especificacionId: 'esp', valor: 'M', stock: 1, codigosBarras: [] }]
+    });
+    doc.variantes[0].codigosBarras.push('7790001000014');
+
+    await expect(doc.validate(['variantes'])).rejects.toThrow('No se permiten códigos de barras duplicados');
+  });
+});
+
+describe('Product barcode validation', () => {
+  const _id = new mongoose.Types.ObjectId();
+  const legacy = '4006381333932'; // wrong check digit
+
+  it('does not check again the codes a product was loaded with', async () => {
+    const doc = Product.hydrate({
+      _id,
+      codigosBarras: [legacy],
+      variantes: [{ especificacionId: 'esp', valor: 'M', stock: 0, codigosBarras: ['036000291450'] }]
+    });
+    doc.codigosBarras.push('96385074');
+
+    await expect(doc.validate(['codigosBarras', 'variantes'])).resolves.toBeUndefined();
+  });
+
+  it('checks codes added to a loaded product', async () => {
+    const doc = Product.hydrate({ _id, codigosBarras: [legacy] });
+    doc.codigosBarras.push('036000291450');
+
+    await expect(doc.validate(['codigosBarras'])).rejects.toThrow('Código de barras con dígito verificador inválido');
+  });
+
+  it('checks every code of a new product', () => {
+    const doc = new Product({ codigosBarras: [legacy] });
+
+    expect(doc.validateSync(['codigosBarras'])?.message).toContain('Código de barras con dígito verificador inválido');
+  });
+});
+
+describe('Product legacy codigoBarras', () => {
+  const _id = new mongoose.Types.ObjectId();
+
+  afterEach(() => configureBarcodes({ legacyCodigoBarras: true }));
+
+  it('moves a code written to the legacy field into codigosBarras', async () => {
+    const doc = Product.hydrate({ _id, nombre: 'Cable', codigosBarras: [] });
+    doc.codigoBarras = '4006-3813-33931';
+
+    await doc.validate(['codigosBarras']);
+
+    expect([...doc.codigosBarras]).toEqual(['4006381333931']);
+    expect(doc.codigoBarraPrincipal).toBe('4006381333931');
+    expect(doc.get('codigoBarras', null, { getters: false })).toBeUndefined();
+  });
+
+  it('shows the main code as codigoBarras to legacy readers while compatibility is on', () => {
+    const doc = Product.hydrate({ _id, nombre: 'Cable', codigosBarras: ['96385074', '4006381333931'], codigoBarraPrincipal: '4006381333931' });
+
+    expect(doc.codigoBarras).toBe('4006381333931');
+    expect(doc.toObject().codigoBarras).toBe('4006381333931');
+
+    configureBarcodes({ legacyCodigoBarras: false });
+    expect(doc.codigoBarras).toBeUndefined();
+  });
+});
+
+describe('Product references', () => {
+  const marcaId = new mongoose.Types.ObjectId();
+  const subcategoriaId = new mongoose.Types.ObjectId();
+  const categoria = { _id: new mongoose.Types.ObjectId(), subcategorias: [{ _id: subcategoriaId }] };
+
+  beforeEach(() => {
+    jest.spyOn(Brand, 'find').mockReturnValue({ lean: async () => [{ _id: marcaId }] } as any);
+    jest.spyOn(Category, 'find').mockReturnValue({ lean: async () => [categoria] } as any);
+    jest.spyOn(Supplier, 'find').mockReturnValue({ lean: async () => [] } as any);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('rejects saving a brand that does not exist', async () => {
+    const doc = Product.hydrate({ _id: new mongoose.Types.ObjectId(), nombre: 'Cable', marcaId });
+    const otraMarca = new mongoose.Types.ObjectId();
+    doc.marcaId = otraMarca;
+
+    await expect(doc.validate(['marcaId'])).rejects.toThrow(`La marca no existe: ${otraMarca}`);
+  });
+
+  it('rejects update queries that point at a missing supplier', async () => {
+    const updateMany = jest.spyOn(Product.collection, 'updateMany');
+    const proveedorId = new mongoose.Types.ObjectId();
+
+    await expect(Product.updateMany({}, { $set: { proveedorId } })).rejects.toThrow(`El proveedor no existe: ${proveedorId}`);
+    expect(updateMany).not.toHaveBeenCalled();
+  });
+
+  it('checks subcategories an update adds against the category of each product', async () => {
+    jest.spyOn(Product, 'find').mockReturnValue({
+      session: () => ({ lean: async () => [{ _id: new mongoose.Types.ObjectId(), categoriaId: categoria._id, subcategoriaIds: [] }] })
+    } as any);
+    const updateMany = jest.spyOn(Product.collection, 'updateMany');
+    const ajena = new mongoose.Types.ObjectId();
+
+    await expect(Product.updateMany({}, { $addToSet: { subcategoriaIds: ajena } }))
+      .rejects.toThrow(`Subcategoría inexistente o de otra categoría: ${ajena}`);
+    expect(updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('Product relations', () => {
+  it('stores brand, category, supplier and subcategory ids as ObjectIds', () => {
+    const ids = [1, 2, 3, 4].map(() => new mongoose.Types.ObjectId().toString());
+    const doc = new Product({ marcaId: ids[0], categoriaId: ids[1], proveedorId: ids[2], subcategoriaIds: [ids[3]] });
+
+    expect(doc.marcaId).toBeInstanceOf(mongoose.Types.ObjectId);
+    expect(doc.categoriaId).toBeInstanceOf(mongoose.Types.ObjectId);
+    expect(doc.proveedorId).toBeInstanceOf(mongoose.Types.ObjectId);
+    expect(doc.subcategoriaIds[0]).toBeInstanceOf(mongoose.Types.ObjectId);
+    expect(Product.schema.path('marcaId').options.ref).toBe('Brand');
+    expect(Product.schema.path('categoriaId').options.ref).toBe('Category');
+    expect(Product.schema.path('proveedorId').options.ref).toBe('Supplier');
+  });
+
+  it('rejects strings that are not ids', () => {
+    const doc = new Product({ marcaId: 'acme' });
+
+    expect(doc.validateSync(['marcaId'])?.errors.marcaId?.name).toBe('CastError');
+  });
+});
+
+describe('Product especificaciones', () => {
+  const categoriaId = new mongoose.Types.ObjectId();
+  const memoria = {
+    _id: new mongoose.Types.ObjectId(),
+    nombre: 'Memoria',
+    tipo: 'numero',
+    unidad: 'GB',
+    categoriaIds: [categoriaId]
+  };
+
+  beforeEach(() => {
+    jest.spyOn(Especificacion, 'find').mockReturnValue({ lean: async () => [memoria] } as any);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('stores values with the type of their especificacion', async () => {
+    const doc = Product.hydrate({ _id: new mongoose.Types.ObjectId(), nombre: 'Celular', categoriaId, especificaciones: [] });
+    doc.especificaciones.push({ especificacionId: String(memoria._id), valor: '128 GB' });
+
+    await doc.validate(['especificaciones']);
+
+    expect(doc.especificaciones[0].valor).toBe(128);
+  });
+
+  it('rejects values that do not fit the especificacion on its path', async () => {
+    const doc = Product.hydrate({ _id: new mongoose.Types.ObjectId(), nombre: 'Celular', categoriaId, especificaciones: [] });
+    doc.especificaciones.push({ especificacionId: String(memoria._id), valor: 'mucha' });
+
+    const error: any = await doc.validate(['especificaciones']).catch((e: unknown) => e);
+
+    expect(error.errors['especificaciones.0.valor'].message).toBe('El valor de Memoria debe ser un número: mucha');
+  });
+});
\ No newline at end of file
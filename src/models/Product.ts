@@ -1,5 +1,46 @@
 import mongoose, { Document, Schema } from "mongoose";
-import { IProduct, IProductEspecificacion, IProductImage } from '../types';
+import { IProduct, IProductEspecificacion, IProductImage, IProductVariante } from '../types';
+import { loadThresholdSources, resolveProductThresholds, DEFAULT_UMBRAL_STOCK_BAJO } from '../utils/stockThresholds';
+import { generateProductName } from '../utils/productName';
+import {
+  collectProductBarcodes,
+  generateInternalEan13,
+  getBarcodeConfig,
+  isAcceptableBarcode,
+  normalizeBarcode,
+  PRODUCT_BARCODES_EXPR
+} from '../utils/barcodes';
+import { BarcodeConflictError } from '../utils/errors';
+import { buildSearchFields } from '../utils/search';
+import {
+  checkProductReferences,
+  checkProductsReferences,
+  ReferenceField,
+  toReferenceValidationError
+} from '../utils/integrity';
+import { checkProductEspecificaciones } from '../utils/specifications';
+import { assignSlug, retrySlugConflicts } from '../utils/slugs';
+import { PriceChange } from './PriceChange';
+
+// Stock only goes below zero through movements that allow it (applyStockMovement with
+// allowNegative). Negative values written directly are rejected, but a negative balance
+// already stored does not block saving other changes.
+const nonNegativeStock = {
+  validator: function(this: any, value: number) {
+    return value >= 0 || (typeof this?.isModified === 'function' && !this.isModified('stock'));
+  },
+  message: 'El stock no puede ser negativo'
+};
+
+// Codes stored when the product was loaded are not checked again, so legacy codes with a bad
+// check digit do not block saving other changes; codes added afterwards are.
+function isAcceptedBarcode(product: any, codigo: string): boolean {
+  return Boolean(product?.$locals?.codigosBarrasCargados?.has(codigo)) || isAcceptableBarcode(codigo);
+}
+
+function snapshotBarcodes(doc: any): void {
+  doc.$locals.codigosBarrasCargados = new Set(collectProductBarcodes(doc));
+}
 
 const ProductEspecificacionSchema = new Schema({
   especificacionId: {
@@ -12,6 +53,53 @@ const ProductEspecificacionSchema = new Schema({
   },
 });
 
+const ProductVarianteSchema = new Schema<IProductVariante>(
+  {
+    especificacionId: {
+      type: String,
+      required: true,
+    },
+    valor: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    stock: {
+      type: Number,
+      required: true,
+      default: 0,
+      validate: nonNegativeStock,
+    },
+    codigosBarras: {
+      type: [String],
+      required: true,
+      default: [],
+    },
+    precio: {
+      type: Number,
+      required: false,
+      min: 0,
+    },
+    umbralStockBajo: {
+      type: Number,
+      required: false,
+      min: 0,
+    },
+    umbralStockEfectivo: {
+      type: Number,
+      required: false,
+    },
+    activo: {
+      type: Boolean,
+      required: true,
+      default: true,
+    },
+  },
+  {
+    _id: true,
+  }
+);
+
 const ProductImageSchema = new Schema({
   id: {
     type: String,
@@ -61,22 +149,65 @@ const ProductSchema = new Schema<IProduct>(
       required: true,
       default: false,
     },
+    // Legacy single barcode, folded into codigosBarras on save (see migrateLegacyBarcodes).
+    // In compatibility mode readers get the main code here once it has been migrated.
     codigoBarras: {
       type: String,
       required: false,
       trim: true,
       sparse: true,
+      get: function(this: any, value?: string) {
+        return value || legacyCodigoBarras(this);
+      },
     },
     codigosBarras: {
       type: [String],
       required: true,
       default: [],
-      validate: {
-        validator: function(arr: string[]) {
-          return arr.length === new Set(arr).size;
+      validate: [
+        {
+          validator: function(arr: string[]) {
+            return arr.length === new Set(arr).size;
+          },
+          message: 'No se permiten códigos de barras duplicados en el mismo producto'
         },
-        message: 'No se permiten códigos de barras duplicados en el mismo producto'
-      }
+        {
+          validator: function(this: any, arr: string[]) {
+            return this.validarCodigosBarras === false || arr.every(codigo => isAcceptedBarcode(this, codigo));
+          },
+          message: 'Código de barras con dígito verificador inválido'
+        }
+      ]
+    },
+    codigoBarrasInterno: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    // Every code of the product and its variants, kept in sync by the hooks below.
+    // Its unique index is what makes a code belong to a single product.
+    codigosBarrasTodos: {
+      type: [String],
+      required: false,
+      default: undefined,
+      select: false,
+    },
+    // Normalized text and tokens used by product search, kept in sync by the hooks below
+    textoBusqueda: {
+      type: String,
+      required: false,
+      select: false,
+    },
+    terminosBusqueda: {
+      type: [String],
+      required: false,
+      default: undefined,
+      select: false,
+    },
+    validarCodigosBarras: {
+      type: Boolean,
+      required: true,
+      default: true,
     },
     codigoInterno: {
       type: String,
@@ -84,6 +215,16 @@ const ProductSchema = new Schema<IProduct>(
       trim: true,
       immutable: true,
     },
+    slug: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    // Replaced slugs, so old URLs can redirect
+    slugsAnteriores: {
+      type: [String],
+      default: [],
+    },
     codigoBarraPrincipal: {
       type: String,
       required: false,
@@ -97,7 +238,8 @@ const ProductSchema = new Schema<IProduct>(
       }
     },
     marcaId: {
-      type: String,
+      type: Schema.Types.ObjectId,
+      ref: 'Brand',
       required: true,
     },
     precio: {
@@ -113,18 +255,52 @@ const ProductSchema = new Schema<IProduct>(
       default: 21,
     },
     proveedorId: {
-      type: String,
+      type: Schema.Types.ObjectId,
+      ref: 'Supplier',
       required: true,
     },
     categoriaId: {
-      type: String,
+      type: Schema.Types.ObjectId,
+      ref: 'Category',
       required: true,
     },
+    // Ids of subdocuments of the product's category. Deprecated: products go in the child
+    // category instead, see migrateEmbeddedSubcategories()
     subcategoriaIds: [{
-      type: String,
+      type: Schema.Types.ObjectId,
       required: true,
     }],
     especificaciones: [ProductEspecificacionSchema],
+    variantes: {
+      type: [ProductVarianteSchema],
+      default: [],
+      validate: [
+        {
+          validator: function(variantes: IProductVariante[]) {
+            const keys = variantes.map(v => `${v.especificacionId}:${v.valor}`);
+            return keys.length === new Set(keys).size;
+          },
+          message: 'No se permiten variantes repetidas para la misma opción de especificación'
+        },
+        {
+          validator: function(this: any, variantes: IProductVariante[]) {
+            const codigos = [
+              ...(this.codigosBarras || []),
+              ...variantes.flatMap(v => v.codigosBarras || [])
+            ];
+            return codigos.length === new Set(codigos).size;
+          },
+          message: 'No se permiten códigos de barras duplicados entre el producto y sus variantes'
+        },
+        {
+          validator: function(this: any, variantes: IProductVariante[]) {
+            return this.validarCodigosBarras === false
+              || variantes.every(v => (v.codigosBarras || []).every(codigo => isAcceptedBarcode(this, codigo)));
+          },
+          message: 'Código de barras de variante con dígito verificador inválido'
+        }
+      ]
+    },
     imagenes: [ProductImageSchema],
     imagenPrincipal: {
       type: String,
@@ -133,14 +309,19 @@ const ProductSchema = new Schema<IProduct>(
     stock: {
       type: Number,
       required: true,
-      min: 0,
       default: 0,
+      validate: nonNegativeStock,
     },
     umbralStockBajo: {
       type: Number,
-      required: true,
+      required: false,
       min: 0,
-      default: 5,
+      default: null,
+    },
+    umbralStockEfectivo: {
+      type: Number,
+      required: true,
+      default: DEFAULT_UMBRAL_STOCK_BAJO,
     },
     activoEcommerce: {
       type: Boolean,
@@ -150,15 +331,124 @@ const ProductSchema = new Schema<IProduct>(
   },
   {
     timestamps: true,
+    toJSON: { getters: true, virtuals: false },
+    toObject: { getters: true, virtuals: false },
   },
 );
 
+/**
+ * Value shown as `codigoBarras` for products whose legacy code was migrated,
+ * while the compatibility mode is on
+ */
+function legacyCodigoBarras(product: any): string | undefined {
+  if (!product || !getBarcodeConfig().legacyCodigoBarras) return undefined;
+  return product.codigoBarraPrincipal || product.codigosBarras?.[0] || undefined;
+}
+
+const SEARCH_SOURCE_PATHS = ['nombre', 'codigoInterno', 'codigosBarras', 'codigoBarras', 'codigoBarrasInterno', 'variantes'];
+
 function generateInternalCode(): string {
   const timestamp = Date.now().toString(36);
   const random = Math.random().toString(36).substring(2, 8);
   return `PROD-${timestamp}-${random}`.toUpperCase();
 }
 
+ProductSchema.pre('validate', function(next) {
+  const product = this as any;
+  // Writers still using the legacy field get their code moved to codigosBarras
+  const legacy = product.get('codigoBarras', null, { getters: false });
+  if (legacy && product.isModified('codigoBarras')) {
+    const codigo = normalizeBarcode(legacy);
+    if (!(product.codigosBarras || []).includes(codigo)) {
+      product.codigosBarras.push(codigo);
+    }
+    if (!product.codigoBarraPrincipal) {
+      product.codigoBarraPrincipal = codigo;
+    }
+    product.codigoBarras = undefined;
+  }
+  if (product.isModified('codigosBarras')) {
+    product.codigosBarras = (product.codigosBarras || []).map((codigo: string) => normalizeBarcode(codigo));
+  }
+  if (product.isModified('codigoBarraPrincipal') && product.codigoBarraPrincipal) {
+    product.codigoBarraPrincipal = normalizeBarcode(product.codigoBarraPrincipal);
+  }
+  if (product.isModified('variantes')) {
+    for (const variante of product.variantes || []) {
+      variante.codigosBarras = (variante.codigosBarras || []).map((codigo: string) => normalizeBarcode(codigo));
+    }
+  }
+  next();
+});
+
+const REFERENCE_FIELDS: ReferenceField[] = ['marcaId', 'categoriaId', 'proveedorId', 'subcategoriaIds'];
+
+ProductSchema.pre('validate', async function(next) {
+  const product = this as any;
+  const fields = REFERENCE_FIELDS.filter(field => product.isNew || product.isModified(field));
+  if (fields.length > 0) {
+    // A new category must also hold the subcategories already assigned
+    if (fields.includes('categoriaId') && !fields.includes('subcategoriaIds')) {
+      fields.push('subcategoriaIds');
+    }
+
+    const issues = await checkProductReferences({
+      marcaId: product.marcaId,
+      categoriaId: product.categoriaId,
+      proveedorId: product.proveedorId,
+      subcategoriaIds: [...(product.subcategoriaIds || [])]
+    }, fields);
+
+    const validationError = toReferenceValidationError(issues);
+    for (const [path, error] of Object.entries(validationError.errors)) {
+      product.invalidate(path, error.message, (error as any).value);
+    }
+  }
+  next();
+});
+
+ProductSchema.pre('validate', async function(next) {
+  const product = this as any;
+  if (product.isNew || product.isModified(['especificaciones', 'categoriaId'])) {
+    const { issues, valores } = await checkProductEspecificaciones({
+      categoriaId: product.categoriaId,
+      especificaciones: product.especificaciones
+    });
+
+    // Store values with the type of their specification ("16" -> 16 for numeric ones)
+    (product.especificaciones || []).forEach((especificacion: any, index: number) => {
+      if (JSON.stringify(especificacion.valor) !== JSON.stringify(valores[index])) {
+        especificacion.valor = valores[index];
+      }
+    });
+
+    // One error per path, listing every problem found there
+    const byPath = new Map<string, typeof issues>();
+    for (const issue of issues) {
+      const path = `especificaciones.${issue.index}.${issue.field}`;
+      byPath.set(path, [...(byPath.get(path) || []), issue]);
+    }
+    for (const [path, pathIssues] of byPath) {
+      product.invalidate(path, pathIssues.map(issue => issue.message).join('; '), pathIssues[0].value);
+    }
+  }
+  next();
+});
+
+// Existing products get theirs through productService.assignInternalBarcodes()
+ProductSchema.pre('save', async function(next) {
+  const product = this as any;
+  if (
+    product.isNew
+    && !product.codigoBarrasInterno
+    && (product.codigosBarras || []).length === 0
+    && getBarcodeConfig().autoGenerateInternal
+  ) {
+    product.codigoBarrasInterno = await generateInternalEan13(product.$session());
+  }
+  next();
+});
+
 ProductSchema.pre('save', async function(next) {
   const product = this as any;
   if (product.isNew && !product.codigoInterno) {
@@ -182,42 +472,491 @@ ProductSchema.pre('save', async function(next) {
   next();
 });
 
+ProductSchema.pre('save', function(next) {
+  const product = this as any;
+  // With variants, the product stock is the total across them
+  if (product.variantes && product.variantes.length > 0) {
+    product.stock = product.variantes.reduce((sum: number, v: IProductVariante) => sum + v.stock, 0);
+  }
+  next();
+});
+
 ProductSchema.pre('save', async function(next) {
   const product = this as any;
-  if (product.codigosBarras && product.codigosBarras.length > 0) {
-    for (const codigo of product.codigosBarras) {
-      const existing = await mongoose.models.Product.findOne({
-        $and: [
-          { _id: { $ne: product._id } },
-          {
-            $or: [
-              { codigosBarras: codigo },
-              { codigoBarras: codigo }
-            ]
-          }
-        ]
-      });
-
-      if (existing) {
-        throw new Error(`El código de barras '${codigo}' ya está en uso por otro producto`);
+  if (
+    product.autogenerarNombre
+    && (product.isNew || product.isModified(['autogenerarNombre', 'marcaId', 'categoriaId', 'subcategoriaIds', 'especificaciones']))
+  ) {
+    const nombre = await generateProductName(product);
+    if (nombre) {
+      product.nombre = nombre;
+    }
+  }
+  next();
+});
+
+ProductSchema.pre('save', async function(next) {
+  const product = this as any;
+  if (product.isNew || product.isModified(['umbralStockBajo', 'categoriaId', 'subcategoriaIds', 'especificaciones', 'variantes'])) {
+    const sources = await loadThresholdSources([product]);
+    const thresholds = resolveProductThresholds(product, sources);
+    product.umbralStockEfectivo = thresholds.producto.umbral;
+    product.variantes.forEach((variante: any, index: number) => {
+      variante.umbralStockEfectivo = thresholds.variantes[index].umbral;
+    });
+  }
+  next();
+});
+
+ProductSchema.post('init', function(doc) {
+  snapshotBarcodes(doc);
+});
+
+ProductSchema.post('save', function(doc) {
+  snapshotBarcodes(doc);
+});
+
+ProductSchema.pre('save', function(next) {
+  const product = this as any;
+  if (product.isNew || product.isModified(['codigosBarras', 'codigoBarras', 'codigoBarrasInterno', 'variantes'])) {
+    const codigos = collectProductBarcodes(product);
+    product.codigosBarrasTodos = codigos.length > 0 ? codigos : undefined;
+  }
+  next();
+});
+
+ProductSchema.pre('save', function(next) {
+  const product = this as any;
+  if (product.isNew || product.isModified(SEARCH_SOURCE_PATHS)) {
+    const { textoBusqueda, terminosBusqueda } = buildSearchFields(product);
+    product.textoBusqueda = textoBusqueda;
+    product.terminosBusqueda = terminosBusqueda;
+  }
+  next();
+});
+
+// Runs after the name is generated. Products without a name take their internal code.
+ProductSchema.pre('save', async function(next) {
+  const product = this as any;
+  if (product.isModified(['nombre', 'slug']) || !product.slug) {
+    await assignSlug(product, product.nombre || product.codigoInterno);
+  }
+  next();
+});
+
+ProductSchema.pre('insertMany', function(next, docs: any[]) {
+  for (const doc of docs) {
+    const codigos = collectProductBarcodes(doc);
+    doc.codigosBarrasTodos = codigos.length > 0 ? codigos : undefined;
+    Object.assign(doc, buildSearchFields(doc));
+  }
+  next();
+});
+
+const BARCODE_PATH = /^(codigosBarras|codigoBarras|codigoBarrasInterno|variantes)(\.|$)/;
+const SEARCH_PATH = /^(nombre|codigoInterno)$/;
+const BARCODE_VALUE_PATH = /(^|\.)(codigosBarras(\.\d+)?|codigoBarras|codigoBarrasInterno)$/;
+const ADDING_OPERATORS = ['$set', '$setOnInsert', '$push', '$addToSet'];
+
+function barcodesInUpdateValue(path: string, value: any): string[] {
+  const values: any[] = Array.isArray(value)
+    ? value
+    : value && Array.isArray(value.$each) ? value.$each : [value];
+
+  if (BARCODE_VALUE_PATH.test(path)) {
+    return values.filter(v => typeof v === 'string' && v !== '');
+  }
+  // Whole variants (`variantes`, `variantes.0`, `variantes.$`) carry their own codes
+  return values.flatMap(v => (v && typeof v === 'object' && Array.isArray(v.codigosBarras) ? v.codigosBarras : []));
+}
+
+/**
+ * Which derived fields an update query affects, and the codes it may add
+ */
+function analyzeUpdate(update: Record<string, any>): { barcodes: boolean; search: boolean; codigos: string[] } {
+  let barcodes = false;
+  let search = false;
+  const codigos: string[] = [];
+
+  const visit = (operator: string | null, path: string, value: any) => {
+    if (SEARCH_PATH.test(path)) {
+      search = true;
+    } else if (BARCODE_PATH.test(path)) {
+      barcodes = true;
+      if (!operator || ADDING_OPERATORS.includes(operator)) {
+        codigos.push(...barcodesInUpdateValue(path, value));
       }
     }
+  };
+
+  for (const [key, value] of Object.entries(update)) {
+    if (key.startsWith('$')) {
+      if (!value || typeof value !== 'object') continue;
+      for (const [path, operand] of Object.entries(value)) {
+        visit(key, path, operand);
+      }
+    } else {
+      visit(null, key, value);
+    }
   }
+
+  // Barcodes are search terms too
+  return { barcodes, search: search || barcodes, codigos: [...new Set(codigos)] };
+}
+
+const SUBCATEGORIAS_PATH = /^subcategoriaIds(\.|$)/;
+const SETTING_OPERATORS = [null, '$set', '$setOnInsert'];
+
+/**
+ * References an update query writes: whole values, subcategories it adds, and whether it
+ * touches the subcategories at all
+ */
+function referenceUpdate(update: Record<string, any>) {
+  const references: { marcaId?: string; categoriaId?: string; proveedorId?: string; subcategoriaIds?: string[] } = {};
+  const agregadas: string[] = [];
+  let subcategoriasModificadas = false;
+
+  const visit = (operator: string | null, path: string, value: any) => {
+    if (path === 'marcaId' || path === 'categoriaId' || path === 'proveedorId') {
+      if (SETTING_OPERATORS.includes(operator)) {
+        references[path] = value;
+      }
+    } else if (SUBCATEGORIAS_PATH.test(path)) {
+      subcategoriasModificadas = true;
+      if (path === 'subcategoriaIds' && SETTING_OPERATORS.includes(operator)) {
+        references.subcategoriaIds = Array.isArray(value) ? value : [];
+      } else if (SETTING_OPERATORS.includes(operator) || ADDING_OPERATORS.includes(operator as string)) {
+        const values = Array.isArray(value) ? value : value && Array.isArray(value.$each) ? value.$each : [value];
+        agregadas.push(...values.map(String));
+      }
+    }
+  };
+
+  for (const [key, value] of Object.entries(update)) {
+    if (key.startsWith('$')) {
+      if (!value || typeof value !== 'object') continue;
+      for (const [path, operand] of Object.entries(value)) {
+        visit(key, path, operand);
+      }
+    } else {
+      visit(null, key, value);
+    }
+  }
+
+  return { references, agregadas, subcategoriasModificadas };
+}
+
+// Update queries get the same reference checks as save(). Subcategories are checked against each
+// matched product's category when the update changes only one side.
+ProductSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate'], async function() {
+  const update: any = this.getUpdate();
+  if (!update || Array.isArray(update)) return;
+
+  const { references, agregadas, subcategoriasModificadas } = referenceUpdate(update);
+  const fields = Object.keys(references) as ReferenceField[];
+  if (fields.length === 0 && agregadas.length === 0) return;
+
+  const issues = await checkProductReferences(references, fields);
+
+  const complete = references.categoriaId !== undefined && references.subcategoriaIds !== undefined;
+  const needsProducts = !complete && (
+    (references.categoriaId !== undefined && !subcategoriasModificadas)
+    || references.subcategoriaIds !== undefined
+    || agregadas.length > 0
+  );
+
+  if (issues.length === 0 && needsProducts) {
+    const products: any[] = await this.model.find(this.getFilter(), { categoriaId: 1, subcategoriaIds: 1 })
+      .session(this.getOptions().session ?? null)
+      .lean();
+
+    issues.push(...await checkProductsReferences(products.map(product => ({
+      _id: product._id,
+      categoriaId: references.categoriaId ?? product.categoriaId,
+      subcategoriaIds: [
+        // Subcategories removed by this update are not checked
+        ...(references.subcategoriaIds ?? (subcategoriasModificadas ? [] : product.subcategoriaIds || [])),
+        ...agregadas
+      ]
+    })), ['subcategoriaIds']));
+  }
+
+  if (issues.length > 0) {
+    throw toReferenceValidationError(issues);
+  }
+});
+
+// Products whose derived fields must be recomputed once an update query has run
+const pendingSync = new WeakMap<object, { ids: unknown[]; barcodes: boolean }>();
+
+async function syncSearchFields(model: mongoose.Model<any>, ids: unknown[], session?: mongoose.ClientSession) {
+  const products: any[] = await model.find(
+    { _id: { $in: ids } },
+    { nombre: 1, codigoInterno: 1, codigosBarras: 1, codigoBarras: 1, codigoBarrasInterno: 1, 'variantes.codigosBarras': 1 }
+  ).session(session ?? null).lean();
+
+  if (products.length === 0) return;
+
+  await model.bulkWrite(
+    products.map(product => ({
+      updateOne: { filter: { _id: product._id }, update: { $set: buildSearchFields(product) } }
+    })),
+    { session }
+  );
+}
+
+// Update queries bypass save(): the codes they add are claimed in the same write, so the unique
+// index rejects a conflict atomically, and the exact set is recomputed afterwards to release
+// codes the update removed. Search fields are recomputed afterwards as well.
+ProductSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate'], async function() {
+  const update: any = this.getUpdate();
+  if (!update) return;
+
+  if (Array.isArray(update)) {
+    const syncsBarcodes = update.some(stage => stage.$set?.codigosBarrasTodos || stage.$addFields?.codigosBarrasTodos);
+    if (!syncsBarcodes) {
+      this.setUpdate([...update, { $set: { codigosBarrasTodos: PRODUCT_BARCODES_EXPR } }] as any);
+    }
+    return;
+  }
+
+  const { barcodes, search, codigos } = analyzeUpdate(update);
+  if (!search) return;
+
+  if (codigos.length > 0) {
+    this.setUpdate({
+      ...update,
+      $addToSet: { ...update.$addToSet, codigosBarrasTodos: { $each: codigos } }
+    });
+  }
+
+  const ids = await this.model.distinct('_id', this.getFilter()).session(this.getOptions().session ?? null);
+  pendingSync.set(this, { ids, barcodes });
+});
+
+ProductSchema.post(['updateOne', 'updateMany', 'findOneAndUpdate'], async function(result: any) {
+  const pending = pendingSync.get(this);
+  if (!pending) return;
+  pendingSync.delete(this);
+
+  const { ids, barcodes } = pending;
+  if (result?.upsertedId) {
+    ids.push(result.upsertedId);
+  }
+  if (ids.length === 0) return;
+
+  const session = this.getOptions().session ?? undefined;
+  if (barcodes) {
+    await this.model.updateMany(
+      { _id: { $in: ids } },
+      [{ $set: { codigosBarrasTodos: PRODUCT_BARCODES_EXPR } }],
+      { session }
+    );
+  }
+  await syncSearchFields(this.model, ids, session);
+});
+
+ProductSchema.pre(['replaceOne', 'findOneAndReplace'], function() {
+  const replacement: any = this.getUpdate();
+  if (!replacement) return;
+
+  const codigos = collectProductBarcodes(replacement);
+  this.setUpdate({
+    ...replacement,
+    ...buildSearchFields(replacement),
+    codigosBarrasTodos: codigos.length > 0 ? codigos : undefined
+  });
+});
+
+// Lean results skip getters, so the compatibility value is filled in here
+ProductSchema.post(['find', 'findOne', 'findOneAndUpdate'], function(result: any) {
+  if (!result || !this.mongooseOptions().lean || !getBarcodeConfig().legacyCodigoBarras) return;
+
+  for (const product of Array.isArray(result) ? result : [result]) {
+    if (product && !product.codigoBarras) {
+      const codigo = legacyCodigoBarras(product);
+      if (codigo) {
+        product.codigoBarras = codigo;
+      }
+    }
+  }
+});
+
+const BARCODE_INDEX_FIELDS = ['codigosBarrasTodos', 'codigoBarras', 'codigoBarrasInterno'];
+
+/**
+ * Turn a duplicate key error on a barcode index into a BarcodeConflictError naming the product
+ * that already holds the code. Other errors are returned unchanged.
+ */
+async function toBarcodeConflictError(error: any): Promise<any> {
+  if (error?.code !== 11000) return error;
+
+  let field = Object.keys(error.keyValue || {}).find(key => BARCODE_INDEX_FIELDS.includes(key));
+  let codigo = field ? error.keyValue[field] : undefined;
+  if (!field) {
+    // insertMany reports the key only in the message
+    const match = /dup key: \{ (\w+): "([^"]*)" \}/.exec(String(error.message));
+    if (!match || !BARCODE_INDEX_FIELDS.includes(match[1])) return error;
+    [, field, codigo] = match;
+  }
+
+  try {
+    const conflicting = await mongoose.models.Product.findOne(
+      { [field as string]: codigo },
+      { nombre: 1, codigoInterno: 1 }
+    ).lean();
+    return new BarcodeConflictError(String(codigo), conflicting as any);
+  } catch {
+    return new BarcodeConflictError(String(codigo));
+  }
+}
+
+ProductSchema.post('save', function(error: any, _doc: any, next: (err?: any) => void) {
+  toBarcodeConflictError(error).then(next);
+});
+
+ProductSchema.post('insertMany', function(error: any, _docs: any, next: (err?: any) => void) {
+  toBarcodeConflictError(error).then(next);
+});
+
+ProductSchema.post(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'],
+  function(error: any, _result: any, next: (err?: any) => void) {
+    toBarcodeConflictError(error).then(next);
+  }
+);
+
+// Keep the loaded price so changes made through save() can be recorded in the price history.
+// Callers may set `product.$locals.cambioPrecio = { userId, reason }` before saving.
+ProductSchema.post('init', function(doc) {
+  doc.$locals.precioOriginal = doc.precio;
+  doc.$locals.ivaOriginal = doc.iva;
+});
+
+ProductSchema.pre('save', function(next) {
+  this.$locals.registrarCambioPrecio = !this.isNew && this.isModified(['precio', 'iva']);
   next();
 });
 
-ProductSchema.index({ nombre: 1 });
+ProductSchema.post('save', async function(doc) {
+  if (!doc.$locals.registrarCambioPrecio) return;
+
+  const { precioOriginal, ivaOriginal } = doc.$locals as any;
+  const cambioPrecio: { userId?: string; reason?: string } = (doc.$locals.cambioPrecio as any) || {};
+  const now = new Date();
+
+  // A failure rejects the save: the price is already written, so save inside a transaction to
+  // keep price and history together
+  await PriceChange.create([{
+    productId: String(doc._id),
+    previousPrice: precioOriginal,
+    newPrice: doc.precio,
+    previousIva: ivaOriginal,
+    newIva: doc.iva,
+    reason: cambioPrecio.reason,
+    userId: cambioPrecio.userId,
+    status: 'applied',
+    effectiveDate: now,
+    appliedAt: now,
+  }], { session: doc.$session() });
+
+  doc.$locals.precioOriginal = doc.precio;
+  doc.$locals.ivaOriginal = doc.iva;
+  delete doc.$locals.cambioPrecio;
+});
+
+const PRICE_FIELDS = ['precio', 'iva'];
+
+// Prices of the matched products before an update query, to record what it changed
+const pendingPriceChanges = new WeakMap<object, any[]>();
+
+function operatorPaths(operand: unknown): string[] {
+  if (typeof operand === 'string') return [operand]; // $unset stage of a pipeline
+  if (Array.isArray(operand)) return operand.filter(path => typeof path === 'string');
+  return operand && typeof operand === 'object' ? Object.keys(operand) : [];
+}
+
+function updatesPrice(update: any): boolean {
+  return (Array.isArray(update) ? update : [update]).some(stage =>
+    Object.entries(stage || {}).some(([key, operand]) =>
+      (key.startsWith('$') ? operatorPaths(operand) : [key]).some(path => PRICE_FIELDS.includes(path))
+    )
+  );
+}
+
+// Update queries record the price changes they make as well. Pass the query option
+// `cambioPrecio: { userId, reason }` to say who and why, or `cambioPrecio: false` when the
+// caller writes the history itself.
+ProductSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'], async function() {
+  const options = this.getOptions();
+  if (options.cambioPrecio === false || !updatesPrice(this.getUpdate())) return;
+
+  const products = await this.model.find(this.getFilter(), { precio: 1, iva: 1 })
+    .session(options.session ?? null)
+    .lean();
+  pendingPriceChanges.set(this, products);
+});
+
+ProductSchema.post(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'], async function() {
+  const before = pendingPriceChanges.get(this);
+  if (!before) return;
+  pendingPriceChanges.delete(this);
+  if (before.length === 0) return;
+
+  const { session, cambioPrecio = {} } = this.getOptions();
+  const after: any[] = await this.model.find({ _id: { $in: before.map(product => product._id) } }, { precio: 1, iva: 1 })
+    .session(session ?? null)
+    .lean();
+  const byId = new Map(after.map(product => [String(product._id), product]));
+  const now = new Date();
+
+  const records = before.flatMap(previous => {
+    const current = byId.get(String(previous._id));
+    if (!current || (current.precio === previous.precio && current.iva === previous.iva)) return [];
+    return [{
+      productId: String(previous._id),
+      previousPrice: previous.precio,
+      newPrice: current.precio,
+      previousIva: previous.iva,
+      newIva: current.iva,
+      reason: cambioPrecio.reason,
+      userId: cambioPrecio.userId,
+      status: 'applied',
+      effectiveDate: now,
+      appliedAt: now,
+    }];
+  });
+  if (records.length > 0) {
+    await PriceChange.insertMany(records, { session: session ?? undefined });
+  }
+});
+
+retrySlugConflicts(ProductSchema);
+
+// Sortable fields end in _id, the tie-breaker of keyset pagination
+ProductSchema.index({ nombre: 1, _id: 1 });
 ProductSchema.index({ marcaId: 1 });
 ProductSchema.index({ categoriaId: 1 });
 ProductSchema.index({ proveedorId: 1 });
-ProductSchema.index({ stock: 1 });
+ProductSchema.index({ stock: 1, _id: 1 });
+ProductSchema.index({ precio: 1, _id: 1 });
+ProductSchema.index({ updatedAt: 1, _id: 1 });
+ProductSchema.index({ umbralStockEfectivo: 1 });
 ProductSchema.index({ codigoInterno: 1 }, { unique: true });
+ProductSchema.index({ slug: 1 }, { unique: true, sparse: true });
+ProductSchema.index({ slugsAnteriores: 1 });
 ProductSchema.index({ codigosBarras: 1 });
+ProductSchema.index({ codigosBarrasTodos: 1 }, { unique: true, sparse: true });
+ProductSchema.index({ terminosBusqueda: 1 });
 ProductSchema.index({ codigoBarras: 1 }, { unique: true, sparse: true });
+ProductSchema.index({ codigoBarrasInterno: 1 }, { unique: true, sparse: true });
 ProductSchema.index({ "especificaciones.especificacionId": 1 });
 ProductSchema.index({ "especificaciones.valor": 1 });
+ProductSchema.index({ "especificaciones.especificacionId": 1, "especificaciones.valor": 1 });
+ProductSchema.index({ "variantes.especificacionId": 1, "variantes.valor": 1 });
+ProductSchema.index({ "variantes.codigosBarras": 1 });
 ProductSchema.index({ "imagenes.id": 1 });
 ProductSchema.index({ imagenPrincipal: 1 });
 
 export const Product = mongoose.models.Product || mongoose.model<IProduct>("Product", ProductSchema);
-export { ProductSchema, ProductEspecificacionSchema, ProductImageSchema };
\ No newline at end of file
+export { ProductSchema, ProductEspecificacionSchema, ProductVarianteSchema, ProductImageSchema };
\ No newline at end of file
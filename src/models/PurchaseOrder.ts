@@ -0,0 +1,262 @@
+import mongoose, { Schema } from "mongoose";
+import {
+  IPurchaseDiscrepancy,
+  IPurchaseOrder,
+  IPurchaseOrderItem,
+  IPurchaseReception,
+  IPurchaseReceptionItem
+} from '../types';
+import { nextSequenceNumber } from '../utils/counters';
+
+const PurchaseOrderItemSchema = new Schema<IPurchaseOrderItem>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true,
+    },
+    varianteId: {
+      type: String,
+      required: false,
+    },
+    description: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    codigoProveedor: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    quantityReceived: {
+      type: Number,
+      required: true,
+      default: 0,
+      min: 0,
+    },
+    unitCost: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    total: {
+      type: Number,
+      required: true,
+      default: 0,
+      min: 0,
+    },
+  },
+  {
+    _id: true,
+  }
+);
+
+const PurchaseReceptionItemSchema = new Schema<IPurchaseReceptionItem>(
+  {
+    itemId: {
+      type: Schema.Types.ObjectId,
+      required: false,
+    },
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true,
+    },
+    varianteId: {
+      type: String,
+      required: false,
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    unitCost: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
+const PurchaseDiscrepancySchema = new Schema<IPurchaseDiscrepancy>(
+  {
+    tipo: {
+      type: String,
+      enum: ['faltante', 'excedente', 'costo', 'no-pedido'],
+      required: true,
+    },
+    itemId: {
+      type: Schema.Types.ObjectId,
+      required: false,
+    },
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true,
+    },
+    esperado: {
+      type: Number,
+      required: false,
+    },
+    recibido: {
+      type: Number,
+      required: false,
+    },
+    nota: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
+const PurchaseReceptionSchema = new Schema<IPurchaseReception>(
+  {
+    fecha: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    remito: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    userId: {
+      type: String,
+      required: false,
+    },
+    items: [PurchaseReceptionItemSchema],
+    discrepancias: [PurchaseDiscrepancySchema],
+    observaciones: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+  },
+  {
+    _id: true,
+  }
+);
+
+const PurchaseOrderSchema = new Schema<IPurchaseOrder>(
+  {
+    numeroOrden: {
+      type: String,
+      required: false,
+      unique: true,
+      trim: true,
+    },
+    proveedorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Supplier',
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['draft', 'sent', 'partially-received', 'received', 'cancelled'],
+      required: true,
+      default: 'draft',
+    },
+    fecha: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    fechaEntregaEstimada: {
+      type: Date,
+      required: false,
+    },
+    // ISO 4217 code of the item costs
+    moneda: {
+      type: String,
+      required: true,
+      default: 'ARS',
+      trim: true,
+      uppercase: true,
+      match: [/^[A-Z]{3}$/, 'Moneda inválida (use un código de 3 letras, como ARS o USD)'],
+    },
+    items: {
+      type: [PurchaseOrderItemSchema],
+      validate: {
+        validator: function(items: IPurchaseOrderItem[]) {
+          return items.length > 0;
+        },
+        message: 'La orden de compra debe tener al menos un ítem'
+      }
+    },
+    total: {
+      type: Number,
+      required: true,
+      default: 0,
+      min: 0,
+    },
+    recepciones: [PurchaseReceptionSchema],
+    observaciones: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    userId: {
+      type: String,
+      required: false,
+    },
+    sentAt: {
+      type: Date,
+      required: false,
+    },
+    receivedAt: {
+      type: Date,
+      required: false,
+    },
+    cancelledAt: {
+      type: Date,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+PurchaseOrderSchema.pre('validate', function(next) {
+  for (const item of this.items) {
+    item.total = Math.round(item.quantity * item.unitCost * 100) / 100;
+  }
+  this.total = Math.round(this.items.reduce((sum, item) => sum + item.total, 0) * 100) / 100;
+  next();
+});
+
+PurchaseOrderSchema.pre('save', async function(next) {
+  if (!this.numeroOrden || this.numeroOrden.trim() === '') {
+    this.numeroOrden = await nextSequenceNumber('purchaseOrder', { session: this.$session() });
+  }
+  next();
+});
+
+PurchaseOrderSchema.index({ proveedorId: 1, fecha: -1 });
+PurchaseOrderSchema.index({ status: 1, fecha: -1 });
+PurchaseOrderSchema.index({ fecha: -1, _id: -1 });
+PurchaseOrderSchema.index({ 'items.productId': 1 });
+
+export const PurchaseOrder = mongoose.models.PurchaseOrder || mongoose.model<IPurchaseOrder>("PurchaseOrder", PurchaseOrderSchema);
+export {
+  PurchaseOrderSchema,
+  PurchaseOrderItemSchema,
+  PurchaseReceptionSchema,
+  PurchaseReceptionItemSchema,
+  PurchaseDiscrepancySchema
+};
\ No newline at end of file
@@ -1,5 +1,6 @@
 import mongoose, { Document, Schema } from "mongoose";
 import { ISalesNote, ISalesNoteItem } from '../types';
+import { nextSequenceNumber } from '../utils/counters';
 
 const SalesNoteItemSchema = new Schema<ISalesNoteItem>(
   {
@@ -41,6 +42,11 @@ const SalesNoteSchema = new Schema<ISalesNote>(
       unique: true,
       trim: true,
     },
+    puntoVenta: {
+      type: Number,
+      required: false,
+      min: 1,
+    },
     fecha: {
       type: Date,
       required: true,
@@ -97,35 +103,20 @@ const SalesNoteSchema = new Schema<ISalesNote>(
 
 SalesNoteSchema.pre('save', async function(next) {
   if (!this.numeroComprobante || this.numeroComprobante.trim() === '') {
-    try {
-      const SalesNoteModel = this.constructor as mongoose.Model<ISalesNote>;
-      const lastSalesNote = await SalesNoteModel.findOne({
-        numeroComprobante: { $exists: true, $ne: '' }
-      })
-        .sort({ createdAt: -1 })
-        .limit(1);
-
-      let nextNumber = 1;
-      if (lastSalesNote && lastSalesNote.numeroComprobante) {
-        const lastNumber = parseInt(lastSalesNote.numeroComprobante.replace('NV-', ''));
-        if (!isNaN(lastNumber)) {
-          nextNumber = lastNumber + 1;
-        }
-      }
-
-      this.numeroComprobante = `NV-${nextNumber.toString().padStart(6, '0')}`;
-    } catch (error) {
-      console.error('Error generating numeroComprobante:', error);
-      this.numeroComprobante = `NV-${Date.now().toString().slice(-6)}`;
-    }
+    this.numeroComprobante = await nextSequenceNumber('salesNote', {
+      puntoVenta: this.puntoVenta,
+      session: this.$session(),
+    });
   }
   next();
 });
 
-SalesNoteSchema.index({ fecha: -1 });
+SalesNoteSchema.index({ fecha: -1, _id: -1 });
+SalesNoteSchema.index({ createdAt: -1, _id: -1 });
+SalesNoteSchema.index({ puntoVenta: 1 });
 SalesNoteSchema.index({ 'cliente.nombre': 1 });
 SalesNoteSchema.index({ 'cliente.numeroDocumento': 1 });
-SalesNoteSchema.index({ total: -1 });
+SalesNoteSchema.index({ total: -1, _id: -1 });
 
 export const SalesNote = mongoose.models.SalesNote || mongoose.model<ISalesNote>("SalesNote", SalesNoteSchema);
 export { SalesNoteSchema, SalesNoteItemSchema };
\ No newline at end of file
@@ -9,6 +9,7 @@ import {
   IEquipmentChecklist,
   IServicePayment
 } from '../types';
+import { nextSequenceNumber } from '../utils/counters';
 
 const ServiceRequestCommentSchema = new Schema<IServiceRequestComment>({
   date: {
@@ -370,27 +371,9 @@ ServiceRequestSchema.set('toObject', { virtuals: true });
 
 ServiceRequestSchema.pre('save', async function(next) {
   if (!this.ticketId || this.ticketId.trim() === '') {
-    try {
-      const ServiceRequestModel = this.constructor as mongoose.Model<IServiceRequest>;
-      const lastServiceRequest = await ServiceRequestModel.findOne({
-        ticketId: { $exists: true, $ne: '' }
-      })
-        .sort({ createdAt: -1 })
-        .limit(1);
-
-      let nextNumber = 1;
-      if (lastServiceRequest && lastServiceRequest.ticketId) {
-        const lastNumber = parseInt(lastServiceRequest.ticketId.replace('SR-', ''));
-        if (!isNaN(lastNumber)) {
-          nextNumber = lastNumber + 1;
-        }
-      }
-
-      this.ticketId = `SR-${nextNumber.toString().padStart(3, '0')}`;
-    } catch (error) {
-      console.error('Error generating ticketId:', error);
-      this.ticketId = `SR-${Date.now().toString().slice(-3)}`;
-    }
+    this.ticketId = await nextSequenceNumber('serviceRequest', {
+      session: this.$session(),
+    });
   }
   next();
 });
@@ -399,6 +382,8 @@ ServiceRequestSchema.index({ status: 1 });
 ServiceRequestSchema.index({ priority: 1 });
 ServiceRequestSchema.index({ receivedBy: 1 });
 ServiceRequestSchema.index({ isArchived: 1 });
+ServiceRequestSchema.index({ createdAt: -1, _id: -1 });
+ServiceRequestSchema.index({ updatedAt: -1, _id: -1 });
 
 export const ServiceRequest = mongoose.models.ServiceRequest || mongoose.model<IServiceRequest>("ServiceRequest", ServiceRequestSchema);
 export {
@@ -0,0 +1,67 @@
+import mongoose, { Schema } from "mongoose";
+import { IStockMovement } from '../types';
+
+const StockMovementSchema = new Schema<IStockMovement>(
+  {
+    productId: {
+      type: String,
+      required: true,
+    },
+    varianteId: {
+      type: String,
+      required: false,
+    },
+    type: {
+      type: String,
+      enum: ['sale', 'purchase', 'adjustment', 'return', 'service-part', 'transfer'],
+      required: true,
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      validate: {
+        validator: function(value: number) {
+          return value !== 0;
+        },
+        message: 'La cantidad del movimiento no puede ser cero'
+      }
+    },
+    previousStock: {
+      type: Number,
+      required: true,
+    },
+    newStock: {
+      type: Number,
+      required: true,
+    },
+    reason: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    userId: {
+      type: String,
+      required: false,
+    },
+    referenceType: {
+      type: String,
+      enum: ['SalesNote', 'ServiceRequest', 'PurchaseOrder'],
+      required: false,
+    },
+    referenceId: {
+      type: String,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+StockMovementSchema.index({ productId: 1, createdAt: 1 });
+StockMovementSchema.index({ productId: 1, varianteId: 1, createdAt: 1 });
+StockMovementSchema.index({ type: 1 });
+StockMovementSchema.index({ referenceType: 1, referenceId: 1 });
+
+export const StockMovement = mongoose.models.StockMovement || mongoose.model<IStockMovement>("StockMovement", StockMovementSchema);
+export { StockMovementSchema };
\ No newline at end of file
@@ -1,5 +1,37 @@
 import mongoose, { Document, Schema } from "mongoose";
-import { ISupplier } from '../types';
+import { ISupplier, ISupplierContacto } from '../types';
+import { guardDeletes } from '../utils/deletion';
+import { guardUniqueName } from '../utils/merge';
+import { isValidCuit, normalizeCuit } from '../utils/cuit';
+
+const SupplierContactoSchema = new Schema<ISupplierContacto>(
+  {
+    nombre: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    cargo: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    telefono: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    email: {
+      type: String,
+      required: false,
+      trim: true,
+      lowercase: true,
+    },
+  },
+  {
+    _id: true,
+  }
+);
 
 const SupplierSchema = new Schema<ISupplier>(
   {
@@ -9,13 +41,89 @@ const SupplierSchema = new Schema<ISupplier>(
       trim: true,
       unique: true,
     },
+    // Lowercase, accent-free name that makes "Samsung" and "SAMSUNG " the same name
+    nombreNormalizado: {
+      type: String,
+      required: false,
+      unique: true,
+      sparse: true,
+    },
+    razonSocial: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    // Stored as XX-XXXXXXXX-X
+    cuit: {
+      type: String,
+      required: false,
+      unique: true,
+      sparse: true,
+      set: (value: string) => value ? normalizeCuit(value) : value,
+      validate: {
+        validator: function(value: string) {
+          return !value || isValidCuit(value);
+        },
+        message: 'CUIT inválido'
+      }
+    },
+    condicionIva: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    direccion: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    telefono: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    email: {
+      type: String,
+      required: false,
+      trim: true,
+      lowercase: true,
+    },
+    contactos: {
+      type: [SupplierContactoSchema],
+      default: [],
+    },
+    // Payment terms as agreed, e.g. "30% anticipado, saldo a 60 días"
+    condicionPago: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    plazoPagoDias: {
+      type: Number,
+      required: false,
+      min: 0,
+    },
+    // Days from ordering until the goods arrive
+    plazoEntregaDias: {
+      type: Number,
+      required: false,
+      min: 0,
+    },
+    notas: {
+      type: String,
+      required: false,
+      trim: true,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+guardUniqueName(SupplierSchema, 'Supplier');
+guardDeletes(SupplierSchema, 'Supplier');
+
 SupplierSchema.index({ nombre: 1 });
 
 export const Supplier = mongoose.models.Supplier || mongoose.model<ISupplier>("Supplier", SupplierSchema);
-export { SupplierSchema };
\ No newline at end of file
+export { SupplierSchema, SupplierContactoSchema };
\ No newline at end of file
@@ -0,0 +1,64 @@
+import mongoose, { Schema } from "mongoose";
+import { ISupplierCost } from '../types';
+
+const SupplierCostSchema = new Schema<ISupplierCost>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true,
+    },
+    proveedorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Supplier',
+      required: true,
+    },
+    // The supplier's own code for the product (SKU)
+    codigoProveedor: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    costo: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    // ISO 4217 code, e.g. ARS or USD
+    moneda: {
+      type: String,
+      required: true,
+      default: 'ARS',
+      trim: true,
+      uppercase: true,
+      match: [/^[A-Z]{3}$/, 'Moneda inválida (use un código de 3 letras, como ARS o USD)'],
+    },
+    // When the cost or currency last changed
+    actualizadoEn: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+SupplierCostSchema.pre('save', function(next) {
+  if (!this.isNew && this.isModified(['costo', 'moneda']) && !this.isModified('actualizadoEn')) {
+    this.actualizadoEn = new Date();
+  }
+  next();
+});
+
+// One cost per product and supplier
+SupplierCostSchema.index({ productId: 1, proveedorId: 1 }, { unique: true });
+SupplierCostSchema.index(
+  { proveedorId: 1, codigoProveedor: 1 },
+  { unique: true, partialFilterExpression: { codigoProveedor: { $gt: '' } } }
+);
+SupplierCostSchema.index({ proveedorId: 1, actualizadoEn: -1 });
+
+export const SupplierCost = mongoose.models.SupplierCost || mongoose.model<ISupplierCost>("SupplierCost", SupplierCostSchema);
+export { SupplierCostSchema };
\ No newline at end of file
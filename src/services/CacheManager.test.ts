@@ -0,0 +1,39 @@
+import { CacheManager } from './CacheManager';
+import { Product } from '../models/Product';
+
+describe('CacheManager merges', () => {
+  const post = jest.spyOn(Product.schema, 'post');
+  const cache = CacheManager.configure({ enabled: false });
+  // The hook CacheManager registered for product saves and updates
+  const productHook = post.mock.calls[0][1] as unknown as () => Promise<void>;
+  post.mockRestore();
+
+  let invalidateProducts: jest.SpyInstance;
+
+  beforeEach(() => {
+    invalidateProducts = jest.spyOn(cache.productService, 'invalidateProductCache').mockResolvedValue();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('invalidates from the model hooks outside a merge', async () => {
+    await productHook();
+
+    expect(invalidateProducts).toHaveBeenCalledTimes(1);
+  });
+
+  it('invalidates once, after the merge, instead of on every write it makes', async () => {
+    const invalidateBrands = jest.spyOn(cache.catalogService, 'invalidateSpecificCache').mockResolvedValue();
+    jest.spyOn(cache.catalogService, 'mergeBrands').mockImplementation(async () => {
+      await productHook();
+      await productHook();
+      expect(invalidateProducts).not.toHaveBeenCalled();
+      return { targetId: 'b1', merged: 1, productCount: 2, logId: 'l1' };
+    });
+
+    await cache.mergeBrands('b1', ['b2']);
+
+    expect(invalidateProducts).toHaveBeenCalledTimes(1);
+    expect(invalidateBrands).toHaveBeenCalledWith('brands');
+  });
+});
\ No newline at end of file
@@ -1,7 +1,11 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { ProductService } from './ProductService';
 import { CatalogService } from './CatalogService';
 import { SalesService } from './SalesService';
+import { PurchaseService } from './PurchaseService';
 import { CacheConfig, RedisConfig } from './BaseCache';
+import { MergeOptions, MergeResult } from '../utils/merge';
+import { EmbeddedSubcategoryMigrationOptions, EmbeddedSubcategoryMigrationResult } from '../utils/categoryTree';
 
 export interface CacheManagerConfig extends CacheConfig {
   redis?: RedisConfig;
@@ -14,9 +18,13 @@ export class CacheManager {
   public productService: ProductService;
   public catalogService: CatalogService;
   public salesService: SalesService;
+  public purchaseService: PurchaseService;
 
   private config: CacheManagerConfig;
 
+  // Set while an operation that invalidates once when it finishes is running
+  private deferredInvalidation = new AsyncLocalStorage<boolean>();
+
   private constructor(config: CacheManagerConfig = {}) {
     this.config = {
       ttl: 3600,
@@ -30,6 +38,7 @@ export class CacheManager {
     this.productService = new ProductService(this.config, this.config.redis);
     this.catalogService = new CatalogService(this.config, this.config.redis);
     this.salesService = new SalesService(this.config, this.config.redis);
+    this.purchaseService = new PurchaseService(this.config, this.config.redis);
 
     // Setup automatic invalidation if enabled
     if (this.config.autoInvalidate) {
@@ -54,6 +63,16 @@ export class CacheManager {
     this.setupProductHooks();
     this.setupCatalogHooks();
     this.setupSalesHooks();
+    this.setupPurchaseHooks();
+  }
+
+  // Model hooks skip invalidation inside such operations: a transaction's writes are not visible
+  // until it commits, so invalidating from its hooks would be early and repeated for every write
+  private autoInvalidate(invalidate: () => Promise<void>): () => Promise<void> {
+    return async () => {
+      if (this.deferredInvalidation.getStore()) return;
+      await invalidate();
+    };
   }
 
   private setupProductHooks(): void {
@@ -61,14 +80,14 @@ export class CacheManager {
       const { Product } = require('../models/Product');
 
       // Invalidate product cache on save/update
-      Product.schema.post(['save', 'findOneAndUpdate', 'updateOne', 'updateMany'], async () => {
+      Product.schema.post(['save', 'findOneAndUpdate', 'updateOne', 'updateMany'], this.autoInvalidate(async () => {
         await this.productService.invalidateProductCache();
-      });
+      }));
 
       // Invalidate product cache on delete
-      Product.schema.post(['findOneAndDelete', 'deleteOne', 'deleteMany'], async () => {
+      Product.schema.post(['findOneAndDelete', 'deleteOne', 'deleteMany'], this.autoInvalidate(async () => {
         await this.productService.invalidateProductCache();
-      });
+      }));
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       console.warn('Could not setup Product cache hooks:', message);
@@ -83,58 +102,58 @@ export class CacheManager {
       const { Especificacion } = require('../models/Especificacion');
 
       // Category hooks
-      Category.schema.post(['save', 'findOneAndUpdate', 'updateOne', 'updateMany'], async () => {
+      Category.schema.post(['save', 'findOneAndUpdate', 'updateOne', 'updateMany'], this.autoInvalidate(async () => {
         await Promise.all([
           this.catalogService.invalidateSpecificCache('categories'),
           this.productService.invalidateProductCache() // Products reference categories
         ]);
-      });
+      }));
 
-      Category.schema.post(['findOneAndDelete', 'deleteOne', 'deleteMany'], async () => {
+      Category.schema.post(['findOneAndDelete', 'deleteOne', 'deleteMany'], this.autoInvalidate(async () => {
         await Promise.all([
           this.catalogService.invalidateSpecificCache('categories'),
           this.productService.invalidateProductCache()
         ]);
-      });
+      }));
 
       // Brand hooks
-      Brand.schema.post(['save', 'findOneAndUpdate', 'updateOne', 'updateMany'], async () => {
+      Brand.schema.post(['save', 'findOneAndUpdate', 'updateOne', 'updateMany'], this.autoInvalidate(async () => {
         await Promise.all([
           this.catalogService.invalidateSpecificCache('brands'),
           this.productService.invalidateProductCache() // Products reference brands
         ]);
-      });
+      }));
 
-      Brand.schema.post(['findOneAndDelete', 'deleteOne', 'deleteMany'], async () => {
+      Brand.schema.post(['findOneAndDelete', 'deleteOne', 'deleteMany'], this.autoInvalidate(async () => {
         await Promise.all([
           this.catalogService.invalidateSpecificCache('brands'),
           this.productService.invalidateProductCache()
         ]);
-      });
+      }));
 
       // Supplier hooks
-      Supplier.schema.post(['save', 'findOneAndUpdate', 'updateOne', 'updateMany'], async () => {
+      Supplier.schema.post(['save', 'findOneAndUpdate', 'updateOne', 'updateMany'], this.autoInvalidate(async () => {
         await Promise.all([
           this.catalogService.invalidateSpecificCache('suppliers'),
           this.productService.invalidateProductCache() // Products reference suppliers
         ]);
-      });
+      }));
 
-      Supplier.schema.post(['findOneAndDelete', 'deleteOne', 'deleteMany'], async () => {
+      Supplier.schema.post(['findOneAndDelete', 'deleteOne', 'deleteMany'], this.autoInvalidate(async () => {
         await Promise.all([
           this.catalogService.invalidateSpecificCache('suppliers'),
           this.productService.invalidateProductCache()
         ]);
-      });
+      }));
 
       // Especificacion hooks
-      Especificacion.schema.post(['save', 'findOneAndUpdate', 'updateOne', 'updateMany'], async () => {
+      Especificacion.schema.post(['save', 'findOneAndUpdate', 'updateOne', 'updateMany'], this.autoInvalidate(async () => {
         await this.catalogService.invalidateSpecificCache('especificaciones');
-      });
+      }));
 
-      Especificacion.schema.post(['findOneAndDelete', 'deleteOne', 'deleteMany'], async () => {
+      Especificacion.schema.post(['findOneAndDelete', 'deleteOne', 'deleteMany'], this.autoInvalidate(async () => {
         await this.catalogService.invalidateSpecificCache('especificaciones');
-      });
+      }));
 
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -148,22 +167,22 @@ export class CacheManager {
       const { ServiceRequest } = require('../models/ServiceRequest');
 
       // SalesNote hooks
-      SalesNote.schema.post(['save', 'findOneAndUpdate', 'updateOne', 'updateMany'], async () => {
+      SalesNote.schema.post(['save', 'findOneAndUpdate', 'updateOne', 'updateMany'], this.autoInvalidate(async () => {
         await this.salesService.invalidateSalesCache();
-      });
+      }));
 
-      SalesNote.schema.post(['findOneAndDelete', 'deleteOne', 'deleteMany'], async () => {
+      SalesNote.schema.post(['findOneAndDelete', 'deleteOne', 'deleteMany'], this.autoInvalidate(async () => {
         await this.salesService.invalidateSalesCache();
-      });
+      }));
 
       // ServiceRequest hooks
-      ServiceRequest.schema.post(['save', 'findOneAndUpdate', 'updateOne', 'updateMany'], async () => {
+      ServiceRequest.schema.post(['save', 'findOneAndUpdate', 'updateOne', 'updateMany'], this.autoInvalidate(async () => {
         await this.salesService.invalidateServiceCache();
-      });
+      }));
 
-      ServiceRequest.schema.post(['findOneAndDelete', 'deleteOne', 'deleteMany'], async () => {
+      ServiceRequest.schema.post(['findOneAndDelete', 'deleteOne', 'deleteMany'], this.autoInvalidate(async () => {
         await this.salesService.invalidateServiceCache();
-      });
+      }));
 
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -171,6 +190,25 @@ export class CacheManager {
     }
   }
 
+  private setupPurchaseHooks(): void {
+    try {
+      const { PurchaseOrder } = require('../models/PurchaseOrder');
+
+      // PurchaseOrder hooks
+      PurchaseOrder.schema.post(['save', 'findOneAndUpdate', 'updateOne', 'updateMany'], this.autoInvalidate(async () => {
+        await this.purchaseService.invalidatePurchaseCache();
+      }));
+
+      PurchaseOrder.schema.post(['findOneAndDelete', 'deleteOne', 'deleteMany'], this.autoInvalidate(async () => {
+        await this.purchaseService.invalidatePurchaseCache();
+      }));
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.warn('Could not setup Purchase cache hooks:', message);
+    }
+  }
+
   /**
    * Manually invalidate all caches
    */
@@ -179,8 +217,53 @@ export class CacheManager {
       this.productService.invalidateProductCache(),
       this.catalogService.invalidateCatalogCache(),
       this.salesService.invalidateSalesCache(),
-      this.salesService.invalidateServiceCache()
+      this.salesService.invalidateServiceCache(),
+      this.purchaseService.invalidatePurchaseCache()
+    ]);
+  }
+
+  /**
+   * Turn embedded subcategories into child categories and invalidate the catalog and product caches
+   */
+  async migrateEmbeddedSubcategories(
+    options: EmbeddedSubcategoryMigrationOptions = {}
+  ): Promise<EmbeddedSubcategoryMigrationResult> {
+    const result = await this.catalogService.migrateEmbeddedSubcategories(options);
+    if (!result.dryRun && result.products > 0) {
+      await this.productService.invalidateProductCache();
+    }
+    return result;
+  }
+
+  /**
+   * Merge duplicate brands and invalidate the catalog and product caches once, after the merge
+   * committed. The model hooks do not invalidate during the merge.
+   */
+  async mergeBrands(brandId: string, duplicateIds: string[], options: MergeOptions = {}): Promise<MergeResult> {
+    const result = await this.deferredInvalidation.run(true, () =>
+      this.catalogService.mergeBrands(brandId, duplicateIds, options)
+    );
+    await Promise.all([
+      this.catalogService.invalidateSpecificCache('brands'),
+      this.productService.invalidateProductCache()
+    ]);
+    return result;
+  }
+
+  /**
+   * Merge duplicate suppliers and invalidate the catalog, product and purchase order caches once,
+   * after the merge committed
+   */
+  async mergeSuppliers(supplierId: string, duplicateIds: string[], options: MergeOptions = {}): Promise<MergeResult> {
+    const result = await this.deferredInvalidation.run(true, () =>
+      this.catalogService.mergeSuppliers(supplierId, duplicateIds, options)
+    );
+    await Promise.all([
+      this.catalogService.invalidateSpecificCache('suppliers'),
+      this.productService.invalidateProductCache(),
+      this.purchaseService.invalidatePurchaseCache()
     ]);
+    return result;
   }
 
   /**
@@ -190,7 +273,8 @@ export class CacheManager {
     return {
       product: this.productService.getCacheStats(),
       catalog: this.catalogService.getCacheStats(),
-      sales: this.salesService.getCacheStats()
+      sales: this.salesService.getCacheStats(),
+      purchase: this.purchaseService.getCacheStats()
     };
   }
 
@@ -0,0 +1,60 @@
+import mongoose from 'mongoose';
+import { CatalogService } from './CatalogService';
+import { Especificacion } from '../models/Especificacion';
+import * as specifications from '../utils/specifications';
+import * as stockThresholds from '../utils/stockThresholds';
+import * as productName from '../utils/productName';
+
+describe('CatalogService.changeEspecificacionType', () => {
+  const service = new CatalogService({ enabled: false });
+  const _id = new mongoose.Types.ObjectId();
+
+  beforeEach(() => {
+    jest.spyOn(stockThresholds, 'recalculateEffectiveThresholds').mockResolvedValue(0);
+    jest.spyOn(productName, 'regenerateProductNames').mockResolvedValue(0);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  // Model middleware compiled from the schema hooks
+  const hooks = (Especificacion as any)._middleware;
+  const run = (exec: (done: (error?: unknown) => void) => void) =>
+    new Promise<void>((resolve, reject) => exec(error => (error ? reject(error) : resolve())));
+
+  // Loads an especificacion whose save() runs the save hooks without writing it
+  function loadEspecificacion(fields: Record<string, unknown>) {
+    const doc: any = Especificacion.hydrate({ _id, nombre: 'Pantalla', opciones: [], ...fields });
+    jest.spyOn(doc, 'save').mockImplementation(async () => {
+      await run(done => hooks.execPre('save', doc, [], done));
+      await run(done => hooks.execPost('save', doc, [doc], done));
+      return doc;
+    });
+    jest.spyOn(Especificacion, 'findById').mockResolvedValue(doc);
+    return doc;
+  }
+
+  it('returns the values that did not convert to the new type', async () => {
+    loadEspecificacion({ tipo: 'texto' });
+    const report = { updated: 3, invalid: [{ productId: 'p1', valor: 'grande', error: 'No es un número' }] };
+    const recast = jest.spyOn(specifications, 'recastEspecificacionValues').mockResolvedValue(report);
+    const warn = jest.spyOn(console, 'warn');
+
+    const result = await service.changeEspecificacionType(String(_id), 'numero');
+
+    expect(recast).toHaveBeenCalledWith(String(_id));
+    expect(result.especificacion.tipo).toBe('numero');
+    expect(result.recast).toEqual(report);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('leaves the values alone when the type does not change', async () => {
+    const doc = loadEspecificacion({ tipo: 'numero' });
+    const recast = jest.spyOn(specifications, 'recastEspecificacionValues');
+
+    const result = await service.changeEspecificacionType(String(_id), 'numero');
+
+    expect(doc.save).not.toHaveBeenCalled();
+    expect(recast).not.toHaveBeenCalled();
+    expect(result.recast).toEqual({ updated: 0, invalid: [] });
+  });
+});
\ No newline at end of file
@@ -2,7 +2,31 @@ import { Category } from '../models/Category';
 import { Brand } from '../models/Brand';
 import { Supplier } from '../models/Supplier';
 import { Especificacion } from '../models/Especificacion';
-import { ICategory, IBrand, ISupplier, IEspecificacion } from '../types';
+import { CatalogMerge } from '../models/CatalogMerge';
+import { ICategory, IBrand, ISupplier, IEspecificacion, MergeableEntity, TipoEspecificacion } from '../types';
+import {
+  buildCategoryBreadcrumb,
+  buildCategoryTree,
+  CategoryBreadcrumb,
+  CategoryTreeNode,
+  CategoryTreeRebuildResult,
+  EmbeddedSubcategoryMigrationOptions,
+  EmbeddedSubcategoryMigrationResult,
+  migrateEmbeddedSubcategories,
+  rebuildCategoryTree
+} from '../utils/categoryTree';
+import { findBySlug, rebuildSlugs, SlugLookup, SlugRebuildOptions } from '../utils/slugs';
+import { CatalogDeleteOptions, CatalogDeleteResult, deleteCatalogEntity } from '../utils/deletion';
+import {
+  DuplicateNameGroup,
+  findDuplicateNames,
+  mergeCatalogEntities,
+  MergeOptions,
+  MergeResult,
+  NormalizedNameSyncResult,
+  syncNormalizedNames
+} from '../utils/merge';
+import { RecastReport } from '../utils/specifications';
 import { BaseCacheService, CacheConfig, RedisConfig } from './BaseCache';
 
 export interface CatalogFullData {
@@ -12,6 +36,21 @@ export interface CatalogFullData {
   especificaciones: any[];
 }
 
+export interface CategoryProductCount {
+  _id: string;
+  nombre: string;
+  parentId: string | null;
+  nivel: number;
+  ruta?: string;
+  productCount: number; // Products in the category itself
+  totalProductCount: number; // Products in the category and every category below it
+}
+
+export interface EspecificacionTypeChange {
+  especificacion: any;
+  recast: RecastReport; // Product values converted to the new type, and those left as they were
+}
+
 export class CatalogService extends BaseCacheService {
   constructor(config?: CacheConfig, redisConfig?: RedisConfig) {
     super(config, redisConfig);
@@ -47,6 +86,34 @@ export class CatalogService extends BaseCacheService {
     }
   }
 
+  /**
+   * Find a category by its slug; `redirect` is true when the slug is a previous one
+   */
+  async getCategoryBySlug(slug: string): Promise<SlugLookup | null> {
+    const cacheKey = `catalog:category-slug:${slug}`;
+
+    try {
+      const cached = await this.getCache(cacheKey);
+      if (cached) {
+        const latestCategory = await Category.findOne({}, { updatedAt: 1 }, { sort: { updatedAt: -1 } });
+
+        if (!latestCategory || !this.isCacheStale(cacheKey, latestCategory.updatedAt)) {
+          return cached;
+        }
+      }
+
+      const found = await findBySlug(Category, slug);
+      if (found) {
+        await this.setCache(cacheKey, found, new Date());
+      }
+
+      return found;
+    } catch (error) {
+      console.error('Error finding category by slug:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get all brands with caching
    */
@@ -76,6 +143,34 @@ export class CatalogService extends BaseCacheService {
     }
   }
 
+  /**
+   * Find a brand by its slug; `redirect` is true when the slug is a previous one
+   */
+  async getBrandBySlug(slug: string): Promise<SlugLookup | null> {
+    const cacheKey = `catalog:brand-slug:${slug}`;
+
+    try {
+      const cached = await this.getCache(cacheKey);
+      if (cached) {
+        const latestBrand = await Brand.findOne({}, { updatedAt: 1 }, { sort: { updatedAt: -1 } });
+
+        if (!latestBrand || !this.isCacheStale(cacheKey, latestBrand.updatedAt)) {
+          return cached;
+        }
+      }
+
+      const found = await findBySlug(Brand, slug);
+      if (found) {
+        await this.setCache(cacheKey, found, new Date());
+      }
+
+      return found;
+    } catch (error) {
+      console.error('Error finding brand by slug:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get all suppliers with caching
    */
@@ -196,9 +291,10 @@ export class CatalogService extends BaseCacheService {
   }
 
   /**
-   * Get categories that have products
+   * Get categories whose branch has products, in tree order. `productCount` counts the products
+   * of the category itself and `totalProductCount` those of its whole branch.
    */
-  async getCategoriesWithProducts(): Promise<Array<{ _id: string; nombre: string; productCount: number }>> {
+  async getCategoriesWithProducts(): Promise<CategoryProductCount[]> {
     const cacheKey = 'catalog:categories-with-products';
 
     try {
@@ -224,36 +320,48 @@ export class CatalogService extends BaseCacheService {
       // Import Product model dynamically to avoid circular dependency
       const { Product } = require('../models/Product');
 
-      const categoriesWithCount = await Product.aggregate([
-        {
-          $group: {
-            _id: '$categoriaId',
-            productCount: { $sum: 1 }
-          }
-        },
-        {
-          $lookup: {
-            from: 'categories',
-            localField: '_id',
-            foreignField: '_id',
-            as: 'category'
+      const [counts, categories] = await Promise.all([
+        Product.aggregate([
+          {
+            $group: {
+              _id: '$categoriaId',
+              productCount: { $sum: 1 }
+            }
           }
-        },
-        {
-          $unwind: '$category'
-        },
-        {
-          $project: {
-            _id: 1,
-            nombre: '$category.nombre',
-            productCount: 1
-          }
-        },
-        {
-          $sort: { nombre: 1 }
-        }
+        ]),
+        Category.find({}, { nombre: 1, parentId: 1, ancestros: 1, nivel: 1, ruta: 1 }).lean()
       ]);
 
+      const totals = new Map<string, { productCount: number; totalProductCount: number }>();
+      const totalsOf = (id: string) => {
+        if (!totals.has(id)) totals.set(id, { productCount: 0, totalProductCount: 0 });
+        return totals.get(id)!;
+      };
+
+      const byId = new Map((categories as any[]).map(category => [String(category._id), category]));
+      for (const { _id, productCount } of counts as Array<{ _id: unknown; productCount: number }>) {
+        const category = byId.get(String(_id));
+        if (!category) continue;
+
+        totalsOf(String(_id)).productCount += productCount;
+        // Every ancestor's branch includes these products
+        for (const id of [String(_id), ...(category.ancestros || []).map(String)]) {
+          totalsOf(id).totalProductCount += productCount;
+        }
+      }
+
+      const categoriesWithCount: CategoryProductCount[] = (categories as any[])
+        .filter(category => totals.has(String(category._id)))
+        .map(category => ({
+          _id: String(category._id),
+          nombre: category.nombre,
+          parentId: category.parentId ? String(category.parentId) : null,
+          nivel: category.nivel ?? 0,
+          ruta: category.ruta,
+          ...totals.get(String(category._id))!
+        }))
+        .sort((a, b) => (a.ruta || a.nombre).localeCompare(b.ruta || b.nombre));
+
       await this.setCache(cacheKey, categoriesWithCount, new Date());
 
       return categoriesWithCount;
@@ -263,6 +371,302 @@ export class CatalogService extends BaseCacheService {
     }
   }
 
+  /**
+   * Get the categories nested under their parents, with caching
+   */
+  async getCategoryTree(): Promise<CategoryTreeNode[]> {
+    const cacheKey = 'catalog:category-tree';
+
+    try {
+      const cached = await this.getCache(cacheKey);
+      if (cached) {
+        const latestCategory = await Category.findOne({}, { updatedAt: 1 }, { sort: { updatedAt: -1 } });
+
+        if (!latestCategory || !this.isCacheStale(cacheKey, latestCategory.updatedAt)) {
+          return cached;
+        }
+      }
+
+      const tree = buildCategoryTree(await Category.find({}).lean());
+
+      await this.setCache(cacheKey, tree, new Date());
+
+      return tree;
+    } catch (error) {
+      console.error('Error fetching category tree:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the categories from the root down to the given one, for breadcrumbs
+   */
+  async getCategoryBreadcrumb(categoryId: string): Promise<CategoryBreadcrumb[]> {
+    const cacheKey = `catalog:breadcrumb:${categoryId}`;
+
+    try {
+      const cached = await this.getCache(cacheKey);
+      if (cached) {
+        const latestCategory = await Category.findOne({}, { updatedAt: 1 }, { sort: { updatedAt: -1 } });
+
+        if (!latestCategory || !this.isCacheStale(cacheKey, latestCategory.updatedAt)) {
+          return cached;
+        }
+      }
+
+      const breadcrumb = await buildCategoryBreadcrumb(categoryId);
+
+      await this.setCache(cacheKey, breadcrumb, new Date());
+
+      return breadcrumb;
+    } catch (error) {
+      console.error('Error fetching category breadcrumb:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a category, with its whole branch, under another parent (null makes it a root)
+   */
+  async moveCategory(categoryId: string, parentId: string | null): Promise<any> {
+    try {
+      const category = await Category.findById(categoryId);
+      if (!category) {
+        throw new Error('Categoría no encontrada');
+      }
+
+      category.parentId = parentId;
+      await category.save();
+
+      await this.invalidateSpecificCache('categories');
+
+      return category.toObject();
+    } catch (error) {
+      console.error('Error moving category:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recompute every category's ancestors and path from its parent (run once after upgrading)
+   */
+  async rebuildCategoryTree(): Promise<CategoryTreeRebuildResult> {
+    try {
+      const result = await rebuildCategoryTree();
+      if (result.updated > 0) {
+        await this.invalidateSpecificCache('categories');
+      }
+      return result;
+    } catch (error) {
+      console.error('Error rebuilding category tree:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Turn embedded subcategories into child categories and move their products (run once after
+   * upgrading). Dry run unless `dryRun: false` is passed.
+   */
+  async migrateEmbeddedSubcategories(
+    options: EmbeddedSubcategoryMigrationOptions = {}
+  ): Promise<EmbeddedSubcategoryMigrationResult> {
+    try {
+      const result = await migrateEmbeddedSubcategories(options);
+      if (!result.dryRun && result.subcategories > 0) {
+        await Promise.all([
+          this.invalidateSpecificCache('categories'),
+          this.invalidateSpecificCache('especificaciones')
+        ]);
+      }
+      return result;
+    } catch (error) {
+      console.error('Error migrating embedded subcategories:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate the slugs of categories and brands missing one (run once after upgrading), or of
+   * all of them with `all`, e.g. to fix slugs that lost their accented letters
+   */
+  async rebuildSlugs(options: SlugRebuildOptions = {}): Promise<{ categories: number; brands: number }> {
+    try {
+      const categories = await rebuildSlugs('Category', category => category.nombre, options);
+      const brands = await rebuildSlugs('Brand', brand => brand.nombre, options);
+
+      // Category paths are made of slugs
+      if (categories > 0) {
+        await rebuildCategoryTree();
+      }
+      if (categories > 0 || brands > 0) {
+        await this.invalidateCatalogCache();
+      }
+
+      return { categories, brands };
+    } catch (error) {
+      console.error('Error rebuilding catalog slugs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a brand; refused while products use it unless `reasignarA` names the brand to move them to
+   */
+  async deleteBrand(brandId: string, options: CatalogDeleteOptions = {}): Promise<CatalogDeleteResult> {
+    try {
+      const result = await deleteCatalogEntity('Brand', brandId, options);
+      await this.invalidateSpecificCache('brands');
+      return result;
+    } catch (error) {
+      console.error('Error deleting brand:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a supplier; refused while products use it unless `reasignarA` names the supplier to move them to
+   */
+  async deleteSupplier(supplierId: string, options: CatalogDeleteOptions = {}): Promise<CatalogDeleteResult> {
+    try {
+      const result = await deleteCatalogEntity('Supplier', supplierId, options);
+      await this.invalidateSpecificCache('suppliers');
+      return result;
+    } catch (error) {
+      console.error('Error deleting supplier:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a category without child categories; refused while products use it unless
+   * `reasignarA` names the category to move them to
+   */
+  async deleteCategory(categoryId: string, options: CatalogDeleteOptions = {}): Promise<CatalogDeleteResult> {
+    try {
+      const result = await deleteCatalogEntity('Category', categoryId, options);
+      await Promise.all([
+        this.invalidateSpecificCache('categories'),
+        this.invalidateSpecificCache('especificaciones')
+      ]);
+      return result;
+    } catch (error) {
+      console.error('Error deleting category:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an especificacion; refused while products use it unless `reasignarA` names the
+   * especificacion to move their values to
+   */
+  async deleteEspecificacion(especificacionId: string, options: CatalogDeleteOptions = {}): Promise<CatalogDeleteResult> {
+    try {
+      const result = await deleteCatalogEntity('Especificacion', especificacionId, options);
+      await this.invalidateSpecificCache('especificaciones');
+      return result;
+    } catch (error) {
+      console.error('Error deleting especificacion:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change the type of an especificacion and convert the values products store for it. Values
+   * that do not convert are left as they were and listed in `recast.invalid`.
+   */
+  async changeEspecificacionType(especificacionId: string, tipo: TipoEspecificacion): Promise<EspecificacionTypeChange> {
+    try {
+      const especificacion: any = await Especificacion.findById(especificacionId);
+      if (!especificacion) {
+        throw new Error(`Especificación no encontrada: ${especificacionId}`);
+      }
+      if (especificacion.tipo === tipo) {
+        return { especificacion: especificacion.toObject(), recast: { updated: 0, invalid: [] } };
+      }
+
+      especificacion.tipo = tipo;
+      await especificacion.save();
+      await this.invalidateSpecificCache('especificaciones');
+
+      const recast: RecastReport | undefined = especificacion.$locals.recastReport;
+      if (!recast) {
+        throw new Error(`No se pudieron convertir los valores de la especificación ${especificacionId}: ejecutar recastEspecificacionValues`);
+      }
+      return { especificacion: especificacion.toObject(), recast };
+    } catch (error) {
+      console.error('Error changing especificacion type:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Brands or suppliers whose names differ only in case, accents or spacing
+   */
+  async findDuplicateNames(entity: MergeableEntity): Promise<DuplicateNameGroup[]> {
+    try {
+      return await findDuplicateNames(entity);
+    } catch (error) {
+      console.error('Error finding duplicate names:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Normalize the names of brands and suppliers saved before names were compared case and
+   * accent insensitively (run once after upgrading); duplicates are returned for merging
+   */
+  async syncNormalizedNames(): Promise<{ brands: NormalizedNameSyncResult; suppliers: NormalizedNameSyncResult }> {
+    try {
+      const brands = await syncNormalizedNames('Brand');
+      const suppliers = await syncNormalizedNames('Supplier');
+      return { brands, suppliers };
+    } catch (error) {
+      console.error('Error syncing normalized names:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Merge duplicate brands into `brandId`, moving their products to it. Does not touch the
+   * caches: CacheManager.mergeBrands invalidates them once the merge committed.
+   */
+  async mergeBrands(brandId: string, duplicateIds: string[], options: MergeOptions = {}): Promise<MergeResult> {
+    try {
+      return await mergeCatalogEntities('Brand', brandId, duplicateIds, options);
+    } catch (error) {
+      console.error('Error merging brands:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Merge duplicate suppliers into `supplierId`, moving their products, costs and purchase orders
+   * to it. As with mergeBrands(), CacheManager.mergeSuppliers invalidates the caches.
+   */
+  async mergeSuppliers(supplierId: string, duplicateIds: string[], options: MergeOptions = {}): Promise<MergeResult> {
+    try {
+      return await mergeCatalogEntities('Supplier', supplierId, duplicateIds, options);
+    } catch (error) {
+      console.error('Error merging suppliers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Logged brand and supplier merges, newest first
+   */
+  async getMergeHistory(entity?: MergeableEntity, limit: number = 50): Promise<any[]> {
+    try {
+      return await CatalogMerge.find(entity ? { entity } : {})
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .lean();
+    } catch (error) {
+      console.error('Error fetching merge history:', error);
+      throw error;
+    }
+  }
+
   /**
    * Invalidate all catalog caches
    */
@@ -273,6 +677,10 @@ export class CatalogService extends BaseCacheService {
       this.invalidateCache('catalog:suppliers'),
       this.invalidateCache('catalog:full'),
       this.invalidateCache('catalog:categories-with-products'),
+      this.invalidateCache('catalog:category-tree'),
+      this.clearCache('catalog:breadcrumb:*'),
+      this.clearCache('catalog:category-slug:*'),
+      this.clearCache('catalog:brand-slug:*'),
       this.clearCache('catalog:specs:*')
     ]);
   }
@@ -286,13 +694,17 @@ export class CatalogService extends BaseCacheService {
         await Promise.all([
           this.invalidateCache('catalog:categories'),
           this.invalidateCache('catalog:full'),
-          this.invalidateCache('catalog:categories-with-products')
+          this.invalidateCache('catalog:categories-with-products'),
+          this.invalidateCache('catalog:category-tree'),
+          this.clearCache('catalog:breadcrumb:*'),
+          this.clearCache('catalog:category-slug:*')
         ]);
         break;
       case 'brands':
         await Promise.all([
           this.invalidateCache('catalog:brands'),
-          this.invalidateCache('catalog:full')
+          this.invalidateCache('catalog:full'),
+          this.clearCache('catalog:brand-slug:*')
         ]);
         break;
       case 'suppliers':
@@ -0,0 +1,333 @@
+import mongoose from 'mongoose';
+import { ProductService } from './ProductService';
+import { Product } from '../models/Product';
+import { StockMovement } from '../models/StockMovement';
+import { PriceChange } from '../models/PriceChange';
+import { Brand } from '../models/Brand';
+import { Category } from '../models/Category';
+import { Supplier } from '../models/Supplier';
+import { Especificacion } from '../models/Especificacion';
+
+describe('ProductService.getKardex', () => {
+  const productId = new mongoose.Types.ObjectId().toString();
+  const period = { startDate: new Date('2024-02-01'), endDate: new Date('2024-02-29') };
+  const service = new ProductService({ enabled: false });
+
+  // Movement lookups resolved by query shape: the period, before it ($lt) and after it ($gt)
+  function movements(inPeriod: any[], before: any = null, after: any = null) {
+    jest.spyOn(StockMovement, 'find').mockReturnValue({ sort: () => ({ lean: async () => inPeriod }) } as any);
+    jest.spyOn(StockMovement, 'findOne').mockImplementation(((filter: any) => ({
+      sort: () => ({ lean: async () => (filter.createdAt.$lt ? before : after) })
+    })) as any);
+  }
+
+  function currentStock(stock: number) {
+    return jest.spyOn(Product, 'findById').mockReturnValue({ lean: async () => ({ _id: productId, stock }) } as any);
+  }
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('runs the balance from the stock before the first movement of the period', async () => {
+    movements([
+      { _id: new mongoose.Types.ObjectId(), type: 'purchase', quantity: 5, previousStock: 10, newStock: 15 },
+      { _id: new mongoose.Types.ObjectId(), type: 'sale', quantity: -3, previousStock: 15, newStock: 12 }
+    ]);
+
+    const kardex = await service.getKardex(productId, period);
+
+    expect(kardex.openingBalance).toBe(10);
+    expect(kardex.entries.map(entry => entry.balance)).toEqual([15, 12]);
+    expect(kardex.closingBalance).toBe(12);
+  });
+
+  it('keeps the last balance before a period without movements', async () => {
+    movements([], { previousStock: 4, newStock: 7 }, { previousStock: 9, newStock: 8 });
+    const findById = currentStock(20);
+
+    const kardex = await service.getKardex(productId, period);
+
+    expect(kardex.openingBalance).toBe(7);
+    expect(kardex.closingBalance).toBe(7);
+    expect(findById).not.toHaveBeenCalled();
+  });
+
+  it('takes the balance the next movement started from when none came before', async () => {
+    movements([], null, { previousStock: 9, newStock: 8 });
+    const findById = currentStock(20);
+
+    const kardex = await service.getKardex(productId, period);
+
+    expect(kardex.openingBalance).toBe(9);
+    expect(findById).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the current stock for a product without movements', async () => {
+    movements([]);
+    currentStock(20);
+
+    const kardex = await service.getKardex(productId, period);
+
+    expect(kardex.openingBalance).toBe(20);
+    expect(kardex.entries).toEqual([]);
+  });
+});
+
+describe('ProductService.adjustStock', () => {
+  const productId = new mongoose.Types.ObjectId().toString();
+  const varianteId = new mongoose.Types.ObjectId().toString();
+  const service = new ProductService({ enabled: false });
+
+  beforeEach(() => {
+    jest.spyOn(mongoose, 'startSession').mockResolvedValue({
+      withTransaction: async (fn: () => Promise<void>) => fn(),
+      endSession: async () => undefined
+    } as any);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('moves the stock of the variant and records its balance', async () => {
+    const findOneAndUpdate = jest.spyOn(Product, 'findOneAndUpdate').mockReturnValue({
+      lean: async () => ({
+        _id: productId,
+        stock: 7,
+        variantes: [{ _id: new mongoose.Types.ObjectId(varianteId), valor: 'M', stock: 2 }]
+      })
+    } as any);
+    const create = jest.spyOn(StockMovement, 'create').mockImplementation((async ([movement]: any[]) =>
+      [{ toObject: () => movement }]) as any);
+
+    const { movement } = await service.adjustStock(productId, { quantity: -3, type: 'sale', varianteId });
+
+    expect(findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: productId, variantes: { $elemMatch: { _id: varianteId, stock: { $gte: 3 } } } },
+      { $inc: { stock: -3, 'variantes.$.stock': -3 } },
+      expect.objectContaining({ new: true })
+    );
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(movement).toMatchObject({ productId, varianteId, quantity: -3, previousStock: 5, newStock: 2 });
+  });
+
+  it('asks for the variant when the product has variants', async () => {
+    jest.spyOn(Product, 'findOneAndUpdate').mockReturnValue({ lean: async () => null } as any);
+    jest.spyOn(Product, 'findById').mockReturnValue({
+      session: () => ({ lean: async () => ({ _id: productId, variantes: [{ _id: varianteId }] }) })
+    } as any);
+    const create = jest.spyOn(StockMovement, 'create');
+
+    await expect(service.adjustStock(productId, { quantity: 1, type: 'purchase' }))
+      .rejects.toThrow('tiene variantes: indique la variante a ajustar');
+    expect(create).not.toHaveBeenCalled();
+  });
+});
+
+describe('ProductService.findByBarcode', () => {
+  const service = new ProductService({ enabled: false });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('finds products by their barcode fields when the barcode index misses', async () => {
+    const varianteId = new mongoose.Types.ObjectId();
+    const findOne = jest.spyOn(Product, 'findOne').mockReturnValue({
+      populate: () => ({
+        lean: async () => ({
+          _id: new mongoose.Types.ObjectId(),
+          nombre: 'Remera',
+          variantes: [{ _id: varianteId, valor: 'M', codigosBarras: ['96385074'] }]
+        })
+      })
+    } as any);
+
+    const result = await service.findByBarcode(' 9638-5074 ');
+
+    expect(findOne).toHaveBeenCalledWith({
+      $or: expect.arrayContaining([
+        { codigosBarrasTodos: { $in: ['96385074'] } },
+        { 'variantes.codigosBarras': { $in: ['96385074'] } }
+      ])
+    });
+    expect(result?.variante?._id).toBe(varianteId);
+  });
+});
+describe('ProductService.bulkUpdatePrices', () => {
+  const service = new ProductService({ enabled: false });
+  const products = [
+    { _id: new mongoose.Types.ObjectId(), nombre: 'Cable', codigoInterno: 'P1', precio: 1000, iva: 21 },
+    { _id: new mongoose.Types.ObjectId(), nombre: 'Funda', codigoInterno: 'P2', precio: 2000, iva: 21 },
+    { _id: new mongoose.Types.ObjectId(), nombre: 'Vidrio', codigoInterno: 'P3', precio: 0, iva: 21 }
+  ];
+  const rule = { percentage: 12.5, roundTo: 10 };
+  let invalidate: jest.SpyInstance;
+  let bulkWrite: jest.SpyInstance;
+  let insertMany: jest.SpyInstance;
+
+  // First find lists the matching ids, each batch then reads its products in the transaction
+  function catalog() {
+    jest.spyOn(Product, 'find').mockImplementation(((filter: any) => filter._id
+      ? { session: () => ({ lean: async () => products.filter(p => filter._id.$in.includes(p._id)) }) }
+      : { lean: async () => products.map(({ _id }) => ({ _id })) }) as any);
+  }
+
+  beforeEach(() => {
+    jest.spyOn(service as any, 'buildProductFilter').mockResolvedValue({ marcaId: 'm1' });
+    jest.spyOn(mongoose, 'startSession').mockResolvedValue({
+      withTransaction: async (fn: () => Promise<void>) => fn(),
+      endSession: async () => undefined
+    } as any);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    invalidate = jest.spyOn(service as any, 'invalidateProductCache').mockResolvedValue(undefined);
+    bulkWrite = jest.spyOn(Product, 'bulkWrite').mockResolvedValue({} as any);
+    insertMany = jest.spyOn(PriceChange, 'insertMany').mockResolvedValue([] as any);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('previews the rounded prices without writing anything', async () => {
+    jest.spyOn(Product, 'find').mockReturnValue({ lean: () => ({ cursor: () => products }) } as any);
+
+    const result = await service.bulkUpdatePrices({ brandId: 'm1' }, rule, { dryRun: true });
+
+    expect(result).toMatchObject({ dryRun: true, matched: 3, changed: 2 });
+    expect(result.changes.map(c => [c.codigoInterno, c.precioAnterior, c.precioNuevo])).toEqual([
+      ['P1', 1000, 1130],
+      ['P2', 2000, 2250]
+    ]);
+    expect(bulkWrite).not.toHaveBeenCalled();
+    expect(invalidate).not.toHaveBeenCalled();
+  });
+
+  it('writes each batch with its price history and invalidates the cache once', async () => {
+    catalog();
+
+    const result = await service.bulkUpdatePrices({ brandId: 'm1' }, rule, { batchSize: 2, userId: 'u1', reason: 'Lista marzo' });
+
+    expect(result).toMatchObject({ dryRun: false, matched: 3, changed: 2 });
+    expect(bulkWrite).toHaveBeenCalledTimes(1);
+    expect(insertMany).toHaveBeenCalledWith([
+      expect.objectContaining({ productId: String(products[0]._id), previousPrice: 1000, newPrice: 1130, userId: 'u1', reason: 'Lista marzo' }),
+      expect.objectContaining({ productId: String(products[1]._id), previousPrice: 2000, newPrice: 2250 })
+    ], expect.anything());
+    expect(invalidate).toHaveBeenCalledTimes(1);
+  });
+
+  it('invalidates the cache for the batches that committed before one failed', async () => {
+    catalog();
+    bulkWrite.mockResolvedValueOnce({} as any).mockRejectedValueOnce(new Error('write conflict'));
+
+    await expect(service.bulkUpdatePrices({ brandId: 'm1' }, rule, { batchSize: 1 })).rejects.toThrow('write conflict');
+    expect(invalidate).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects rules without a percentage or an amount', async () => {
+    await expect(service.bulkUpdatePrices({}, { roundTo: 10 })).rejects.toThrow('debe indicar un porcentaje o un monto');
+  });
+});
+
+describe('ProductService.getFacetedProducts', () => {
+  const service = new ProductService({ enabled: false });
+  const marcaId = new mongoose.Types.ObjectId();
+  const categoriaId = new mongoose.Types.ObjectId();
+  const especificacionId = new mongoose.Types.ObjectId();
+  let aggregate: jest.SpyInstance;
+
+  function facetResult(precios: any[]) {
+    aggregate = jest.spyOn(Product, 'aggregate').mockResolvedValue([{
+      products: [{ _id: new mongoose.Types.ObjectId(), nombre: 'Remera', marcaId: { _id: marcaId, nombre: 'Acme' } }],
+      total: [{ count: 41 }],
+      marcas: [{ _id: marcaId, count: 30 }, { _id: null, count: 11 }],
+      categorias: [{ _id: categoriaId, count: 41 }],
+      proveedores: [],
+      especificaciones: [{ _id: String(especificacionId), valores: [{ valor: 'M', count: 20 }, { valor: 'L', count: 9 }] }],
+      precios
+    }] as any);
+  }
+
+  // Name lookups answered with a `nombre` for every requested id
+  function names(model: mongoose.Model<any>, nombre: string) {
+    jest.spyOn(model, 'find').mockImplementation(((filter: any) => ({
+      lean: async () => filter._id.$in.map((_id: string) => ({ _id, nombre }))
+    })) as any);
+  }
+
+  beforeEach(() => {
+    jest.spyOn(service as any, 'buildProductFilter').mockResolvedValue({});
+    jest.spyOn(Product, 'populate').mockImplementation((async (docs: any) => docs) as any);
+    names(Brand, 'Acme');
+    names(Category, 'Indumentaria');
+    names(Supplier, 'Mayorista');
+    names(Especificacion, 'Talle');
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('names the counts and leaves out products without the field', async () => {
+    facetResult([]);
+
+    const result = await service.getFacetedProducts({ limit: 20 });
+
+    expect(result).toMatchObject({ total: 41, totalPages: 3, hasNextPage: true });
+    expect(result.products[0].marcaNombre).toBe('Acme');
+    expect(result.facets.marcas).toEqual([{ id: String(marcaId), nombre: 'Acme', count: 30 }]);
+    expect(result.facets.categorias).toEqual([{ id: String(categoriaId), nombre: 'Indumentaria', count: 41 }]);
+    expect(result.facets.especificaciones).toEqual([{
+      especificacionId: String(especificacionId),
+      nombre: 'Talle',
+      valores: [{ valor: 'M', count: 20 }, { valor: 'L', count: 9 }]
+    }]);
+  });
+
+  it('reports prices below and above the boundaries in their own ranges', async () => {
+    facetResult([
+      { _id: 1000, count: 12 },
+      { _id: 5000, count: 8 },
+      { _id: 'fuera', count: 21, debajo: 4 }
+    ]);
+
+    const result = await service.getFacetedProducts({}, { priceBoundaries: [1000, 5000, 10000] });
+
+    expect(result.facets.precios).toEqual([
+      { min: null, max: 1000, count: 4 },
+      { min: 1000, max: 5000, count: 12 },
+      { min: 5000, max: 10000, count: 8 },
+      { min: 10000, max: null, count: 17 }
+    ]);
+  });
+
+  it('uses automatic ranges without boundaries', async () => {
+    facetResult([{ _id: { min: 100, max: 900 }, count: 20 }, { _id: { min: 900, max: 4000 }, count: 21 }]);
+
+    const result = await service.getFacetedProducts({}, { priceBuckets: 2 });
+
+    expect(aggregate.mock.calls[0][0][1].$facet.precios).toEqual([{ $bucketAuto: { groupBy: '$precio', buckets: 2 } }]);
+    expect(result.facets.precios).toEqual([{ min: 100, max: 900, count: 20 }, { min: 900, max: 4000, count: 21 }]);
+  });
+
+  it('rejects boundaries that are not ascending', async () => {
+    await expect(service.getFacetedProducts({}, { priceBoundaries: [5000, 1000] }))
+      .rejects.toThrow('Los límites de precio deben ser al menos dos valores en orden creciente');
+  });
+});
+
+describe('ProductService.getProducts', () => {
+  const service = new ProductService({ enabled: false });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('filters ranked results by relation ids and populates them like the other listings', async () => {
+    const marcaId = new mongoose.Types.ObjectId();
+    jest.spyOn(Product, 'countDocuments').mockResolvedValue(1 as any);
+    const aggregate = jest.spyOn(Product, 'aggregate').mockResolvedValue([{ _id: new mongoose.Types.ObjectId(), marcaId }] as any);
+    const populate = jest.spyOn(Product, 'populate').mockImplementation((async (docs: any[]) =>
+      docs.map(doc => ({ ...doc, marcaId: { _id: doc.marcaId, nombre: 'Acme' }, categoriaId: { nombre: 'Audio', slug: 'audio' } }))) as any);
+
+    const result = await service.getProducts({ search: 'auricular', brandId: String(marcaId) });
+
+    // Aggregations do not cast, so the filter must already hold an ObjectId
+    const { $match } = aggregate.mock.calls[0][0][0] as any;
+    expect($match.marcaId).toBeInstanceOf(mongoose.Types.ObjectId);
+    expect($match.marcaId.equals(marcaId)).toBe(true);
+    expect(populate).toHaveBeenCalledWith(expect.any(Array), expect.arrayContaining([{ path: 'marcaId', select: 'nombre' }]));
+    expect(result.products[0]).toMatchObject({ marcaNombre: 'Acme', categoriaNombre: 'Audio' });
+  });
+});
\ No newline at end of file
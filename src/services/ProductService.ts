@@ -1,25 +1,97 @@
+import mongoose from 'mongoose';
 import { Product } from '../models/Product';
 import { Category } from '../models/Category';
 import { Brand } from '../models/Brand';
 import { Supplier } from '../models/Supplier';
-import { IProduct } from '../types';
+import { Especificacion } from '../models/Especificacion';
+import { StockMovement } from '../models/StockMovement';
+import { PriceChange } from '../models/PriceChange';
+import { SupplierCost } from '../models/SupplierCost';
+import { SalesNote } from '../models/SalesNote';
+import { IProduct, IProductVariante, ProductWithRelations, StockMovementType, StockReferenceType } from '../types';
+import {
+  DEFAULT_UMBRAL_STOCK_BAJO,
+  EffectiveThreshold,
+  loadThresholdSources,
+  migrateThresholdDefaults,
+  recalculateEffectiveThresholds,
+  resolveProductThresholds,
+  ThresholdDefaultsMigrationOptions,
+  ThresholdDefaultsMigrationResult
+} from '../utils/stockThresholds';
+import { regenerateProductNames } from '../utils/productName';
+import { applyStockMovement } from '../utils/stock';
+import {
+  BarcodeIndexRebuildResult,
+  generateInternalEan13,
+  LegacyBarcodeMigrationOptions,
+  LegacyBarcodeMigrationResult,
+  migrateLegacyBarcodes,
+  normalizeBarcode,
+  productBarcodeFilter,
+  rebuildBarcodeIndex
+} from '../utils/barcodes';
+import { buildProductSearch, rebuildSearchIndex } from '../utils/search';
+import { buildEspecificacionFilter, EspecificacionFilter } from '../utils/specifications';
+import { getCategoryBranchIds } from '../utils/categoryTree';
+import { findBySlug, rebuildSlugs, SlugLookup, SlugRebuildOptions } from '../utils/slugs';
+import {
+  migrateReferenceIds,
+  ReferenceIdMigrationOptions,
+  ReferenceIdMigrationResult,
+  ReferenceScanOptions,
+  ReferenceScanReport,
+  scanProductReferences
+} from '../utils/integrity';
+import {
+  matchPriceList,
+  parsePriceList,
+  PriceListParseOptions,
+  PriceListRow,
+  PriceListRowStatus,
+  summarizePriceList
+} from '../utils/priceListImport';
+import {
+  CostComparisonOptions,
+  getProductSupplierCosts,
+  getSupplierPriceList,
+  ProductCostComparison,
+  toBaseCurrency,
+  setSupplierCost,
+  SupplierCostInput,
+  SupplierPriceListItem
+} from '../utils/supplierCosts';
+import {
+  buildKeysetFilter,
+  CursorPage,
+  CursorPaginationOptions,
+  decodeCursor,
+  findCursorPage,
+  keysetSort,
+  SortDirection,
+  toCursorPage
+} from '../utils/pagination';
 import { BaseCacheService, CacheConfig, RedisConfig } from './BaseCache';
 
 export interface ProductQuery {
   search?: string;
   categoryId?: string;
+  includeDescendants?: boolean; // With categoryId, also products of every category below it
   brandId?: string;
   supplierId?: string;
+  especificaciones?: EspecificacionFilter[]; // Products must match every filter
   activoEcommerce?: boolean;
   lowStock?: boolean;
   page?: number;
   limit?: number;
-  sortBy?: 'nombre' | 'precio' | 'stock' | 'updatedAt';
+  sortBy?: 'nombre' | 'precio' | 'stock' | 'updatedAt' | 'relevancia'; // 'relevancia' is the default when searching
   sortOrder?: 'asc' | 'desc';
 }
 
+export interface ProductCursorQuery extends Omit<ProductQuery, 'page'>, CursorPaginationOptions {}
+
 export interface ProductsResult {
-  products: any[];
+  products: ProductWithRelations[];
   total: number;
   page: number;
   totalPages: number;
@@ -27,12 +99,274 @@ export interface ProductsResult {
   hasPrevPage: boolean;
 }
 
+export interface FacetCount {
+  id: string;
+  nombre?: string;
+  count: number;
+}
+
+export interface EspecificacionFacet {
+  especificacionId: string;
+  nombre?: string;
+  valores: Array<{ valor: string | number | boolean; count: number }>;
+}
+
+export interface PriceBucket {
+  min: number | null; // null for the open-ended bucket below the first boundary
+  max: number | null; // null for the open-ended bucket above the last boundary
+  count: number;
+}
+
+export interface ProductFacets {
+  marcas: FacetCount[];
+  categorias: FacetCount[];
+  proveedores: FacetCount[];
+  especificaciones: EspecificacionFacet[];
+  precios: PriceBucket[];
+}
+
+export interface FacetOptions {
+  priceBoundaries?: number[]; // At least two ascending limits; automatic ranges when omitted
+  priceBuckets?: number; // Number of automatic ranges
+}
+
+export interface FacetedProductsResult extends ProductsResult {
+  facets: ProductFacets;
+}
+
 export interface CatalogData {
   categories: any[];
   brands: any[];
   suppliers: any[];
 }
 
+export interface StockAdjustment {
+  quantity: number; // Signed: positive adds stock, negative removes it
+  type: StockMovementType;
+  varianteId?: string; // Required for products with variants; adjusts that variant's stock
+  reason?: string;
+  userId?: string;
+  referenceType?: StockReferenceType;
+  referenceId?: string;
+  allowNegative?: boolean; // Allow the resulting stock to go below zero (default: false)
+}
+
+export interface StockAdjustmentResult {
+  product: any;
+  movement: any;
+}
+
+export interface KardexQuery {
+  varianteId?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface KardexEntry {
+  _id: string;
+  date: Date;
+  type: StockMovementType;
+  quantityIn: number;
+  quantityOut: number;
+  balance: number;
+  reason?: string;
+  userId?: string;
+  referenceType?: StockReferenceType;
+  referenceId?: string;
+}
+
+export interface KardexResult {
+  productId: string;
+  varianteId?: string;
+  openingBalance: number;
+  closingBalance: number;
+  entries: KardexEntry[];
+}
+
+export interface PriceUpdate {
+  precio: number;
+  iva?: number; // Keeps the current IVA when omitted
+  userId?: string;
+  reason?: string;
+}
+
+export interface ScheduledPriceUpdate extends PriceUpdate {
+  effectiveDate: Date;
+}
+
+export interface PriceAtDate {
+  precio: number;
+  iva: number;
+}
+
+export interface SalesNotePriceAuditItem {
+  itemId: string;
+  productId: string;
+  description: string;
+  unitPrice: number;
+  listPrice: number | null; // Null when the product no longer exists
+  difference: number | null;
+}
+
+export interface PriceRule {
+  percentage?: number; // e.g. 12.5 raises prices 12.5%, -10 lowers them 10%
+  amount?: number; // Fixed amount added after the percentage
+  roundTo?: number; // Round to a multiple of this value (e.g. 10 or 100)
+  roundingMode?: 'nearest' | 'up' | 'down'; // Default: 'nearest'
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+export interface BulkPriceUpdateOptions {
+  dryRun?: boolean;
+  batchSize?: number; // Default: 200
+  userId?: string;
+  reason?: string;
+}
+
+export interface BulkPriceChange {
+  productId: string;
+  nombre?: string;
+  codigoInterno: string;
+  precioAnterior: number;
+  precioNuevo: number;
+}
+
+export interface BulkPriceUpdateResult {
+  dryRun: boolean;
+  matched: number;
+  changed: number;
+  changes: BulkPriceChange[];
+}
+
+export interface ProductThresholdInfo {
+  productId: string;
+  umbral: EffectiveThreshold;
+  variantes: Array<EffectiveThreshold & { _id: string; especificacionId: string; valor: string }>;
+}
+
+export interface BarcodeLookupResult {
+  product: ProductWithRelations;
+  variante?: IProductVariante; // Set when the code belongs to a variant
+}
+
+export interface PriceListImportOptions extends PriceListParseOptions {
+  proveedorId: string;
+  precio?: PriceRule; // Also set sale prices: the rule applied to the cost, e.g. { percentage: 60, roundTo: 100 }
+  tiposCambio?: Record<string, number>; // To price products from costs in other currencies
+}
+
+export interface PriceListPreview {
+  proveedorId: string;
+  filas: PriceListRow[];
+  resumen: Record<PriceListRowStatus, number> & { total: number };
+}
+
+export interface PriceListApplyOptions {
+  batchSize?: number; // Default: 200
+  userId?: string;
+  reason?: string;
+}
+
+export interface PriceListApplyResult {
+  costos: number; // Supplier costs created or updated
+  precios: number; // Sale prices changed
+}
+
+// Relations populated on every product returned by the service
+const PRODUCT_RELATIONS = [
+  { path: 'marcaId', select: 'nombre' },
+  { path: 'categoriaId', select: 'nombre slug' },
+  { path: 'proveedorId', select: 'nombre' }
+];
+
+// Aggregations skip `select: false`, so internal index fields are projected out by hand
+const HIDE_INTERNAL_FIELDS = { $project: { codigosBarrasTodos: 0, textoBusqueda: 0, terminosBusqueda: 0 } };
+
+// Stored effective thresholds, falling back to the product's own field for products saved before
+// they were introduced. A negative threshold disables alerts.
+const PRODUCT_THRESHOLD_EXPR = {
+  $ifNull: ['$umbralStockEfectivo', { $ifNull: ['$umbralStockBajo', DEFAULT_UMBRAL_STOCK_BAJO] }]
+};
+const VARIANT_THRESHOLD_EXPR = { $ifNull: ['$$variante.umbralStockEfectivo', PRODUCT_THRESHOLD_EXPR] };
+
+// Products with variants are low on stock when any active variant is
+const LOW_STOCK_EXPR = {
+  $cond: [
+    { $gt: [{ $size: { $ifNull: ['$variantes', []] } }, 0] },
+    {
+      $gt: [{
+        $size: {
+          $filter: {
+            input: '$variantes',
+            as: 'variante',
+            cond: {
+              $and: [
+                { $ne: ['$$variante.activo', false] },
+                { $gte: [VARIANT_THRESHOLD_EXPR, 0] },
+                { $lte: ['$$variante.stock', VARIANT_THRESHOLD_EXPR] }
+              ]
+            }
+          }
+        }
+      }, 0]
+    },
+    {
+      $and: [
+        { $gte: [PRODUCT_THRESHOLD_EXPR, 0] },
+        { $lte: ['$stock', PRODUCT_THRESHOLD_EXPR] }
+      ]
+    }
+  ]
+};
+
+function applyPriceRule(precio: number, rule: PriceRule): number {
+  const { percentage = 0, amount = 0, roundTo, roundingMode = 'nearest', minPrice, maxPrice } = rule;
+
+  let nuevo = precio * (1 + percentage / 100) + amount;
+
+  if (roundTo) {
+    const round = roundingMode === 'up' ? Math.ceil : roundingMode === 'down' ? Math.floor : Math.round;
+    nuevo = round(nuevo / roundTo) * roundTo;
+  } else {
+    nuevo = Math.round(nuevo * 100) / 100;
+  }
+
+  if (minPrice !== undefined) nuevo = Math.max(nuevo, minPrice);
+  if (maxPrice !== undefined) nuevo = Math.min(nuevo, maxPrice);
+
+  return Math.max(nuevo, 0);
+}
+
+function toBulkPriceChange(product: any, precioNuevo: number): BulkPriceChange {
+  return {
+    productId: product._id.toString(),
+    nombre: product.nombre,
+    codigoInterno: product.codigoInterno,
+    precioAnterior: product.precio,
+    precioNuevo,
+  };
+}
+
+function productThreshold(product: any): number {
+  return product.umbralStockEfectivo ?? product.umbralStockBajo ?? DEFAULT_UMBRAL_STOCK_BAJO;
+}
+
+// Populated relation names copied to the top level, as every product listing returns them
+function withRelationNames(product: any): ProductWithRelations {
+  return {
+    ...product,
+    marcaNombre: product.marcaId?.nombre,
+    categoriaNombre: product.categoriaId?.nombre,
+    categoriaSlug: product.categoriaId?.slug,
+    proveedorNombre: product.proveedorId?.nombre,
+  };
+}
+
+function toObjectId(id: string): mongoose.Types.ObjectId | string {
+  return mongoose.isValidObjectId(id) ? new mongoose.Types.ObjectId(id) : id;
+}
+
 export class ProductService extends BaseCacheService {
   constructor(config?: CacheConfig, redisConfig?: RedisConfig) {
     super(config, redisConfig);
@@ -41,7 +375,7 @@ export class ProductService extends BaseCacheService {
   /**
    * Get all products with caching and intelligent invalidation
    */
-  async getAllProducts(): Promise<any[]> {
+  async getAllProducts(): Promise<ProductWithRelations[]> {
     const cacheKey = 'products:all';
 
     try {
@@ -58,20 +392,12 @@ export class ProductService extends BaseCacheService {
 
       // Fetch from database with all populated fields
       const products = await Product.find({})
-        .populate('marcaId', 'nombre')
-        .populate('categoriaId', 'nombre slug')
-        .populate('proveedorId', 'nombre')
+        .populate(PRODUCT_RELATIONS)
         .sort({ updatedAt: -1 })
         .lean();
 
       // Transform to include populated field names at root level
-      const transformedProducts = products.map(product => ({
-        ...product,
-        marcaNombre: (product.marcaId as any)?.nombre,
-        categoriaNombre: (product.categoriaId as any)?.nombre,
-        categoriaSlug: (product.categoriaId as any)?.slug,
-        proveedorNombre: (product.proveedorId as any)?.nombre,
-      }));
+      const transformedProducts = products.map(withRelationNames);
 
       // Cache the result
       const latestUpdate = new Date();
@@ -89,17 +415,12 @@ export class ProductService extends BaseCacheService {
    */
   async getProducts(query: ProductQuery = {}): Promise<ProductsResult> {
     const {
-      search,
-      categoryId,
-      brandId,
-      supplierId,
-      activoEcommerce,
-      lowStock,
       page = 1,
       limit = 20,
-      sortBy = 'updatedAt',
       sortOrder = 'desc'
     } = query;
+    const productSearch = query.search ? buildProductSearch(query.search) : null;
+    const sortBy = query.sortBy ?? (productSearch ? 'relevancia' : 'updatedAt');
 
     // Create cache key based on query parameters
     const queryString = JSON.stringify(query);
@@ -117,23 +438,7 @@ export class ProductService extends BaseCacheService {
       }
 
       // Build MongoDB query
-      const filter: any = {};
-
-      if (search) {
-        filter.$or = [
-          { nombre: { $regex: search, $options: 'i' } },
-          { codigoInterno: { $regex: search, $options: 'i' } },
-          { codigosBarras: { $in: [new RegExp(search, 'i')] } }
-        ];
-      }
-
-      if (categoryId) filter.categoriaId = categoryId;
-      if (brandId) filter.marcaId = brandId;
-      if (supplierId) filter.proveedorId = supplierId;
-      if (typeof activoEcommerce === 'boolean') filter.activoEcommerce = activoEcommerce;
-      if (lowStock) {
-        filter.$expr = { $lte: ['$stock', '$umbralStockBajo'] };
-      }
+      const filter = await this.buildProductFilter(query);
 
       // Count total documents
       const total = await Product.countDocuments(filter);
@@ -142,28 +447,28 @@ export class ProductService extends BaseCacheService {
       const totalPages = Math.ceil(total / limit);
       const skip = (page - 1) * limit;
 
-      // Build sort object
-      const sort: any = {};
-      sort[sortBy] = sortOrder === 'asc' ? 1 : -1;
+      let products: any[];
+      if (sortBy === 'relevancia' && productSearch) {
+        products = await Product.populate(
+          await this.findRankedProducts(filter, productSearch.score, skip, limit),
+          PRODUCT_RELATIONS
+        );
+      } else {
+        // Build sort object
+        const sort: any = {};
+        sort[sortBy === 'relevancia' ? 'updatedAt' : sortBy] = sortOrder === 'asc' ? 1 : -1;
 
-      // Fetch products
-      const products = await Product.find(filter)
-        .populate('marcaId', 'nombre')
-        .populate('categoriaId', 'nombre slug')
-        .populate('proveedorId', 'nombre')
-        .sort(sort)
-        .skip(skip)
-        .limit(limit)
-        .lean();
+        // Fetch products
+        products = await Product.find(filter)
+          .populate(PRODUCT_RELATIONS)
+          .sort(sort)
+          .skip(skip)
+          .limit(limit)
+          .lean();
+      }
 
       // Transform products
-      const transformedProducts = products.map(product => ({
-        ...product,
-        marcaNombre: (product.marcaId as any)?.nombre,
-        categoriaNombre: (product.categoriaId as any)?.nombre,
-        categoriaSlug: (product.categoriaId as any)?.slug,
-        proveedorNombre: (product.proveedorId as any)?.nombre,
-      }));
+      const transformedProducts = products.map(withRelationNames);
 
       const result: ProductsResult = {
         products: transformedProducts,
@@ -185,6 +490,306 @@ export class ProductService extends BaseCacheService {
     }
   }
 
+  /**
+   * Get products with keyset pagination: pass the returned `nextCursor` to get the next page.
+   * Pages stay consistent while products are edited, and deep pages cost the same as the first.
+   */
+  async getProductsPage(query: ProductCursorQuery = {}): Promise<CursorPage<ProductWithRelations>> {
+    const { limit = 20, sortOrder = 'desc', cursor, includeTotal = false } = query;
+    const productSearch = query.search ? buildProductSearch(query.search) : null;
+    const sortBy = query.sortBy ?? (productSearch ? 'relevancia' : 'updatedAt');
+    const direction: SortDirection = sortOrder === 'asc' ? 1 : -1;
+
+    const cacheKey = `products:query:cursor:${Buffer.from(JSON.stringify(query)).toString('base64')}`;
+
+    try {
+      const cached = await this.getCache(cacheKey);
+      if (cached) {
+        const latestProduct = await Product.findOne({}, { updatedAt: 1 }, { sort: { updatedAt: -1 } });
+
+        if (!latestProduct || !this.isCacheStale(cacheKey, latestProduct.updatedAt)) {
+          return cached;
+        }
+      }
+
+      const filter = await this.buildProductFilter(query);
+      let page: CursorPage;
+
+      if (sortBy === 'relevancia' && productSearch) {
+        // The score is computed, so the keyset applies after scoring. Best matches always come first.
+        const position = cursor ? decodeCursor(cursor, 'relevancia', -1) : null;
+        const [docs, total] = await Promise.all([
+          Product.aggregate([
+            { $match: filter },
+            { $addFields: { relevancia: productSearch.score } },
+            ...(position ? [{ $match: buildKeysetFilter('relevancia', -1, position) }] : []),
+            { $sort: keysetSort('relevancia', -1) },
+            { $limit: limit + 1 },
+            HIDE_INTERNAL_FIELDS
+          ]),
+          includeTotal ? Product.countDocuments(filter) : Promise.resolve(undefined)
+        ]);
+
+        page = toCursorPage(docs, limit, 'relevancia', -1, total);
+        page.items = await Product.populate(page.items, PRODUCT_RELATIONS);
+      } else {
+        const sortField = sortBy === 'relevancia' ? 'updatedAt' : sortBy;
+        page = await findCursorPage(Product, filter, sortField, direction, { cursor, limit, includeTotal }, productQuery =>
+          productQuery.populate(PRODUCT_RELATIONS)
+        );
+      }
+
+      page.items = page.items.map(withRelationNames);
+
+      await this.setCache(cacheKey, page, new Date());
+
+      return page;
+    } catch (error) {
+      console.error('Error fetching products page:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a page of products plus the counts per brand, category, supplier, specification value
+   * and price range of everything matching the query, for filter sidebars
+   */
+  async getFacetedProducts(query: ProductQuery = {}, options: FacetOptions = {}): Promise<FacetedProductsResult> {
+    const {
+      page = 1,
+      limit = 20,
+      sortOrder = 'desc'
+    } = query;
+    const { priceBoundaries, priceBuckets = 5 } = options;
+    if (priceBoundaries && (priceBoundaries.length < 2 || priceBoundaries.some((limit, i) => i > 0 && limit <= priceBoundaries[i - 1]))) {
+      throw new Error('Los límites de precio deben ser al menos dos valores en orden creciente');
+    }
+    const productSearch = query.search ? buildProductSearch(query.search) : null;
+    const sortBy = query.sortBy ?? (productSearch ? 'relevancia' : 'updatedAt');
+
+    const cacheKey = `products:facets:${Buffer.from(JSON.stringify({ query, options })).toString('base64')}`;
+
+    try {
+      const cached = await this.getCache(cacheKey);
+      if (cached) {
+        // Facet names come from the catalog, so any catalog change makes the cache stale too
+        const latest = await Promise.all([
+          Product.findOne({}, { updatedAt: 1 }, { sort: { updatedAt: -1 } }),
+          Brand.findOne({}, { updatedAt: 1 }, { sort: { updatedAt: -1 } }),
+          Category.findOne({}, { updatedAt: 1 }, { sort: { updatedAt: -1 } }),
+          Supplier.findOne({}, { updatedAt: 1 }, { sort: { updatedAt: -1 } }),
+          Especificacion.findOne({}, { updatedAt: 1 }, { sort: { updatedAt: -1 } })
+        ]);
+
+        const latestUpdate = new Date(Math.max(...latest.map(doc => doc?.updatedAt?.getTime() || 0)));
+
+        if (!this.isCacheStale(cacheKey, latestUpdate)) {
+          return cached;
+        }
+      }
+
+      const filter = await this.buildProductFilter(query);
+      const skip = (page - 1) * limit;
+
+      const productsPipeline: any[] = sortBy === 'relevancia' && productSearch
+        ? [
+          { $addFields: { relevancia: productSearch.score } },
+          { $sort: { relevancia: -1, nombre: 1, _id: 1 } }
+        ]
+        : [{ $sort: { [sortBy === 'relevancia' ? 'updatedAt' : sortBy]: sortOrder === 'asc' ? 1 : -1, _id: 1 } }];
+
+      const countBy = (field: string): any[] => [
+        { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+        { $sort: { count: -1, _id: 1 } }
+      ];
+
+      const [facetResult] = await Product.aggregate([
+        { $match: filter },
+        {
+          $facet: {
+            products: [
+              ...productsPipeline,
+              { $skip: skip },
+              { $limit: limit },
+              HIDE_INTERNAL_FIELDS
+            ],
+            total: [{ $count: 'count' }],
+            marcas: countBy('marcaId'),
+            categorias: countBy('categoriaId'),
+            proveedores: countBy('proveedorId'),
+            especificaciones: [
+              { $unwind: '$especificaciones' },
+              // Multiple-selection values count once per option
+              { $unwind: '$especificaciones.valor' },
+              {
+                $group: {
+                  _id: { especificacionId: '$especificaciones.especificacionId', valor: '$especificaciones.valor' },
+                  count: { $sum: 1 }
+                }
+              },
+              { $sort: { count: -1, '_id.valor': 1 } },
+              {
+                $group: {
+                  _id: '$_id.especificacionId',
+                  valores: { $push: { valor: '$_id.valor', count: '$count' } }
+                }
+              }
+            ],
+            precios: priceBoundaries
+              ? [{
+                $bucket: {
+                  groupBy: '$precio',
+                  boundaries: priceBoundaries,
+                  default: 'fuera',
+                  output: {
+                    count: { $sum: 1 },
+                    // The default bucket holds prices below the first boundary and above the last
+                    debajo: { $sum: { $cond: [{ $lt: ['$precio', priceBoundaries[0]] }, 1, 0] } }
+                  }
+                }
+              }]
+              : [{ $bucketAuto: { groupBy: '$precio', buckets: priceBuckets } }]
+          }
+        }
+      ]);
+
+      const products = await Product.populate(facetResult.products, PRODUCT_RELATIONS);
+
+      const transformedProducts = products.map(withRelationNames);
+
+      const [marcaNombres, categoriaNombres, proveedorNombres, especificacionNombres] = await Promise.all([
+        this.resolveNames(Brand, facetResult.marcas),
+        this.resolveNames(Category, facetResult.categorias),
+        this.resolveNames(Supplier, facetResult.proveedores),
+        this.resolveNames(Especificacion, facetResult.especificaciones)
+      ]);
+
+      const toFacetCounts = (groups: any[], nombres: Map<string, string>): FacetCount[] =>
+        groups
+          .filter(group => group._id !== null && group._id !== undefined)
+          .map(group => ({ id: String(group._id), nombre: nombres.get(String(group._id)), count: group.count }));
+
+      const precios: PriceBucket[] = facetResult.precios.flatMap((bucket: any): PriceBucket[] => {
+        if (bucket._id === 'fuera') {
+          const encima = bucket.count - bucket.debajo;
+          return [
+            ...(bucket.debajo > 0 ? [{ min: null, max: priceBoundaries![0], count: bucket.debajo }] : []),
+            ...(encima > 0 ? [{ min: priceBoundaries![priceBoundaries!.length - 1], max: null, count: encima }] : [])
+          ];
+        }
+        if (typeof bucket._id === 'object') {
+          return [{ min: bucket._id.min, max: bucket._id.max, count: bucket.count }];
+        }
+        const index = priceBoundaries!.indexOf(bucket._id);
+        return [{ min: bucket._id, max: priceBoundaries![index + 1], count: bucket.count }];
+      });
+      // The bucket below the first boundary goes first
+      precios.sort((a, b) => (a.min ?? -Infinity) - (b.min ?? -Infinity));
+
+      const total = facetResult.total[0]?.count || 0;
+      const totalPages = Math.ceil(total / limit);
+
+      const result: FacetedProductsResult = {
+        products: transformedProducts,
+        total,
+        page,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+        facets: {
+          marcas: toFacetCounts(facetResult.marcas, marcaNombres),
+          categorias: toFacetCounts(facetResult.categorias, categoriaNombres),
+          proveedores: toFacetCounts(facetResult.proveedores, proveedorNombres),
+          especificaciones: facetResult.especificaciones.map((group: any) => ({
+            especificacionId: String(group._id),
+            nombre: especificacionNombres.get(String(group._id)),
+            valores: group.valores
+          })),
+          precios
+        }
+      };
+
+      await this.setCache(cacheKey, result, new Date());
+
+      return result;
+    } catch (error) {
+      console.error('Error fetching faceted products:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map the ids of aggregation groups to the `nombre` of the matching documents
+   */
+  private async resolveNames(model: mongoose.Model<any>, groups: Array<{ _id: unknown }>): Promise<Map<string, string>> {
+    const ids = groups.map(group => String(group._id)).filter(id => mongoose.isValidObjectId(id));
+    if (ids.length === 0) return new Map();
+
+    const docs = await model.find({ _id: { $in: ids } }, { nombre: 1 }).lean();
+    return new Map((docs as any[]).map(doc => [String(doc._id), doc.nombre]));
+  }
+
+  /**
+   * Fetch a page of products matching the filter, ordered by a relevance score expression
+   */
+  private async findRankedProducts(
+    filter: Record<string, any>,
+    score: Record<string, any>,
+    skip: number,
+    limit: number
+  ): Promise<any[]> {
+    return Product.aggregate([
+      { $match: filter },
+      { $addFields: { relevancia: score } },
+      { $sort: { relevancia: -1, nombre: 1, _id: 1 } },
+      { $skip: skip },
+      { $limit: limit },
+      HIDE_INTERNAL_FIELDS
+    ]);
+  }
+
+  /**
+   * Build the MongoDB filter for the filtering fields of a ProductQuery
+   */
+  private async buildProductFilter(query: ProductQuery): Promise<any> {
+    const {
+      search,
+      categoryId,
+      includeDescendants,
+      brandId,
+      supplierId,
+      especificaciones,
+      activoEcommerce,
+      lowStock
+    } = query;
+    const filter: any = {};
+
+    if (search) {
+      const productSearch = buildProductSearch(search);
+      if (productSearch) {
+        Object.assign(filter, productSearch.match);
+      }
+    }
+
+    // Cast by hand: aggregation $match does not cast strings to ObjectId
+    if (categoryId) {
+      filter.categoriaId = includeDescendants
+        ? { $in: await getCategoryBranchIds(categoryId) }
+        : toObjectId(categoryId);
+    }
+    if (brandId) filter.marcaId = toObjectId(brandId);
+    if (supplierId) filter.proveedorId = toObjectId(supplierId);
+    if (especificaciones && especificaciones.length > 0) {
+      filter.$and = especificaciones.map(buildEspecificacionFilter);
+    }
+    if (typeof activoEcommerce === 'boolean') filter.activoEcommerce = activoEcommerce;
+    if (lowStock) {
+      filter.$expr = LOW_STOCK_EXPR;
+    }
+
+    return filter;
+  }
+
   /**
    * Get catalog data (categories, brands, suppliers) with caching
    */
@@ -237,7 +842,8 @@ export class ProductService extends BaseCacheService {
   }
 
   /**
-   * Get products with low stock
+   * Get products with low stock. Products with variants are reported once per low variant,
+   * with the variant under `variante`.
    */
   async getLowStockProducts(): Promise<any[]> {
     const cacheKey = 'products:low-stock';
@@ -252,19 +858,35 @@ export class ProductService extends BaseCacheService {
         }
       }
 
-      const products = await Product.find({
-        $expr: { $lte: ['$stock', '$umbralStockBajo'] }
-      })
+      const products = await Product.find({ $expr: LOW_STOCK_EXPR })
         .populate('marcaId', 'nombre')
         .populate('categoriaId', 'nombre')
-        .sort({ stock: 1 })
         .lean();
 
-      const transformedProducts = products.map(product => ({
-        ...product,
-        marcaNombre: (product.marcaId as any)?.nombre,
-        categoriaNombre: (product.categoriaId as any)?.nombre,
-      }));
+      const transformedProducts = products
+        .flatMap((product: any) => {
+          const row = {
+            ...product,
+            marcaNombre: (product.marcaId as any)?.nombre,
+            categoriaNombre: (product.categoriaId as any)?.nombre,
+          };
+
+          if (!product.variantes || product.variantes.length === 0) {
+            return [row];
+          }
+
+          return product.variantes
+            .map((variante: IProductVariante) => ({
+              ...variante,
+              umbralStockEfectivo: variante.umbralStockEfectivo ?? productThreshold(product)
+            }))
+            .filter((variante: IProductVariante & { umbralStockEfectivo: number }) =>
+              variante.activo !== false
+              && variante.umbralStockEfectivo >= 0
+              && variante.stock <= variante.umbralStockEfectivo)
+            .map((variante: IProductVariante) => ({ ...row, variante }));
+        })
+        .sort((a: any, b: any) => (a.variante?.stock ?? a.stock) - (b.variante?.stock ?? b.stock));
 
       // Cache with shorter TTL since stock changes frequently
       await this.setCache(cacheKey, transformedProducts, new Date());
@@ -277,47 +899,1002 @@ export class ProductService extends BaseCacheService {
   }
 
   /**
-   * Search products by text
+   * Change the price of a product and record it in the price history
    */
-  async searchProducts(searchTerm: string, limit: number = 20): Promise<any[]> {
-    if (!searchTerm.trim()) return [];
+  async updatePrice(productId: string, update: PriceUpdate): Promise<any> {
+    this.validatePriceUpdate(update);
 
-    const cacheKey = `products:search:${searchTerm.toLowerCase()}:${limit}`;
+    const session = await mongoose.startSession();
 
     try {
-      const cached = await this.getCache(cacheKey);
-      if (cached) {
-        const latestProduct = await Product.findOne({}, { updatedAt: 1 }, { sort: { updatedAt: -1 } });
+      let priceChange: any;
 
-        if (!latestProduct || !this.isCacheStale(cacheKey, latestProduct.updatedAt)) {
-          return cached;
-        }
-      }
+      await session.withTransaction(async () => {
+        const previous = await this.setProductPrice(productId, update, session);
+        const now = new Date();
 
-      const products = await Product.find({
-        $or: [
-          { nombre: { $regex: searchTerm, $options: 'i' } },
-          { codigoInterno: { $regex: searchTerm, $options: 'i' } },
-          { codigosBarras: { $in: [new RegExp(searchTerm, 'i')] } }
-        ]
-      })
-        .populate('marcaId', 'nombre')
-        .populate('categoriaId', 'nombre')
-        .limit(limit)
-        .lean();
+        const [created] = await PriceChange.create([{
+          productId,
+          previousPrice: previous.precio,
+          newPrice: update.precio,
+          previousIva: previous.iva,
+          newIva: update.iva ?? previous.iva,
+          reason: update.reason,
+          userId: update.userId,
+          status: 'applied',
+          effectiveDate: now,
+          appliedAt: now,
+        }], { session });
 
-      const transformedProducts = products.map(product => ({
-        ...product,
-        marcaNombre: (product.marcaId as any)?.nombre,
-        categoriaNombre: (product.categoriaId as any)?.nombre,
-      }));
+        priceChange = created.toObject();
+      });
 
-      // Cache search results with shorter TTL (10 minutes)
-      await this.setCache(cacheKey, transformedProducts, new Date());
+      return priceChange;
+    } catch (error) {
+      console.error('Error updating product price:', error);
+      throw error;
+    } finally {
+      await session.endSession();
+    }
+  }
 
-      return transformedProducts;
+  /**
+   * Schedule a price that becomes effective on a future date.
+   * Due changes are applied by applyScheduledPriceChanges() / startPriceScheduler().
+   */
+  async schedulePriceChange(productId: string, update: ScheduledPriceUpdate): Promise<any> {
+    this.validatePriceUpdate(update);
+
+    try {
+      const exists = await Product.exists({ _id: productId });
+      if (!exists) {
+        throw new Error(`Producto ${productId} no encontrado`);
+      }
+
+      const priceChange = await PriceChange.create({
+        productId,
+        newPrice: update.precio,
+        newIva: update.iva,
+        reason: update.reason,
+        userId: update.userId,
+        status: 'scheduled',
+        effectiveDate: update.effectiveDate,
+      });
+
+      return priceChange.toObject();
     } catch (error) {
-      console.error('Error searching products:', error);
+      console.error('Error scheduling price change:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a scheduled price change that has not been applied yet
+   */
+  async cancelScheduledPriceChange(priceChangeId: string): Promise<boolean> {
+    try {
+      const result = await PriceChange.updateOne(
+        { _id: priceChangeId, status: 'scheduled' },
+        { $set: { status: 'cancelled' } }
+      );
+      return result.modifiedCount > 0;
+    } catch (error) {
+      console.error('Error cancelling scheduled price change:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply every scheduled price change whose effective date has arrived.
+   * Returns the number of changes applied.
+   */
+  async applyScheduledPriceChanges(now: Date = new Date()): Promise<number> {
+    const dueChanges = await PriceChange.find({ status: 'scheduled', effectiveDate: { $lte: now } })
+      .sort({ effectiveDate: 1, _id: 1 })
+      .lean();
+
+    let applied = 0;
+
+    for (const change of dueChanges as any[]) {
+      const session = await mongoose.startSession();
+
+      try {
+        let claimed = false;
+
+        await session.withTransaction(async () => {
+          // Claim the change first so concurrent runners never apply it twice
+          const claim = await PriceChange.updateOne(
+            { _id: change._id, status: 'scheduled' },
+            { $set: { status: 'applied', appliedAt: new Date() } },
+            { session }
+          );
+          claimed = claim.modifiedCount > 0;
+          if (!claimed) return;
+
+          const previous = await this.setProductPrice(
+            change.productId,
+            { precio: change.newPrice, iva: change.newIva },
+            session
+          );
+
+          await PriceChange.updateOne(
+            { _id: change._id },
+            {
+              $set: {
+                previousPrice: previous.precio,
+                previousIva: previous.iva,
+                newIva: change.newIva ?? previous.iva,
+              }
+            },
+            { session }
+          );
+        });
+
+        if (claimed) applied++;
+      } catch (error) {
+        console.error(`Error applying scheduled price change ${change._id}:`, error);
+      } finally {
+        await session.endSession();
+      }
+    }
+
+    return applied;
+  }
+
+  /**
+   * Periodically apply due scheduled price changes. Returns a function that stops the scheduler.
+   */
+  startPriceScheduler(intervalMs: number = 60000): () => void {
+    const timer = setInterval(() => {
+      this.applyScheduledPriceChanges().catch(error => {
+        console.error('Error running price scheduler:', error);
+      });
+    }, intervalMs);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Get the price history of a product, newest first, including scheduled changes
+   */
+  async getPriceHistory(productId: string): Promise<any[]> {
+    try {
+      return await PriceChange.find({ productId })
+        .sort({ effectiveDate: -1, _id: -1 })
+        .lean();
+    } catch (error) {
+      console.error('Error fetching price history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the price a product had at a given date
+   */
+  async getPriceAtDate(productId: string, date: Date): Promise<PriceAtDate | null> {
+    try {
+      const [before, after] = await Promise.all([
+        PriceChange.findOne({ productId, status: 'applied', appliedAt: { $lte: date } })
+          .sort({ appliedAt: -1, _id: -1 })
+          .lean(),
+        PriceChange.findOne({ productId, status: 'applied', appliedAt: { $gt: date } })
+          .sort({ appliedAt: 1, _id: 1 })
+          .lean()
+      ]) as [any, any];
+
+      if (before) {
+        return { precio: before.newPrice, iva: before.newIva };
+      }
+      if (after) {
+        return { precio: after.previousPrice, iva: after.previousIva };
+      }
+
+      // No recorded changes: the price has not changed since the product was created
+      const product: any = await Product.findById(productId, { precio: 1, iva: 1 }).lean();
+      return product ? { precio: product.precio, iva: product.iva } : null;
+    } catch (error) {
+      console.error('Error fetching price at date:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Compare the unit prices of a sales note with the list prices in effect on its date
+   */
+  async auditSalesNotePrices(salesNoteId: string): Promise<SalesNotePriceAuditItem[]> {
+    try {
+      const salesNote: any = await SalesNote.findById(salesNoteId).lean();
+      if (!salesNote) {
+        throw new Error(`Nota de venta ${salesNoteId} no encontrada`);
+      }
+
+      const items = salesNote.items.filter((item: any) => item.productId);
+
+      return await Promise.all(items.map(async (item: any) => {
+        const price = await this.getPriceAtDate(item.productId, salesNote.fecha);
+        return {
+          itemId: item._id.toString(),
+          productId: item.productId,
+          description: item.description,
+          unitPrice: item.unitPrice,
+          listPrice: price ? price.precio : null,
+          difference: price ? item.unitPrice - price.precio : null,
+        };
+      }));
+    } catch (error) {
+      console.error('Error auditing sales note prices:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reprice every product matching a ProductQuery filter. With `dryRun` nothing is written and
+   * the result previews old and new prices. Changes are applied in batches, each in a transaction
+   * together with its price history records, and the product cache is invalidated once, even
+   * when a batch fails after others committed.
+   */
+  async bulkUpdatePrices(
+    query: ProductQuery,
+    rule: PriceRule,
+    options: BulkPriceUpdateOptions = {}
+  ): Promise<BulkPriceUpdateResult> {
+    const { dryRun = false, batchSize = 200, userId, reason } = options;
+    this.validatePriceRule(rule);
+
+    const result: BulkPriceUpdateResult = { dryRun, matched: 0, changed: 0, changes: [] };
+
+    try {
+      const filter = await this.buildProductFilter(query);
+
+      if (dryRun) {
+        const cursor = Product.find(filter, { nombre: 1, codigoInterno: 1, precio: 1 }).lean().cursor();
+        for await (const product of cursor) {
+          result.matched++;
+          const precioNuevo = applyPriceRule(product.precio, rule);
+          if (precioNuevo !== product.precio) {
+            result.changed++;
+            result.changes.push(toBulkPriceChange(product, precioNuevo));
+          }
+        }
+        return result;
+      }
+
+      const ids = (await Product.find(filter, { _id: 1 }).lean()).map((p: any) => p._id);
+      result.matched = ids.length;
+
+      try {
+        for (let i = 0; i < ids.length; i += batchSize) {
+          const batchIds = ids.slice(i, i + batchSize);
+          const session = await mongoose.startSession();
+
+          try {
+            let batchChanges: BulkPriceChange[] = [];
+
+            await session.withTransaction(async () => {
+              // Prices are read inside the transaction so concurrent edits are not overwritten
+              const products = await Product.find(
+                { _id: { $in: batchIds } },
+                { nombre: 1, codigoInterno: 1, precio: 1, iva: 1 }
+              ).session(session).lean();
+
+              const now = new Date();
+              const updates: any[] = [];
+              const records: any[] = [];
+              batchChanges = [];
+
+              for (const product of products as any[]) {
+                const precioNuevo = applyPriceRule(product.precio, rule);
+                if (precioNuevo === product.precio) continue;
+
+                updates.push({
+                  updateOne: { filter: { _id: product._id }, update: { $set: { precio: precioNuevo } } }
+                });
+                records.push({
+                  productId: product._id.toString(),
+                  previousPrice: product.precio,
+                  newPrice: precioNuevo,
+                  previousIva: product.iva,
+                  newIva: product.iva,
+                  reason,
+                  userId,
+                  status: 'applied',
+                  effectiveDate: now,
+                  appliedAt: now,
+                });
+                batchChanges.push(toBulkPriceChange(product, precioNuevo));
+              }
+
+              if (updates.length > 0) {
+                await Product.bulkWrite(updates, { session });
+                await PriceChange.insertMany(records, { session });
+              }
+            });
+
+            result.changed += batchChanges.length;
+            result.changes.push(...batchChanges);
+          } finally {
+            await session.endSession();
+          }
+        }
+      } finally {
+        // bulkWrite does not run the model hooks, so invalidate once for the whole operation,
+        // also when a later batch failed after earlier ones committed
+        if (result.changed > 0) {
+          await this.invalidateProductCache();
+        }
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Error updating prices in bulk:', error);
+      throw error;
+    }
+  }
+
+  private validatePriceRule(rule: PriceRule): void {
+    const { percentage, amount, roundTo, minPrice, maxPrice } = rule;
+    if (percentage === undefined && amount === undefined) {
+      throw new Error('La regla de precios debe indicar un porcentaje o un monto');
+    }
+    if ((percentage !== undefined && !Number.isFinite(percentage)) || (amount !== undefined && !Number.isFinite(amount))) {
+      throw new Error('El porcentaje y el monto deben ser números');
+    }
+    if (roundTo !== undefined && (!Number.isFinite(roundTo) || roundTo <= 0)) {
+      throw new Error('El redondeo debe ser un número mayor a cero');
+    }
+    if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+      throw new Error('El precio mínimo no puede superar al máximo');
+    }
+  }
+
+  private validatePriceUpdate(update: PriceUpdate): void {
+    if (!Number.isFinite(update.precio) || update.precio < 0) {
+      throw new Error('El precio debe ser un número mayor o igual a cero');
+    }
+    if (update.iva !== undefined && (!Number.isFinite(update.iva) || update.iva < 0 || update.iva > 100)) {
+      throw new Error('El IVA debe estar entre 0 y 100');
+    }
+  }
+
+  /**
+   * Set the price of a product and return the document as it was before the update
+   */
+  private async setProductPrice(
+    productId: string,
+    update: { precio: number; iva?: number },
+    session: mongoose.ClientSession
+  ): Promise<any> {
+    const $set: any = { precio: update.precio };
+    if (update.iva !== undefined && update.iva !== null) {
+      $set.iva = update.iva;
+    }
+
+    // The callers record the change with its details
+    const previous = await Product.findOneAndUpdate(
+      { _id: productId },
+      { $set },
+      { new: false, session, runValidators: true, cambioPrecio: false }
+    ).lean();
+
+    if (!previous) {
+      throw new Error(`Producto ${productId} no encontrado`);
+    }
+
+    return previous;
+  }
+
+  /**
+   * Set what a supplier charges for a product (creates the entry or updates it)
+   */
+  async setSupplierCost(productId: string, input: SupplierCostInput): Promise<any> {
+    try {
+      return await setSupplierCost(productId, input);
+    } catch (error) {
+      console.error('Error setting supplier cost:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a supplier's cost entry for a product
+   */
+  async removeSupplierCost(productId: string, proveedorId: string): Promise<boolean> {
+    try {
+      const result = await SupplierCost.deleteOne({ productId, proveedorId });
+      return result.deletedCount > 0;
+    } catch (error) {
+      console.error('Error removing supplier cost:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Every supplier's cost of a product, cheapest first, with the margin against its price.
+   * Costs in other currencies are compared through `tiposCambio`.
+   */
+  async getSupplierCosts(productId: string, options: CostComparisonOptions = {}): Promise<ProductCostComparison> {
+    try {
+      return await getProductSupplierCosts(productId, options);
+    } catch (error) {
+      console.error('Error fetching supplier costs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A supplier's price list: its cost of each product, the margin and whether it is the cheapest
+   */
+  async getSupplierPriceList(proveedorId: string, options: CostComparisonOptions = {}): Promise<SupplierPriceListItem[]> {
+    try {
+      return await getSupplierPriceList(proveedorId, options);
+    } catch (error) {
+      console.error('Error fetching supplier price list:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Read a supplier's CSV price list and match its rows to products, without saving anything.
+   * Review the rows that are not 'ok' and pass the preview to applyPriceList().
+   */
+  async previewPriceList(csv: string, options: PriceListImportOptions): Promise<PriceListPreview> {
+    const { proveedorId, precio: rule, tiposCambio } = options;
+    if (rule) this.validatePriceRule(rule);
+
+    try {
+      const supplier = mongoose.isValidObjectId(proveedorId) ? await Supplier.exists({ _id: proveedorId }) : null;
+      if (!supplier) {
+        throw new Error(`Proveedor no encontrado: ${proveedorId}`);
+      }
+
+      const filas = await matchPriceList(parsePriceList(csv, options), proveedorId);
+
+      for (const fila of filas) {
+        if (fila.status !== 'ok') continue;
+
+        if (rule) {
+          const costoBase = toBaseCurrency(fila.costo!, fila.moneda, tiposCambio);
+          if (costoBase === null) {
+            fila.status = 'invalido';
+            fila.mensaje = `Falta el tipo de cambio de ${fila.moneda} para calcular el precio`;
+            continue;
+          }
+          fila.precioNuevo = applyPriceRule(costoBase, rule);
+        }
+
+        const sinCambios = fila.costo === fila.costoAnterior
+          && fila.moneda === fila.monedaAnterior
+          && (!fila.codigoProveedor || fila.codigoProveedor === fila.codigoProveedorAnterior)
+          && (fila.precioNuevo === undefined || fila.precioNuevo === fila.precioAnterior);
+        if (sinCambios) {
+          fila.status = 'sin-cambios';
+        }
+      }
+
+      return { proveedorId, filas, resumen: summarizePriceList(filas) };
+    } catch (error) {
+      console.error('Error previewing price list:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save the costs, and sale prices when the preview computed them, of the preview's 'ok' rows.
+   * Price changes are recorded in the price history. Batches commit one by one, and the product
+   * cache is invalidated even when a batch fails after others committed.
+   */
+  async applyPriceList(preview: PriceListPreview, options: PriceListApplyOptions = {}): Promise<PriceListApplyResult> {
+    const { batchSize = 200, userId, reason = 'Lista de precios de proveedor' } = options;
+    const filas = preview.filas.filter(fila => fila.status === 'ok' && fila.productId);
+    const proveedorId = new mongoose.Types.ObjectId(preview.proveedorId);
+    const result: PriceListApplyResult = { costos: 0, precios: 0 };
+
+    try {
+      for (let i = 0; i < filas.length; i += batchSize) {
+        const batch = filas.slice(i, i + batchSize);
+        const session = await mongoose.startSession();
+
+        try {
+          let batchPrices = 0;
+
+          await session.withTransaction(async () => {
+            const now = new Date();
+            await SupplierCost.bulkWrite(batch.map(fila => ({
+              updateOne: {
+                filter: { productId: new mongoose.Types.ObjectId(fila.productId), proveedorId },
+                update: {
+                  $set: {
+                    costo: fila.costo,
+                    moneda: fila.moneda,
+                    actualizadoEn: now,
+                    ...(fila.codigoProveedor ? { codigoProveedor: fila.codigoProveedor } : {})
+                  }
+                },
+                upsert: true,
+              }
+            })), { session });
+
+            // Prices are read inside the transaction so the history records what was replaced
+            const priced = batch.filter(fila => fila.precioNuevo !== undefined);
+            const products = await Product.find(
+              { _id: { $in: priced.map(fila => fila.productId) } },
+              { precio: 1, iva: 1 }
+            ).session(session).lean() as any[];
+            const byId = new Map(products.map(product => [String(product._id), product]));
+
+            const updates: any[] = [];
+            const records: any[] = [];
+            for (const fila of priced) {
+              const product = byId.get(fila.productId!);
+              if (!product || product.precio === fila.precioNuevo) continue;
+
+              updates.push({
+                updateOne: { filter: { _id: product._id }, update: { $set: { precio: fila.precioNuevo } } }
+              });
+              records.push({
+                productId: product._id.toString(),
+                previousPrice: product.precio,
+                newPrice: fila.precioNuevo,
+                previousIva: product.iva,
+                newIva: product.iva,
+                reason,
+                userId,
+                status: 'applied',
+                effectiveDate: now,
+                appliedAt: now,
+              });
+            }
+
+            if (updates.length > 0) {
+              await Product.bulkWrite(updates, { session });
+              await PriceChange.insertMany(records, { session });
+            }
+            batchPrices = updates.length;
+          });
+
+          result.costos += batch.length;
+          result.precios += batchPrices;
+        } finally {
+          await session.endSession();
+        }
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Error applying price list:', error);
+      throw error;
+    } finally {
+      // bulkWrite does not run the model hooks, so invalidate once for the whole import, also
+      // when a later batch failed after earlier ones committed
+      if (result.precios > 0) {
+        await this.invalidateProductCache();
+      }
+    }
+  }
+
+  /**
+   * Get the effective low-stock threshold of a product and its variants, with the level each
+   * one was inherited from
+   */
+  async getEffectiveThreshold(productId: string): Promise<ProductThresholdInfo> {
+    try {
+      const product: any = await Product.findById(productId, {
+        umbralStockBajo: 1,
+        categoriaId: 1,
+        subcategoriaIds: 1,
+        especificaciones: 1,
+        variantes: 1
+      }).lean();
+
+      if (!product) {
+        throw new Error(`Producto ${productId} no encontrado`);
+      }
+
+      const thresholds = resolveProductThresholds(product, await loadThresholdSources([product]));
+
+      return {
+        productId,
+        umbral: thresholds.producto,
+        variantes: (product.variantes || []).map((variante: any, index: number) => ({
+          _id: variante._id.toString(),
+          especificacionId: variante.especificacionId,
+          valor: variante.valor,
+          ...thresholds.variantes[index]
+        }))
+      };
+    } catch (error) {
+      console.error('Error resolving effective threshold:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recompute stored effective thresholds for the matching products (all by default)
+   */
+  async recalculateEffectiveThresholds(filter: Record<string, any> = {}): Promise<number> {
+    try {
+      const updated = await recalculateEffectiveThresholds(filter);
+      if (updated > 0) {
+        await this.invalidateProductCache();
+      }
+      return updated;
+    } catch (error) {
+      console.error('Error recalculating effective thresholds:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Let products that still store the old default threshold (5) inherit theirs. Dry run unless
+   * `dryRun: false` is passed.
+   */
+  async migrateThresholdDefaults(options: ThresholdDefaultsMigrationOptions = {}): Promise<ThresholdDefaultsMigrationResult> {
+    try {
+      const result = await migrateThresholdDefaults(options);
+      if (!result.dryRun && result.cleared > 0) {
+        await this.invalidateProductCache();
+      }
+      return result;
+    } catch (error) {
+      console.error('Error migrating default thresholds:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Regenerate the names of matching products that have `autogenerarNombre` enabled
+   */
+  async regenerateProductNames(filter: Record<string, any> = {}): Promise<number> {
+    try {
+      const renamed = await regenerateProductNames(filter);
+      if (renamed > 0) {
+        await this.invalidateProductCache();
+      }
+      return renamed;
+    } catch (error) {
+      console.error('Error regenerating product names:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Report products pointing at missing brands, categories or suppliers, or at subcategories
+   * of another category. With `repair` the fixable ones are corrected.
+   */
+  async scanReferenceIntegrity(options: ReferenceScanOptions = {}): Promise<ReferenceScanReport> {
+    try {
+      const report = await scanProductReferences(options);
+      if (report.repaired > 0) {
+        await this.invalidateProductCache();
+      }
+      return report;
+    } catch (error) {
+      console.error('Error scanning product references:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Convert product references stored as strings to ObjectId (run once after upgrading)
+   */
+  async migrateReferenceIds(options: ReferenceIdMigrationOptions = {}): Promise<ReferenceIdMigrationResult> {
+    try {
+      const result = await migrateReferenceIds(options);
+      if (!result.dryRun && Object.values(result.converted).some(count => count > 0)) {
+        await this.invalidateProductCache();
+      }
+      return result;
+    } catch (error) {
+      console.error('Error migrating product reference ids:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Give every product without external barcodes an internal EAN-13.
+   * Returns the number of products that received one.
+   */
+  async assignInternalBarcodes(): Promise<number> {
+    try {
+      const products = await Product.find(
+        {
+          codigoBarrasInterno: { $exists: false },
+          $or: [{ codigosBarras: { $exists: false } }, { codigosBarras: { $size: 0 } }]
+        },
+        { _id: 1 }
+      ).lean();
+
+      let assigned = 0;
+      for (const product of products as any[]) {
+        const codigo = await generateInternalEan13();
+        const result = await Product.updateOne(
+          { _id: product._id, codigoBarrasInterno: { $exists: false } },
+          { $set: { codigoBarrasInterno: codigo } }
+        );
+        assigned += result.modifiedCount;
+      }
+
+      return assigned;
+    } catch (error) {
+      console.error('Error assigning internal barcodes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a product by its slug. Products found by a previous slug come with `redirect: true`,
+   * so storefronts can redirect to the current one.
+   */
+  async getProductBySlug(slug: string): Promise<SlugLookup<ProductWithRelations> | null> {
+    const cacheKey = `products:slug:${slug}`;
+
+    try {
+      const cached = await this.getCache(cacheKey);
+      if (cached) {
+        const latestProduct = await Product.findOne({}, { updatedAt: 1 }, { sort: { updatedAt: -1 } });
+
+        if (!latestProduct || !this.isCacheStale(cacheKey, latestProduct.updatedAt)) {
+          return cached;
+        }
+      }
+
+      const found = await findBySlug(Product, slug, query => query.populate(PRODUCT_RELATIONS));
+      if (!found) return null;
+
+      const result = { item: withRelationNames(found.item), redirect: found.redirect };
+
+      await this.setCache(cacheKey, result, new Date());
+
+      return result;
+    } catch (error) {
+      console.error('Error finding product by slug:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate the slugs of products missing one (run once after upgrading), or of every product
+   * with `all`
+   */
+  async rebuildProductSlugs(options: SlugRebuildOptions = {}): Promise<number> {
+    try {
+      const updated = await rebuildSlugs('Product', product => product.nombre || product.codigoInterno, options);
+      if (updated > 0) {
+        await this.invalidateProductCache();
+      }
+      return updated;
+    } catch (error) {
+      console.error('Error rebuilding product slugs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the product a scanned barcode belongs to, whichever field holds the code
+   */
+  async findByBarcode(codigo: string): Promise<BarcodeLookupResult | null> {
+    const normalized = normalizeBarcode(codigo);
+    if (!normalized) return null;
+
+    const cacheKey = `products:barcode:${normalized}`;
+
+    try {
+      const cached = await this.getCache(cacheKey);
+      if (cached) {
+        const latestProduct = await Product.findOne({}, { updatedAt: 1 }, { sort: { updatedAt: -1 } });
+
+        if (!latestProduct || !this.isCacheStale(cacheKey, latestProduct.updatedAt)) {
+          return cached;
+        }
+      }
+
+      const product: any = await Product.findOne(productBarcodeFilter([normalized]))
+        .populate(PRODUCT_RELATIONS)
+        .lean();
+
+      if (!product) return null;
+
+      const result: BarcodeLookupResult = {
+        product: withRelationNames(product),
+        variante: (product.variantes || []).find(
+          (v: IProductVariante) => (v.codigosBarras || []).includes(normalized)
+        ),
+      };
+
+      await this.setCache(cacheKey, result, new Date());
+
+      return result;
+    } catch (error) {
+      console.error('Error finding product by barcode:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rebuild the barcode uniqueness index of existing products.
+   * Run once after upgrading and resolve the reported conflicts.
+   */
+  async rebuildBarcodeIndex(filter: Record<string, any> = {}): Promise<BarcodeIndexRebuildResult> {
+    try {
+      const result = await rebuildBarcodeIndex(filter);
+      if (result.updated > 0) {
+        await this.invalidateProductCache();
+      }
+      return result;
+    } catch (error) {
+      console.error('Error rebuilding barcode index:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move legacy `codigoBarras` values into `codigosBarras`, reporting the ones that conflict
+   */
+  async migrateLegacyBarcodes(options: LegacyBarcodeMigrationOptions = {}): Promise<LegacyBarcodeMigrationResult> {
+    try {
+      const result = await migrateLegacyBarcodes(options);
+      if (!result.dryRun && result.migrated > 0) {
+        await this.invalidateProductCache();
+      }
+      return result;
+    } catch (error) {
+      console.error('Error migrating legacy barcodes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rebuild the stored search fields. Run once after upgrading.
+   */
+  async rebuildSearchIndex(filter: Record<string, any> = {}): Promise<number> {
+    try {
+      const updated = await rebuildSearchIndex(filter);
+      if (updated > 0) {
+        await this.invalidateProductCache();
+      }
+      return updated;
+    } catch (error) {
+      console.error('Error rebuilding search index:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Search products by name, internal code or barcode, ignoring case and accents.
+   * Results are ordered by relevance; words match as prefixes, for as-you-type search.
+   */
+  async searchProducts(searchTerm: string, limit: number = 20): Promise<ProductWithRelations[]> {
+    if (!searchTerm.trim()) return [];
+
+    const cacheKey = `products:search:${searchTerm.toLowerCase()}:${limit}`;
+
+    try {
+      const cached = await this.getCache(cacheKey);
+      if (cached) {
+        const latestProduct = await Product.findOne({}, { updatedAt: 1 }, { sort: { updatedAt: -1 } });
+
+        if (!latestProduct || !this.isCacheStale(cacheKey, latestProduct.updatedAt)) {
+          return cached;
+        }
+      }
+
+      const productSearch = buildProductSearch(searchTerm);
+      if (!productSearch) return [];
+
+      const products = await Product.populate(
+        await this.findRankedProducts(productSearch.match, productSearch.score, 0, limit),
+        PRODUCT_RELATIONS
+      );
+
+      const transformedProducts = products.map(withRelationNames);
+
+      // Cache search results with shorter TTL (10 minutes)
+      await this.setCache(cacheKey, transformedProducts, new Date());
+
+      return transformedProducts;
+    } catch (error) {
+      console.error('Error searching products:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Atomically adjust product stock and record the movement in the same transaction
+   */
+  async adjustStock(productId: string, adjustment: StockAdjustment): Promise<StockAdjustmentResult> {
+    const { quantity } = adjustment;
+
+    if (!Number.isFinite(quantity) || quantity === 0) {
+      throw new Error('La cantidad a ajustar debe ser un número distinto de cero');
+    }
+
+    const session = await mongoose.startSession();
+
+    try {
+      let result: StockAdjustmentResult | undefined;
+
+      await session.withTransaction(async () => {
+        result = await applyStockMovement(productId, adjustment, session);
+      });
+
+      return result as StockAdjustmentResult;
+    } catch (error) {
+      console.error('Error adjusting stock:', error);
+      throw error;
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  /**
+   * Get the stock ledger (kardex) of a product, or of one of its variants, with running balance
+   */
+  async getKardex(productId: string, query: KardexQuery = {}): Promise<KardexResult> {
+    const { varianteId, startDate, endDate } = query;
+
+    try {
+      const filter: any = { productId, varianteId: varianteId ?? { $exists: false } };
+      if (startDate || endDate) {
+        filter.createdAt = {};
+        if (startDate) filter.createdAt.$gte = startDate;
+        if (endDate) filter.createdAt.$lte = endDate;
+      }
+
+      const movements = await StockMovement.find(filter)
+        .sort({ createdAt: 1, _id: 1 })
+        .lean();
+
+      // The opening balance is the stock snapshot taken right before the first movement of the
+      // period. With no movements in it, the balance held throughout: the last one before the
+      // period, else the one the first movement after it started from, else the current stock.
+      let openingBalance: number;
+      if (movements.length > 0) {
+        openingBalance = movements[0].previousStock;
+      } else {
+        const previous: any = startDate
+          ? await StockMovement.findOne({ ...filter, createdAt: { $lt: startDate } })
+            .sort({ createdAt: -1, _id: -1 })
+            .lean()
+          : null;
+        const next: any = !previous && endDate
+          ? await StockMovement.findOne({ ...filter, createdAt: { $gt: endDate } })
+            .sort({ createdAt: 1, _id: 1 })
+            .lean()
+          : null;
+        const product: any = previous || next ? null : await Product.findById(productId, { stock: 1, variantes: 1 }).lean();
+        const current = varianteId
+          ? product?.variantes?.find((v: any) => v._id.toString() === varianteId)?.stock
+          : product?.stock;
+        openingBalance = previous ? previous.newStock : next ? next.previousStock : current ?? 0;
+      }
+
+      let balance = openingBalance;
+      const entries: KardexEntry[] = movements.map((movement: any) => {
+        balance += movement.quantity;
+        return {
+          _id: movement._id.toString(),
+          date: movement.createdAt,
+          type: movement.type,
+          quantityIn: movement.quantity > 0 ? movement.quantity : 0,
+          quantityOut: movement.quantity < 0 ? -movement.quantity : 0,
+          balance,
+          reason: movement.reason,
+          userId: movement.userId,
+          referenceType: movement.referenceType,
+          referenceId: movement.referenceId,
+        };
+      });
+
+      return {
+        productId,
+        varianteId,
+        openingBalance,
+        closingBalance: balance,
+        entries
+      };
+    } catch (error) {
+      console.error('Error fetching kardex:', error);
       throw error;
     }
   }
@@ -330,7 +1907,10 @@ export class ProductService extends BaseCacheService {
       this.invalidateCache('products:all'),
       this.invalidateCache('products:low-stock'),
       this.clearCache('products:query:*'),
-      this.clearCache('products:search:*')
+      this.clearCache('products:search:*'),
+      this.clearCache('products:barcode:*'),
+      this.clearCache('products:slug:*'),
+      this.clearCache('products:facets:*')
     ]);
   }
 
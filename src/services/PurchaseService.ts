@@ -0,0 +1,166 @@
+import mongoose from 'mongoose';
+import { PurchaseOrder } from '../models/PurchaseOrder';
+import { PurchaseOrderStatus } from '../types';
+import { CursorPage, CursorPaginationOptions, findCursorPage } from '../utils/pagination';
+import {
+  PurchaseOrderInput,
+  PurchaseOrderItemInput,
+  PurchaseReceptionInput,
+  PurchaseReceptionResult,
+  cancelPurchaseOrder,
+  createPurchaseOrder,
+  receivePurchaseOrder,
+  sendPurchaseOrder,
+  updatePurchaseOrderItems
+} from '../utils/purchaseOrders';
+import { ReorderOptions, ReorderReport, getReorderSuggestions } from '../utils/reorder';
+import { BaseCacheService, CacheConfig, RedisConfig } from './BaseCache';
+
+export interface PurchaseOrderQuery extends CursorPaginationOptions {
+  proveedorId?: string;
+  status?: PurchaseOrderStatus | PurchaseOrderStatus[];
+  productId?: string; // Orders with an item for this product
+  startDate?: Date;
+  endDate?: Date;
+  sortBy?: 'fecha' | 'total' | 'createdAt';
+  sortOrder?: 'asc' | 'desc';
+}
+
+export class PurchaseService extends BaseCacheService {
+  constructor(config?: CacheConfig, redisConfig?: RedisConfig) {
+    super(config, redisConfig);
+  }
+
+  /**
+   * Get purchase orders matching the query with keyset pagination
+   */
+  async getPurchaseOrders(query: PurchaseOrderQuery = {}): Promise<CursorPage> {
+    const { proveedorId, status, productId, startDate, endDate, sortBy = 'fecha', sortOrder = 'desc' } = query;
+    const cacheKey = `purchases:page:${Buffer.from(JSON.stringify(query)).toString('base64')}`;
+
+    try {
+      const cached = await this.getCache(cacheKey);
+      if (cached) {
+        const latestOrder = await PurchaseOrder.findOne({}, { updatedAt: 1 }, { sort: { updatedAt: -1 } });
+
+        if (!latestOrder || !this.isCacheStale(cacheKey, latestOrder.updatedAt)) {
+          return cached;
+        }
+      }
+
+      const filter: any = {};
+      if (proveedorId) filter.proveedorId = proveedorId;
+      if (status) filter.status = Array.isArray(status) ? { $in: status } : status;
+      if (productId) filter['items.productId'] = productId;
+      if (startDate || endDate) {
+        filter.fecha = {};
+        if (startDate) filter.fecha.$gte = startDate;
+        if (endDate) filter.fecha.$lte = endDate;
+      }
+
+      const page = await findCursorPage(PurchaseOrder, filter, sortBy, sortOrder === 'asc' ? 1 : -1, query);
+
+      await this.setCache(cacheKey, page, new Date());
+
+      return page;
+    } catch (error) {
+      console.error('Error fetching purchase orders page:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a purchase order by ID or order number
+   */
+  async getPurchaseOrder(idOrNumber: string): Promise<any | null> {
+    try {
+      const filter = mongoose.isValidObjectId(idOrNumber) ? { _id: idOrNumber } : { numeroOrden: idOrNumber };
+      return await PurchaseOrder.findOne(filter)
+        .populate('proveedorId', 'nombre razonSocial')
+        .lean();
+    } catch (error) {
+      console.error('Error fetching purchase order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a draft purchase order
+   */
+  async createPurchaseOrder(input: PurchaseOrderInput): Promise<any> {
+    try {
+      return await createPurchaseOrder(input);
+    } catch (error) {
+      console.error('Error creating purchase order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the items of a draft purchase order
+   */
+  async updatePurchaseOrderItems(orderId: string, items: PurchaseOrderItemInput[]): Promise<any> {
+    try {
+      return await updatePurchaseOrderItems(orderId, items);
+    } catch (error) {
+      console.error('Error updating purchase order items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a draft purchase order as sent to the supplier
+   */
+  async sendPurchaseOrder(orderId: string, sentAt?: Date): Promise<any> {
+    try {
+      return await sendPurchaseOrder(orderId, sentAt);
+    } catch (error) {
+      console.error('Error sending purchase order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a purchase order that has received no goods
+   */
+  async cancelPurchaseOrder(orderId: string, motivo?: string): Promise<any> {
+    try {
+      return await cancelPurchaseOrder(orderId, motivo);
+    } catch (error) {
+      console.error('Error cancelling purchase order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Receive goods for a purchase order into stock and update the supplier's costs
+   */
+  async receivePurchaseOrder(orderId: string, input: PurchaseReceptionInput): Promise<PurchaseReceptionResult> {
+    try {
+      return await receivePurchaseOrder(orderId, input);
+    } catch (error) {
+      console.error('Error receiving purchase order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Suggest reorder quantities per supplier from the sales velocity of each product. Not cached:
+   * it depends on sales, stock and open purchase orders.
+   */
+  async getReorderSuggestions(options: ReorderOptions = {}): Promise<ReorderReport> {
+    try {
+      return await getReorderSuggestions(options);
+    } catch (error) {
+      console.error('Error computing reorder suggestions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Invalidate purchase-related caches
+   */
+  async invalidatePurchaseCache(): Promise<void> {
+    await this.clearCache('purchases:page:*');
+  }
+}
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { SalesNote } from '../models/SalesNote';
 import { ServiceRequest } from '../models/ServiceRequest';
 import { ISalesNote, IServiceRequest } from '../types';
+import { CursorPage, CursorPaginationOptions, findCursorPage } from '../utils/pagination';
+import { escapeRegex } from '../utils/search';
 import { BaseCacheService, CacheConfig, RedisConfig } from './BaseCache';
 
 export interface SalesQuery {
@@ -14,6 +16,19 @@ export interface SalesQuery {
   sortOrder?: 'asc' | 'desc';
 }
 
+export interface SalesNoteCursorQuery extends Omit<SalesQuery, 'page'>, CursorPaginationOptions {}
+
+export interface ServiceRequestQuery extends CursorPaginationOptions {
+  status?: IServiceRequest['status'];
+  priority?: IServiceRequest['priority'];
+  customerName?: string;
+  includeArchived?: boolean;
+  startDate?: Date;
+  endDate?: Date;
+  sortBy?: 'createdAt' | 'updatedAt';
+  sortOrder?: 'asc' | 'desc';
+}
+
 export interface SalesStats {
   totalSales: number;
   totalAmount: number;
@@ -71,6 +86,43 @@ export class SalesService extends BaseCacheService {
     }
   }
 
+  /**
+   * Get sales notes matching the query with keyset pagination
+   */
+  async getSalesNotes(query: SalesNoteCursorQuery = {}): Promise<CursorPage> {
+    const { startDate, endDate, customerName, customerDoc, sortBy = 'fecha', sortOrder = 'desc' } = query;
+    const cacheKey = `sales:page:${Buffer.from(JSON.stringify(query)).toString('base64')}`;
+
+    try {
+      const cached = await this.getCache(cacheKey);
+      if (cached) {
+        const latestSale = await SalesNote.findOne({}, { updatedAt: 1 }, { sort: { updatedAt: -1 } });
+
+        if (!latestSale || !this.isCacheStale(cacheKey, latestSale.updatedAt)) {
+          return cached;
+        }
+      }
+
+      const filter: any = {};
+      if (startDate || endDate) {
+        filter.fecha = {};
+        if (startDate) filter.fecha.$gte = startDate;
+        if (endDate) filter.fecha.$lte = endDate;
+      }
+      if (customerName) filter['cliente.nombre'] = { $regex: escapeRegex(customerName), $options: 'i' };
+      if (customerDoc) filter['cliente.numeroDocumento'] = customerDoc;
+
+      const page = await findCursorPage(SalesNote, filter, sortBy, sortOrder === 'asc' ? 1 : -1, query);
+
+      await this.setCache(cacheKey, page, new Date());
+
+      return page;
+    } catch (error) {
+      console.error('Error fetching sales notes page:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get sales statistics with caching
    */
@@ -275,13 +327,63 @@ export class SalesService extends BaseCacheService {
     }
   }
 
+  /**
+   * Get service requests matching the query with keyset pagination. Archived requests are
+   * excluded unless `includeArchived` is set.
+   */
+  async getServiceRequests(query: ServiceRequestQuery = {}): Promise<CursorPage> {
+    const {
+      status,
+      priority,
+      customerName,
+      includeArchived = false,
+      startDate,
+      endDate,
+      sortBy = 'createdAt',
+      sortOrder = 'desc'
+    } = query;
+    const cacheKey = `service:page:${Buffer.from(JSON.stringify(query)).toString('base64')}`;
+
+    try {
+      const cached = await this.getCache(cacheKey);
+      if (cached) {
+        const latestService = await ServiceRequest.findOne({}, { updatedAt: 1 }, { sort: { updatedAt: -1 } });
+
+        if (!latestService || !this.isCacheStale(cacheKey, latestService.updatedAt)) {
+          return cached;
+        }
+      }
+
+      const filter: any = {};
+      if (!includeArchived) filter.isArchived = false;
+      if (status) filter.status = status;
+      if (priority) filter.priority = priority;
+      if (customerName) filter.customerName = { $regex: escapeRegex(customerName), $options: 'i' };
+      if (startDate || endDate) {
+        filter.createdAt = {};
+        if (startDate) filter.createdAt.$gte = startDate;
+        if (endDate) filter.createdAt.$lte = endDate;
+      }
+
+      const page = await findCursorPage(ServiceRequest, filter, sortBy, sortOrder === 'asc' ? 1 : -1, query);
+
+      await this.setCache(cacheKey, page, new Date());
+
+      return page;
+    } catch (error) {
+      console.error('Error fetching service requests page:', error);
+      throw error;
+    }
+  }
+
   /**
    * Invalidate sales-related caches
    */
   async invalidateSalesCache(): Promise<void> {
     await Promise.all([
       this.invalidateCache('sales:stats'),
-      this.clearCache('sales:recent:*')
+      this.clearCache('sales:recent:*'),
+      this.clearCache('sales:page:*')
     ]);
   }
 
@@ -291,7 +393,8 @@ export class SalesService extends BaseCacheService {
   async invalidateServiceCache(): Promise<void> {
     await Promise.all([
       this.invalidateCache('service:stats'),
-      this.clearCache('service:recent:*')
+      this.clearCache('service:recent:*'),
+      this.clearCache('service:page:*')
     ]);
   }
 }
\ No newline at end of file
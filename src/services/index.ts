@@ -4,13 +4,52 @@ export type { CacheConfig, RedisConfig } from './BaseCache';
 
 // Export individual services
 export { ProductService } from './ProductService';
-export type { ProductQuery, ProductsResult, CatalogData } from './ProductService';
+export type {
+  ProductQuery,
+  ProductCursorQuery,
+  ProductsResult,
+  CatalogData,
+  StockAdjustment,
+  StockAdjustmentResult,
+  KardexQuery,
+  KardexEntry,
+  KardexResult,
+  ProductThresholdInfo,
+  PriceUpdate,
+  ScheduledPriceUpdate,
+  PriceAtDate,
+  SalesNotePriceAuditItem,
+  PriceRule,
+  BulkPriceUpdateOptions,
+  BulkPriceChange,
+  BulkPriceUpdateResult,
+  BarcodeLookupResult,
+  FacetCount,
+  EspecificacionFacet,
+  PriceBucket,
+  ProductFacets,
+  FacetOptions,
+  FacetedProductsResult,
+  PriceListImportOptions,
+  PriceListPreview,
+  PriceListApplyOptions,
+  PriceListApplyResult
+} from './ProductService';
 
 export { CatalogService } from './CatalogService';
-export type { CatalogFullData } from './CatalogService';
+export type { CatalogFullData, CategoryProductCount, EspecificacionTypeChange } from './CatalogService';
 
 export { SalesService } from './SalesService';
-export type { SalesQuery, SalesStats, ServiceStats } from './SalesService';
+export type {
+  SalesQuery,
+  SalesNoteCursorQuery,
+  ServiceRequestQuery,
+  SalesStats,
+  ServiceStats
+} from './SalesService';
+
+export { PurchaseService } from './PurchaseService';
+export type { PurchaseOrderQuery } from './PurchaseService';
 
 // Export cache manager
 export { CacheManager } from './CacheManager';
@@ -21,6 +60,7 @@ import { CacheManager } from './CacheManager';
 import { ProductService } from './ProductService';
 import { CatalogService } from './CatalogService';
 import { SalesService } from './SalesService';
+import { PurchaseService } from './PurchaseService';
 
 export const createCacheManager = (config?: any) => {
   return CacheManager.getInstance(config);
@@ -36,4 +76,8 @@ export const createCatalogService = (config?: any, redisConfig?: any) => {
 
 export const createSalesService = (config?: any, redisConfig?: any) => {
   return new SalesService(config, redisConfig);
+};
+
+export const createPurchaseService = (config?: any, redisConfig?: any) => {
+  return new PurchaseService(config, redisConfig);
 };
\ No newline at end of file
@@ -15,11 +15,15 @@ export interface IUser extends Document {
 // Brand Types
 export interface IBrand extends Document {
   nombre: string;
+  nombreNormalizado?: string;
+  slug?: string;
+  slugsAnteriores: string[];
   createdAt: Date;
   updatedAt: Date;
 }
 
 // Category Types
+/** @deprecated Use child categories (`parentId`); see migrateEmbeddedSubcategories() */
 export interface ISubcategory {
   nombre: string;
   umbralStockBajo?: number;
@@ -28,8 +32,15 @@ export interface ISubcategory {
 export interface ICategory extends Document {
   nombre: string;
   slug?: string;
+  slugsAnteriores: string[];
   umbralStockBajo?: number;
+  plantillaNombre?: string;
+  /** @deprecated Use child categories (`parentId`); see migrateEmbeddedSubcategories() */
   subcategorias: ISubcategory[];
+  parentId?: Types.ObjectId | null;
+  ancestros: Types.ObjectId[];
+  nivel: number;
+  ruta?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -47,8 +58,39 @@ export interface ICustomer extends Document {
 }
 
 // Supplier Types
+export interface ISupplierContacto {
+  nombre: string;
+  cargo?: string;
+  telefono?: string;
+  email?: string;
+}
+
 export interface ISupplier extends Document {
   nombre: string;
+  nombreNormalizado?: string;
+  razonSocial?: string;
+  cuit?: string;
+  condicionIva?: string;
+  direccion?: string;
+  telefono?: string;
+  email?: string;
+  contactos: ISupplierContacto[];
+  condicionPago?: string;
+  plazoPagoDias?: number;
+  plazoEntregaDias?: number;
+  notas?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// SupplierCost Types
+export interface ISupplierCost extends Document {
+  productId: Types.ObjectId;
+  proveedorId: Types.ObjectId;
+  codigoProveedor?: string;
+  costo: number;
+  moneda: string;
+  actualizadoEn: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -60,21 +102,43 @@ export interface IOpcionEspecificacion {
   tieneUmbral?: boolean;
 }
 
+// 'opcion' picks one of the opciones, 'multiple' any number of them
+export type TipoEspecificacion = 'texto' | 'numero' | 'booleano' | 'opcion' | 'multiple';
+
 export interface IEspecificacion extends Document {
   nombre: string;
   descripcion?: string;
+  tipo: TipoEspecificacion;
+  unidad?: string;
+  min?: number;
+  max?: number;
   opciones: IOpcionEspecificacion[];
   categoriaIds: string[];
   isActive: boolean;
+  valorLibre: boolean;
   umbralStockBajoGeneral: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
 // Product Types
+export type EspecificacionValor = string | number | boolean | string[];
+
 export interface IProductEspecificacion {
   especificacionId: string;
-  valor: string | number | boolean;
+  valor: EspecificacionValor; // Stored with the type of its Especificacion
+}
+
+export interface IProductVariante {
+  _id?: Types.ObjectId;
+  especificacionId: string;
+  valor: string;
+  stock: number;
+  codigosBarras: string[];
+  precio?: number;
+  umbralStockBajo?: number;
+  umbralStockEfectivo?: number;
+  activo: boolean;
 }
 
 export interface IProductImage {
@@ -91,26 +155,119 @@ export interface IProductImage {
 export interface IProduct extends Document {
   nombre: string;
   autogenerarNombre: boolean;
+  /** @deprecated Use codigosBarras / codigoBarraPrincipal */
   codigoBarras?: string;
   codigosBarras: string[];
+  codigoBarrasInterno?: string;
+  codigosBarrasTodos?: string[];
+  textoBusqueda?: string;
+  terminosBusqueda?: string[];
+  validarCodigosBarras: boolean;
   codigoInterno: string;
+  slug?: string;
+  slugsAnteriores: string[];
   codigoBarraPrincipal?: string;
-  marcaId: string;
+  marcaId: Types.ObjectId;
   precio: number;
   iva: number;
-  proveedorId: string;
-  categoriaId: string;
-  subcategoriaIds: string[];
+  proveedorId: Types.ObjectId;
+  categoriaId: Types.ObjectId;
+  /** @deprecated Use a child category as categoriaId; see migrateEmbeddedSubcategories() */
+  subcategoriaIds: Types.ObjectId[];
   especificaciones?: IProductEspecificacion[];
+  variantes?: IProductVariante[];
   imagenes?: IProductImage[];
   imagenPrincipal?: string;
   stock: number;
-  umbralStockBajo: number;
+  umbralStockBajo?: number | null;
+  umbralStockEfectivo: number;
   activoEcommerce: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface ProductRelation {
+  _id: Types.ObjectId;
+  nombre: string;
+  slug?: string;
+}
+
+// Lean product as returned by ProductService, with brand, category and supplier populated.
+// A relation is null when the referenced document no longer exists.
+export interface ProductWithRelations extends Omit<IProduct, keyof Document | 'marcaId' | 'categoriaId' | 'proveedorId'> {
+  _id: Types.ObjectId;
+  marcaId: ProductRelation | null;
+  categoriaId: ProductRelation | null;
+  proveedorId: ProductRelation | null;
+  marcaNombre?: string;
+  categoriaNombre?: string;
+  categoriaSlug?: string;
+  proveedorNombre?: string;
+  relevancia?: number;
+}
+
+// StockMovement Types
+export type StockMovementType = 'sale' | 'purchase' | 'adjustment' | 'return' | 'service-part' | 'transfer';
+
+export type StockReferenceType = 'SalesNote' | 'ServiceRequest' | 'PurchaseOrder';
+
+export interface IStockMovement extends Document {
+  productId: string;
+  varianteId?: string;
+  type: StockMovementType;
+  quantity: number;
+  previousStock: number;
+  newStock: number;
+  reason?: string;
+  userId?: string;
+  referenceType?: StockReferenceType;
+  referenceId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// PriceChange Types
+export type PriceChangeStatus = 'scheduled' | 'applied' | 'cancelled';
+
+export interface IPriceChange extends Document {
+  productId: string;
+  previousPrice?: number;
+  newPrice: number;
+  previousIva?: number;
+  newIva?: number;
+  reason?: string;
+  userId?: string;
+  status: PriceChangeStatus;
+  effectiveDate: Date;
+  appliedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// CatalogMerge Types
+export type MergeableEntity = 'Brand' | 'Supplier';
+
+export interface ICatalogMerge extends Document {
+  entity: MergeableEntity;
+  targetId: string;
+  targetName: string;
+  mergedIds: string[];
+  mergedNames: string[];
+  productCount: number;
+  reason?: string;
+  userId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Counter Types
+export interface ICounter extends Document {
+  key: string;
+  seq: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // QuickNote Types
 export interface IQuickNote extends Document {
   titulo: string;
@@ -132,6 +289,7 @@ export interface ISalesNoteItem {
 
 export interface ISalesNote extends Document {
   numeroComprobante: string;
+  puntoVenta?: number;
   fecha: Date;
   cliente: {
     nombre: string;
@@ -245,4 +403,67 @@ export interface IServiceRequest extends Document {
   totalPaid: number;
   remainingBalance: number;
   isFullyPaid: boolean;
+}
+
+// PurchaseOrder Types
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially-received' | 'received' | 'cancelled';
+
+export type PurchaseDiscrepancyType = 'faltante' | 'excedente' | 'costo' | 'no-pedido';
+
+export interface IPurchaseOrderItem {
+  _id: Types.ObjectId;
+  productId: Types.ObjectId;
+  varianteId?: string;
+  description: string;
+  codigoProveedor?: string;
+  quantity: number;
+  quantityReceived: number;
+  unitCost: number;
+  total: number;
+}
+
+export interface IPurchaseReceptionItem {
+  itemId?: Types.ObjectId; // Order item received; absent for goods that were not ordered
+  productId: Types.ObjectId;
+  varianteId?: string;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface IPurchaseDiscrepancy {
+  tipo: PurchaseDiscrepancyType;
+  itemId?: Types.ObjectId;
+  productId: Types.ObjectId;
+  esperado?: number; // Quantity or cost ordered
+  recibido?: number; // Quantity or cost received
+  nota?: string;
+}
+
+export interface IPurchaseReception {
+  _id: Types.ObjectId;
+  fecha: Date;
+  remito?: string; // Supplier's delivery note number
+  userId?: string;
+  items: IPurchaseReceptionItem[];
+  discrepancias: IPurchaseDiscrepancy[];
+  observaciones?: string;
+}
+
+export interface IPurchaseOrder extends Document {
+  numeroOrden: string;
+  proveedorId: Types.ObjectId;
+  status: PurchaseOrderStatus;
+  fecha: Date;
+  fechaEntregaEstimada?: Date;
+  moneda: string;
+  items: IPurchaseOrderItem[];
+  total: number;
+  recepciones: IPurchaseReception[];
+  observaciones?: string;
+  userId?: string;
+  sentAt?: Date;
+  receivedAt?: Date;
+  cancelledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
 }
\ No newline at end of file
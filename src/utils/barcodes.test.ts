@@ -0,0 +1,125 @@
+import mongoose from 'mongoose';
+import { buildEan13, isAcceptableBarcode, isValidGtin, migrateLegacyBarcodes, normalizeBarcode } from './barcodes';
+import { Product } from '../models/Product';
+
+describe('isValidGtin', () => {
+  it('accepts codes of every GTIN length with a correct check digit', () => {
+    expect(isValidGtin('96385074')).toBe(true); // EAN-8
+    expect(isValidGtin('036000291452')).toBe(true); // UPC-A
+    expect(isValidGtin('4006381333931')).toBe(true); // EAN-13
+    expect(isValidGtin('10012345000017')).toBe(true); // GTIN-14
+  });
+
+  it('rejects a wrong check digit', () => {
+    expect(isValidGtin('4006381333932')).toBe(false);
+    expect(isValidGtin('036000291450')).toBe(false);
+  });
+
+  it('rejects other lengths and non-digits', () => {
+    expect(isValidGtin('123456789')).toBe(false);
+    expect(isValidGtin('400638133393A')).toBe(false);
+    expect(isValidGtin('')).toBe(false);
+  });
+});
+
+describe('isAcceptableBarcode', () => {
+  it('only checks codes shaped like a GTIN', () => {
+    expect(isAcceptableBarcode('4006381333932')).toBe(false);
+    expect(isAcceptableBarcode('ABC-123')).toBe(true);
+    expect(isAcceptableBarcode('12345')).toBe(true);
+  });
+});
+
+describe('buildEan13', () => {
+  it('pads the item reference after the prefix and appends the check digit', () => {
+    expect(buildEan13('200', 1)).toBe('2000000000015');
+    expect(isValidGtin(buildEan13('200', 123456))).toBe(true);
+    expect(buildEan13('2991', 42)).toMatch(/^299100000042\d$/);
+  });
+
+  it('throws when the reference no longer fits', () => {
+    expect(() => buildEan13('200', 1_000_000_000)).toThrow('Se agotaron los códigos internos para el prefijo 200');
+  });
+});
+
+describe('normalizeBarcode', () => {
+  it('removes spaces and dashes and upper-cases letters', () => {
+    expect(normalizeBarcode(' 400-6381 333931 ')).toBe('4006381333931');
+    expect(normalizeBarcode('abc-12')).toBe('ABC12');
+  });
+
+  it('applies the leading zeros policy to numeric codes', () => {
+    expect(normalizeBarcode('0036000291452', 'keep')).toBe('0036000291452');
+    expect(normalizeBarcode('0036000291452', 'strip')).toBe('36000291452');
+    expect(normalizeBarcode('036000291452', 'ean13')).toBe('0036000291452');
+    expect(normalizeBarcode('0000', 'strip')).toBe('0');
+  });
+
+  it('leaves alphanumeric codes alone', () => {
+    expect(normalizeBarcode('00AB', 'strip')).toBe('00AB');
+  });
+});
+
+describe('migrateLegacyBarcodes', () => {
+  const id = () => new mongoose.Types.ObjectId();
+  const valid = { _id: id(), codigoBarras: '4006381333931' };
+  const taken = { _id: id(), codigoBarras: '5901234123457' };
+  const holder = { _id: id(), codigosBarras: ['5901234123457'] };
+  const wrongDigit = { _id: id(), codigoBarras: '4006381333932' };
+  const unchecked = { _id: id(), codigoBarras: '1234567890123', validarCodigosBarras: false };
+  const inVariant = { _id: id(), codigoBarras: '96385074', variantes: [{ codigosBarras: ['96385074'] }] };
+  const repeated = { _id: id(), codigoBarras: '4006-3813-33931' };
+  let bulkWrite: jest.SpyInstance;
+
+  // Products still carrying codigoBarras, then the products holding their codes
+  function legacyProducts(products: any[], holders: any[]) {
+    jest.spyOn(Product, 'find').mockImplementation(((filter: any) => filter.$or
+      ? { lean: async () => [...products, ...holders] }
+      : { lean: () => ({ cursor: () => products }) }) as any);
+  }
+
+  beforeEach(() => {
+    bulkWrite = jest.spyOn(Product, 'bulkWrite').mockImplementation((async (operations: any[]) =>
+      ({ modifiedCount: operations.length })) as any);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('moves valid codes to codigosBarras and reports the rest', async () => {
+    legacyProducts([valid, taken, wrongDigit, unchecked, inVariant, repeated], [holder]);
+
+    const result = await migrateLegacyBarcodes();
+
+    expect(result.migrated).toBe(2);
+    expect(bulkWrite.mock.calls[0][0].map((op: any) => op.updateOne.filter)).toEqual([
+      { _id: valid._id, codigoBarras: valid.codigoBarras },
+      { _id: unchecked._id, codigoBarras: unchecked.codigoBarras }
+    ]);
+    expect(result.conflicts).toEqual([
+      { productId: String(taken._id), codigo: '5901234123457', motivo: 'duplicado', conflictingProductId: String(holder._id) },
+      { productId: String(wrongDigit._id), codigo: '4006381333932', motivo: 'digito-verificador', conflictingProductId: undefined },
+      { productId: String(inVariant._id), codigo: '96385074', motivo: 'variante', conflictingProductId: undefined },
+      { productId: String(repeated._id), codigo: '4006381333931', motivo: 'duplicado', conflictingProductId: String(valid._id) }
+    ]);
+  });
+
+  it('only counts what it would migrate on a dry run', async () => {
+    legacyProducts([valid], []);
+
+    await expect(migrateLegacyBarcodes({ dryRun: true })).resolves.toEqual({ dryRun: true, migrated: 1, conflicts: [] });
+    expect(bulkWrite).not.toHaveBeenCalled();
+  });
+
+  it('reports codes a concurrent write claimed as duplicates', async () => {
+    legacyProducts([valid, unchecked], []);
+    bulkWrite.mockRejectedValueOnce(Object.assign(new Error('E11000'), {
+      writeErrors: [{ index: 1, code: 11000 }],
+      result: { modifiedCount: 1 }
+    }));
+
+    const result = await migrateLegacyBarcodes();
+
+    expect(result.migrated).toBe(1);
+    expect(result.conflicts).toEqual([{ productId: String(unchecked._id), codigo: '1234567890123', motivo: 'duplicado' }]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,408 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { nextSequenceValue } from './counters';
+
+export type BarcodeType = 'EAN-8' | 'UPC-A' | 'EAN-13' | 'GTIN-14';
+
+export interface BarcodeConfig {
+  companyPrefix: string; // Prefix of internal EAN-13 codes (GS1 reserves 200-299 for in-store use)
+  validateChecksum: boolean; // Reject GTIN-looking codes with a wrong check digit
+  leadingZeros: 'keep' | 'strip' | 'ean13'; // 'ean13' pads 12-digit UPC-A codes to 13 digits
+  autoGenerateInternal: boolean; // Give new products without external barcodes an internal EAN-13
+  legacyCodigoBarras: boolean; // Keep exposing the main code as `codigoBarras` to legacy readers
+}
+
+const barcodeConfig: BarcodeConfig = {
+  companyPrefix: '200',
+  validateChecksum: true,
+  leadingZeros: 'keep',
+  autoGenerateInternal: true,
+  legacyCodigoBarras: true,
+};
+
+const GTIN_TYPES: Record<number, BarcodeType> = {
+  8: 'EAN-8',
+  12: 'UPC-A',
+  13: 'EAN-13',
+  14: 'GTIN-14',
+};
+
+export function configureBarcodes(config: Partial<BarcodeConfig>): void {
+  if (config.companyPrefix !== undefined && !/^\d{2,11}$/.test(config.companyPrefix)) {
+    throw new Error('El prefijo de empresa debe tener entre 2 y 11 dígitos');
+  }
+  Object.assign(barcodeConfig, config);
+}
+
+export function getBarcodeConfig(): BarcodeConfig {
+  return { ...barcodeConfig };
+}
+
+/**
+ * Remove spaces and dashes and apply the configured leading-zeros policy
+ */
+export function normalizeBarcode(code: string, leadingZeros: BarcodeConfig['leadingZeros'] = barcodeConfig.leadingZeros): string {
+  let normalized = String(code).replace(/[\s-]+/g, '').toUpperCase();
+
+  if (/^\d+$/.test(normalized)) {
+    if (leadingZeros === 'strip') {
+      normalized = normalized.replace(/^0+(?=\d)/, '');
+    } else if (leadingZeros === 'ean13' && normalized.length === 12) {
+      normalized = `0${normalized}`;
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * GS1 mod-10 check digit for the given digits (without the check digit)
+ */
+export function computeGtinCheckDigit(body: string): number {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+export function getBarcodeType(code: string): BarcodeType | null {
+  if (!/^\d+$/.test(code)) return null;
+  return GTIN_TYPES[code.length] || null;
+}
+
+export function isValidGtin(code: string): boolean {
+  if (!getBarcodeType(code)) return false;
+  return computeGtinCheckDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+}
+
+/**
+ * Whether a code passes checksum validation. Only codes shaped like a GTIN are checked;
+ * alphanumeric codes and other lengths are accepted as they are.
+ */
+export function isAcceptableBarcode(code: string): boolean {
+  if (!barcodeConfig.validateChecksum) return true;
+  return getBarcodeType(code) ? isValidGtin(code) : true;
+}
+
+export function buildEan13(companyPrefix: string, itemReference: number): string {
+  const referenceDigits = 12 - companyPrefix.length;
+  const reference = itemReference.toString();
+
+  if (reference.length > referenceDigits) {
+    throw new Error(`Se agotaron los códigos internos para el prefijo ${companyPrefix}`);
+  }
+
+  const body = `${companyPrefix}${reference.padStart(referenceDigits, '0')}`;
+  return `${body}${computeGtinCheckDigit(body)}`;
+}
+
+/**
+ * Issue the next internal EAN-13 under the configured company prefix
+ */
+export async function generateInternalEan13(session?: ClientSession | null): Promise<string> {
+  const { companyPrefix } = barcodeConfig;
+  const itemReference = await nextSequenceValue(`ean13:${companyPrefix}`, { session });
+  return buildEan13(companyPrefix, itemReference);
+}
+
+interface BarcodeHolder {
+  codigosBarras?: string[];
+  codigoBarras?: string;
+  codigoBarrasInterno?: string;
+  variantes?: Array<{ codigosBarras?: string[] }>;
+}
+
+/**
+ * Every code a product answers to: its external codes, the legacy `codigoBarras`,
+ * the internal EAN-13 and the codes of its variants
+ */
+export function collectProductBarcodes(product: BarcodeHolder): string[] {
+  return [...new Set([
+    ...(product.codigosBarras || []),
+    product.codigoBarras,
+    product.codigoBarrasInterno,
+    ...(product.variantes || []).flatMap(v => v.codigosBarras || [])
+  ].filter((codigo): codigo is string => typeof codigo === 'string' && codigo !== ''))];
+}
+
+// Fields read by collectProductBarcodes, to project them in lookups
+export const PRODUCT_BARCODE_FIELDS = {
+  codigosBarras: 1,
+  codigoBarras: 1,
+  codigoBarrasInterno: 1,
+  'variantes.codigosBarras': 1
+};
+
+/**
+ * Filter for the products answering to any of the given codes. Besides the `codigosBarrasTodos`
+ * index it checks the fields the index is built from, so products saved before
+ * `rebuildBarcodeIndex` ran are found as well.
+ */
+export function productBarcodeFilter(codigos: string[]): Record<string, any> {
+  return {
+    $or: ['codigosBarrasTodos', ...Object.keys(PRODUCT_BARCODE_FIELDS)].map(field => ({ [field]: { $in: codigos } }))
+  };
+}
+
+const optionalCode = (field: string) => ({ $cond: [{ $gt: [field, ''] }, [field], []] });
+
+const ALL_BARCODES_EXPR = {
+  $setUnion: [
+    { $ifNull: ['$codigosBarras', []] },
+    optionalCode('$codigoBarras'),
+    optionalCode('$codigoBarrasInterno'),
+    {
+      $reduce: {
+        input: { $ifNull: ['$variantes', []] },
+        initialValue: [],
+        in: { $setUnion: ['$$value', { $ifNull: ['$$this.codigosBarras', []] }] }
+      }
+    }
+  ]
+};
+
+/**
+ * Update-pipeline expression computing `collectProductBarcodes` on the server.
+ * Products without codes get the field removed so the sparse unique index skips them.
+ */
+export const PRODUCT_BARCODES_EXPR = {
+  $cond: [{ $gt: [{ $size: ALL_BARCODES_EXPR }, 0] }, ALL_BARCODES_EXPR, '$$REMOVE']
+};
+
+export interface BarcodeIndexConflict {
+  productId: string;
+  codigo: string;
+  conflictingProductIds: string[];
+}
+
+export interface BarcodeIndexRebuildResult {
+  updated: number;
+  conflicts: BarcodeIndexConflict[];
+}
+
+/**
+ * Recompute `codigosBarrasTodos` for the products matching the filter. Run it once over the
+ * whole collection after upgrading. Products whose codes are already held by another product
+ * are left unchanged and reported as conflicts to be resolved by hand.
+ */
+export async function rebuildBarcodeIndex(
+  filter: Record<string, any> = {},
+  batchSize: number = 500
+): Promise<BarcodeIndexRebuildResult> {
+  const Product = mongoose.models.Product;
+  const result: BarcodeIndexRebuildResult = { updated: 0, conflicts: [] };
+  let batch: any[] = [];
+
+  const flush = async () => {
+    const operations = batch.map(product => {
+      const codigos = collectProductBarcodes(product);
+      return {
+        updateOne: {
+          filter: { _id: product._id },
+          update: codigos.length > 0
+            ? { $set: { codigosBarrasTodos: codigos } }
+            : { $unset: { codigosBarrasTodos: 1 } }
+        }
+      };
+    });
+
+    let failed: number[] = [];
+    try {
+      const bulkResult = await Product.bulkWrite(operations, { ordered: false });
+      result.updated += bulkResult.modifiedCount;
+    } catch (error: any) {
+      const writeErrors: any[] = error?.writeErrors || [];
+      if (writeErrors.length === 0 || writeErrors.some(writeError => writeError.code !== 11000)) {
+        throw error;
+      }
+      result.updated += error.result?.modifiedCount ?? 0;
+      failed = writeErrors.map(writeError => writeError.index);
+    }
+
+    for (const index of failed) {
+      const product = batch[index];
+      const codigos = collectProductBarcodes(product);
+      const holders = await Product.find(
+        { _id: { $ne: product._id }, codigosBarrasTodos: { $in: codigos } },
+        { codigosBarrasTodos: 1 }
+      ).lean();
+
+      for (const codigo of codigos) {
+        const conflictingProductIds = (holders as any[])
+          .filter(holder => (holder.codigosBarrasTodos || []).includes(codigo))
+          .map(holder => String(holder._id));
+        if (conflictingProductIds.length > 0) {
+          result.conflicts.push({ productId: String(product._id), codigo, conflictingProductIds });
+        }
+      }
+    }
+    batch = [];
+  };
+
+  const cursor = Product.find(filter, {
+    codigosBarras: 1,
+    codigoBarras: 1,
+    codigoBarrasInterno: 1,
+    'variantes.codigosBarras': 1
+  }).lean().cursor();
+
+  for await (const product of cursor) {
+    batch.push(product);
+    if (batch.length >= batchSize) {
+      await flush();
+    }
+  }
+  if (batch.length > 0) {
+    await flush();
+  }
+
+  return result;
+}
+
+export type LegacyBarcodeConflictReason = 'duplicado' | 'variante' | 'digito-verificador';
+
+export interface LegacyBarcodeConflict {
+  productId: string;
+  codigo: string;
+  motivo: LegacyBarcodeConflictReason;
+  conflictingProductId?: string;
+}
+
+export interface LegacyBarcodeMigrationOptions {
+  dryRun?: boolean;
+  batchSize?: number;
+}
+
+export interface LegacyBarcodeMigrationResult {
+  dryRun: boolean;
+  migrated: number;
+  conflicts: LegacyBarcodeConflict[];
+}
+
+/**
+ * Fold the legacy `codigoBarras` field into `codigosBarras`, making it the main code when the
+ * product has none. Products whose code is held by another product, repeats one of their
+ * variants or fails checksum validation are left untouched and reported as conflicts.
+ */
+export async function migrateLegacyBarcodes(
+  options: LegacyBarcodeMigrationOptions = {}
+): Promise<LegacyBarcodeMigrationResult> {
+  const { dryRun = false, batchSize = 500 } = options;
+  const Product = mongoose.models.Product;
+  const result: LegacyBarcodeMigrationResult = { dryRun, migrated: 0, conflicts: [] };
+  const claimed = new Map<string, string>(); // Codes migrated in this run, by product
+  let batch: any[] = [];
+
+  const flush = async () => {
+    const entries = batch.map(product => ({ product, codigo: normalizeBarcode(product.codigoBarras) }));
+    const codigos = [...new Set(entries.map(entry => entry.codigo))];
+
+    const holders: any[] = await Product.find(
+      {
+        $or: [
+          { codigosBarrasTodos: { $in: codigos } },
+          { codigosBarras: { $in: codigos } },
+          { codigoBarras: { $in: codigos } },
+          { codigoBarrasInterno: { $in: codigos } },
+          { 'variantes.codigosBarras': { $in: codigos } }
+        ]
+      },
+      { codigosBarras: 1, codigoBarras: 1, codigoBarrasInterno: 1, 'variantes.codigosBarras': 1 }
+    ).lean();
+
+    // Another product holding the code; a product's own legacy code does not count
+    const holderOf = (codigo: string, productId: string) => holders.find(holder =>
+      String(holder._id) !== productId && collectProductBarcodes(holder).includes(codigo)
+    );
+
+    const operations: any[] = [];
+    for (const { product, codigo } of entries) {
+      const productId = String(product._id);
+      const conflict = (motivo: LegacyBarcodeConflictReason, conflictingProductId?: string) =>
+        result.conflicts.push({ productId, codigo, motivo, conflictingProductId });
+
+      const holder = holderOf(codigo, productId);
+      const conflictingProductId = (holder && String(holder._id))
+        ?? (claimed.has(codigo) && claimed.get(codigo) !== productId ? claimed.get(codigo) : undefined);
+      if (conflictingProductId) {
+        conflict('duplicado', conflictingProductId);
+        continue;
+      }
+      if ((product.variantes || []).some((v: any) => (v.codigosBarras || []).includes(codigo))) {
+        conflict('variante');
+        continue;
+      }
+      if (product.validarCodigosBarras !== false && !isAcceptableBarcode(codigo)) {
+        conflict('digito-verificador');
+        continue;
+      }
+
+      claimed.set(codigo, productId);
+      operations.push({
+        updateOne: {
+          filter: { _id: product._id, codigoBarras: product.codigoBarras },
+          update: [
+            {
+              $set: {
+                codigosBarras: {
+                  $cond: [
+                    { $in: [codigo, { $ifNull: ['$codigosBarras', []] }] },
+                    '$codigosBarras',
+                    { $concatArrays: [{ $ifNull: ['$codigosBarras', []] }, [codigo]] }
+                  ]
+                },
+                codigoBarraPrincipal: { $ifNull: ['$codigoBarraPrincipal', codigo] }
+              }
+            },
+            { $unset: 'codigoBarras' },
+            { $set: { codigosBarrasTodos: PRODUCT_BARCODES_EXPR } }
+          ]
+        }
+      });
+    }
+
+    if (operations.length > 0) {
+      if (dryRun) {
+        result.migrated += operations.length;
+      } else {
+        try {
+          const bulkResult = await Product.bulkWrite(operations, { ordered: false });
+          result.migrated += bulkResult.modifiedCount;
+        } catch (error: any) {
+          // Codes claimed by a concurrent write since they were checked
+          const writeErrors: any[] = error?.writeErrors || [];
+          if (writeErrors.length === 0 || writeErrors.some(writeError => writeError.code !== 11000)) {
+            throw error;
+          }
+          result.migrated += error.result?.modifiedCount ?? 0;
+          for (const writeError of writeErrors) {
+            const filter = operations[writeError.index].updateOne.filter;
+            const entry = entries.find(e => String(e.product._id) === String(filter._id));
+            if (entry) {
+              result.conflicts.push({ productId: String(filter._id), codigo: entry.codigo, motivo: 'duplicado' });
+            }
+          }
+        }
+      }
+    }
+    batch = [];
+  };
+
+  const cursor = Product.find(
+    { codigoBarras: { $exists: true, $nin: [null, ''] } },
+    { codigoBarras: 1, codigosBarras: 1, codigoBarraPrincipal: 1, validarCodigosBarras: 1, 'variantes.codigosBarras': 1 }
+  ).lean().cursor();
+
+  for await (const product of cursor) {
+    batch.push(product);
+    if (batch.length >= batchSize) {
+      await flush();
+    }
+  }
+  if (batch.length > 0) {
+    await flush();
+  }
+
+  return result;
+}
\ No newline at end of file
@@ -0,0 +1,307 @@
+import mongoose, { Types } from 'mongoose';
+import { DEFAULT_PLANTILLA_NOMBRE, regenerateProductNames } from './productName';
+import { recalculateEffectiveThresholds } from './stockThresholds';
+
+export interface CategoryPathFields {
+  ancestros: Types.ObjectId[];
+  nivel: number;
+  ruta: string;
+}
+
+export interface CategoryBreadcrumb {
+  _id: string;
+  nombre: string;
+  slug?: string;
+}
+
+export interface CategoryTreeNode {
+  _id: Types.ObjectId;
+  nombre: string;
+  slug?: string;
+  parentId?: Types.ObjectId | null;
+  nivel: number;
+  ruta?: string;
+  hijos: CategoryTreeNode[];
+  [field: string]: any;
+}
+
+export interface CategoryTreeRebuildResult {
+  updated: number;
+  unreachable: string[]; // Categories in a parent cycle or under a missing parent, left as they were
+}
+
+interface PlacedCategory {
+  _id: Types.ObjectId;
+  slug?: string;
+  ancestros?: Types.ObjectId[];
+  ruta?: string;
+}
+
+/**
+ * Ancestors, depth and slug path of a category placed under `parent` (null for a root)
+ */
+export function categoryPathFields(slug: string | undefined, parent: PlacedCategory | null): CategoryPathFields {
+  const ancestros = parent ? [...(parent.ancestros || []), parent._id] : [];
+  const segmento = slug || '';
+  return {
+    ancestros,
+    nivel: ancestros.length,
+    ruta: parent ? `${parent.ruta || parent.slug || ''}/${segmento}` : segmento,
+  };
+}
+
+function samePath(category: any, fields: CategoryPathFields): boolean {
+  return category.ruta === fields.ruta
+    && category.nivel === fields.nivel
+    && (category.ancestros || []).map(String).join() === fields.ancestros.map(String).join();
+}
+
+/**
+ * Recompute the path fields of every category below `category`, after it moved or its slug
+ * changed. Returns the number of categories updated.
+ */
+export async function updateDescendantPaths(category: PlacedCategory): Promise<number> {
+  const Category = mongoose.models.Category;
+  const descendants = await Category.find(
+    { ancestros: category._id },
+    { slug: 1, parentId: 1, ancestros: 1, nivel: 1, ruta: 1 }
+  ).lean() as any[];
+
+  // Parents come before their children when sorted by their current depth
+  descendants.sort((a, b) => (a.ancestros || []).length - (b.ancestros || []).length);
+
+  const placed = new Map<string, PlacedCategory>([[String(category._id), category]]);
+  const operations: any[] = [];
+  for (const descendant of descendants) {
+    const parent = placed.get(String(descendant.parentId));
+    if (!parent) continue;
+
+    const fields = categoryPathFields(descendant.slug, parent);
+    placed.set(String(descendant._id), { _id: descendant._id, slug: descendant.slug, ...fields });
+    if (!samePath(descendant, fields)) {
+      operations.push({ updateOne: { filter: { _id: descendant._id }, update: { $set: fields } } });
+    }
+  }
+
+  if (operations.length > 0) {
+    await Category.bulkWrite(operations);
+  }
+  return operations.length;
+}
+
+/**
+ * Recompute ancestors, depth and path of every category from its `parentId`. Run it once after
+ * upgrading, so existing categories get their path, and after editing parents with `bulkWrite`
+ * or update queries.
+ */
+export async function rebuildCategoryTree(): Promise<CategoryTreeRebuildResult> {
+  const Category = mongoose.models.Category;
+  const categories = await Category.find({}, { slug: 1, parentId: 1, ancestros: 1, nivel: 1, ruta: 1 }).lean() as any[];
+
+  const children = new Map<string, any[]>();
+  for (const category of categories) {
+    const key = category.parentId ? String(category.parentId) : '';
+    children.set(key, [...(children.get(key) || []), category]);
+  }
+
+  const operations: any[] = [];
+  const reached = new Set<string>();
+  const pending: Array<{ category: any; parent: PlacedCategory | null }> =
+    (children.get('') || []).map(category => ({ category, parent: null }));
+
+  while (pending.length > 0) {
+    const { category, parent } = pending.shift()!;
+    reached.add(String(category._id));
+
+    const fields = categoryPathFields(category.slug, parent);
+    if (!samePath(category, fields)) {
+      operations.push({ updateOne: { filter: { _id: category._id }, update: { $set: fields } } });
+    }
+    for (const child of children.get(String(category._id)) || []) {
+      pending.push({ category: child, parent: { _id: category._id, slug: category.slug, ...fields } });
+    }
+  }
+
+  if (operations.length > 0) {
+    await Category.bulkWrite(operations);
+  }
+
+  return {
+    updated: operations.length,
+    unreachable: categories.filter(category => !reached.has(String(category._id))).map(category => String(category._id)),
+  };
+}
+
+/**
+ * Ids of a category and all the categories below it, for "everything in this branch" queries
+ */
+export async function getCategoryBranchIds(categoryId: string | Types.ObjectId): Promise<Types.ObjectId[]> {
+  if (!mongoose.isValidObjectId(categoryId)) return [];
+
+  const id = new Types.ObjectId(String(categoryId));
+  const descendants: Types.ObjectId[] = await mongoose.models.Category.find({ ancestros: id }).distinct('_id');
+  return [id, ...descendants];
+}
+
+/**
+ * The categories from the root down to the given one, inclusive
+ */
+export async function buildCategoryBreadcrumb(categoryId: string | Types.ObjectId): Promise<CategoryBreadcrumb[]> {
+  const Category = mongoose.models.Category;
+  if (!mongoose.isValidObjectId(categoryId)) return [];
+
+  const category: any = await Category.findById(categoryId, { nombre: 1, slug: 1, ancestros: 1 }).lean();
+  if (!category) return [];
+
+  const ancestros = (category.ancestros || []).map(String);
+  const docs = await Category.find({ _id: { $in: ancestros } }, { nombre: 1, slug: 1 }).lean() as any[];
+  const byId = new Map(docs.map(doc => [String(doc._id), doc]));
+
+  return [...ancestros.map((id: string) => byId.get(id)).filter(Boolean), category]
+    .map(doc => ({ _id: String(doc._id), nombre: doc.nombre, slug: doc.slug }));
+}
+
+/**
+ * Nest lean categories under their parents, children sorted by name. Categories whose parent
+ * is not in the list become roots.
+ */
+export function buildCategoryTree(categories: any[]): CategoryTreeNode[] {
+  const nodes = new Map<string, CategoryTreeNode>(
+    categories.map(category => [String(category._id), { ...category, nivel: category.nivel ?? 0, hijos: [] }])
+  );
+  const roots: CategoryTreeNode[] = [];
+
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(String(node.parentId)) : undefined;
+    (parent ? parent.hijos : roots).push(node);
+  }
+
+  const sortByName = (list: CategoryTreeNode[]) => {
+    list.sort((a, b) => a.nombre.localeCompare(b.nombre));
+    list.forEach(node => sortByName(node.hijos));
+  };
+  sortByName(roots);
+
+  return roots;
+}
+
+export interface EmbeddedSubcategoryMigrationOptions {
+  dryRun?: boolean; // Only count what would change (default: true)
+}
+
+export interface RenamedSubcategory {
+  categoriaId: string; // The former parent
+  subcategoria: string;
+  nombre: string; // Name of the child category, since the subcategory's is used by another category
+}
+
+export interface EmbeddedSubcategoryMigrationResult {
+  dryRun: boolean;
+  subcategories: number; // Embedded subcategories found
+  created: number; // Child categories created, or to create in a dry run
+  renamed: RenamedSubcategory[];
+  products: number; // Products moved to a child category, or to move in a dry run
+  multipleSubcategories: string[]; // Products with several subcategories, moved to the first one
+}
+
+// Keeps the names of moved products: the former parent's name becomes literal and the
+// subcategory, now the product's category, takes the place of `{subcategorias}`
+function childNameTemplate(parent: any): string {
+  return (parent.plantillaNombre || DEFAULT_PLANTILLA_NOMBRE)
+    .replace(/\{\s*categoria\s*\}/gi, parent.nombre)
+    .replace(/\{\s*subcategorias\s*\}/gi, '{categoria}');
+}
+
+/**
+ * Turn the embedded `subcategorias` of every category into child categories, then move each
+ * product from its category and `subcategoriaIds` to the child category. Children get the
+ * subcategory's threshold (without one they inherit the parent's), the parent's especificaciones and a name template
+ * that keeps product names. Categories named like a subcategory elsewhere get the parent's name
+ * in parentheses. Runs as a dry run unless `dryRun: false` is passed; a run that stops halfway
+ * can be repeated, since children are looked up before being created.
+ */
+export async function migrateEmbeddedSubcategories(
+  options: EmbeddedSubcategoryMigrationOptions = {}
+): Promise<EmbeddedSubcategoryMigrationResult> {
+  const { dryRun = true } = options;
+  const Category = mongoose.models.Category;
+  const Product = mongoose.models.Product;
+  const Especificacion = mongoose.models.Especificacion;
+
+  const result: EmbeddedSubcategoryMigrationResult = {
+    dryRun,
+    subcategories: 0,
+    created: 0,
+    renamed: [],
+    products: 0,
+    multipleSubcategories: []
+  };
+  const parents = await Category.find(
+    { 'subcategorias.0': { $exists: true } },
+    { nombre: 1, plantillaNombre: 1, subcategorias: 1 }
+  ).lean() as any[];
+  const children: unknown[] = [];
+  const planned = new Set<string>(); // Names given to children in this run, which a dry run does not create
+
+  for (const parent of parents) {
+    const subcategoriaIds = parent.subcategorias.map((sub: any) => sub._id);
+    const multiple = await Product.find(
+      { categoriaId: parent._id, subcategoriaIds: { $in: subcategoriaIds }, 'subcategoriaIds.1': { $exists: true } }
+    ).distinct('_id');
+    result.multipleSubcategories.push(...multiple.map(String));
+    result.products += await Product.countDocuments({ categoriaId: parent._id, subcategoriaIds: { $in: subcategoriaIds } });
+
+    const especificacionIds = dryRun ? [] : await Especificacion.find({ categoriaIds: parent._id }).distinct('_id');
+
+    for (const sub of parent.subcategorias) {
+      result.subcategories++;
+      const renamed = `${sub.nombre} (${parent.nombre})`;
+      const existing: any = await Category.findOne(
+        { parentId: parent._id, nombre: { $in: [sub.nombre, renamed] } },
+        { _id: 1 }
+      ).lean();
+      let childId = existing?._id;
+
+      if (!existing) {
+        const taken = planned.has(sub.nombre) || await Category.exists({ nombre: sub.nombre });
+        const nombre = taken ? renamed : sub.nombre;
+        planned.add(nombre);
+        if (nombre !== sub.nombre) {
+          result.renamed.push({ categoriaId: String(parent._id), subcategoria: sub.nombre, nombre });
+        }
+        result.created++;
+        if (!dryRun) {
+          const child = await Category.create({
+            nombre,
+            parentId: parent._id,
+            umbralStockBajo: sub.umbralStockBajo,
+            plantillaNombre: childNameTemplate(parent)
+          });
+          childId = child._id;
+        }
+      }
+      if (dryRun) continue;
+
+      children.push(childId);
+      if (especificacionIds.length > 0) {
+        await Especificacion.updateMany({ _id: { $in: especificacionIds } }, { $addToSet: { categoriaIds: childId } });
+      }
+      // Products with several subcategories no longer match once the first one moved them
+      await Product.updateMany(
+        { categoriaId: parent._id, subcategoriaIds: sub._id },
+        { $set: { categoriaId: childId, subcategoriaIds: [] } }
+      );
+    }
+
+    if (!dryRun) {
+      await Category.updateOne({ _id: parent._id }, { $set: { subcategorias: [] } });
+    }
+  }
+
+  if (!dryRun && children.length > 0) {
+    await recalculateEffectiveThresholds({ categoriaId: { $in: children } });
+    await regenerateProductNames({ categoriaId: { $in: children } });
+  }
+
+  return result;
+}
\ No newline at end of file
@@ -0,0 +1,107 @@
+import mongoose from 'mongoose';
+import { formatSequenceNumber, nextSequenceNumber, seedSequenceFromExisting } from './counters';
+import { Counter } from '../models/Counter';
+import { SalesNote } from '../models/SalesNote';
+
+describe('formatSequenceNumber', () => {
+  it('pads the number and the punto de venta of the series', () => {
+    expect(formatSequenceNumber('salesNote', 42)).toBe('NV-000042');
+    expect(formatSequenceNumber('salesNote', 42, 3)).toBe('NV-0003-000042');
+    expect(formatSequenceNumber('serviceRequest', 7)).toBe('SR-007');
+  });
+
+  it('rejects series that are not configured', () => {
+    expect(() => formatSequenceNumber('factura', 1)).toThrow("La serie de numeración 'factura' no está configurada");
+  });
+});
+
+describe('nextSequenceNumber', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('increments the counter of the punto de venta inside the caller session', async () => {
+    const session = {} as mongoose.ClientSession;
+    const findOneAndUpdate = jest.spyOn(Counter, 'findOneAndUpdate').mockResolvedValue({ seq: 12 } as any);
+
+    await expect(nextSequenceNumber('salesNote', { puntoVenta: 2, session })).resolves.toBe('NV-0002-000012');
+    expect(findOneAndUpdate).toHaveBeenCalledTimes(1);
+    expect(findOneAndUpdate).toHaveBeenCalledWith({ key: 'salesNote:2' }, { $inc: { seq: 1 } }, { new: true, session });
+  });
+
+  it('starts a new counter after the numbers issued before counters existed', async () => {
+    const findOneAndUpdate = jest.spyOn(Counter, 'findOneAndUpdate')
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ seq: 30 } as any)
+      .mockResolvedValueOnce({ seq: 31 } as any);
+    jest.spyOn(SalesNote, 'find').mockReturnValue({
+      lean: () => ({ cursor: () => [{ numeroComprobante: 'NV-000030' }] })
+    } as any);
+
+    await expect(nextSequenceNumber('salesNote')).resolves.toBe('NV-000031');
+    expect(findOneAndUpdate).toHaveBeenNthCalledWith(2, { key: 'salesNote' }, { $max: { seq: 30 } }, { new: true, upsert: true });
+    expect(findOneAndUpdate).toHaveBeenLastCalledWith(
+      { key: 'salesNote' },
+      { $inc: { seq: 1 } },
+      { new: true, upsert: true, session: undefined }
+    );
+  });
+});
+
+describe('seedSequenceFromExisting', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('takes the highest number of the punto de venta and never moves the counter back', async () => {
+    const find = jest.spyOn(SalesNote, 'find').mockReturnValue({
+      lean: () => ({
+        cursor: () => [
+          { numeroComprobante: 'NV-0001-000009' },
+          { numeroComprobante: 'NV-0001-000120' },
+          { numeroComprobante: 'NV-0001-000045' }
+        ]
+      })
+    } as any);
+    const findOneAndUpdate = jest.spyOn(Counter, 'findOneAndUpdate').mockResolvedValue({ seq: 200 } as any);
+
+    await expect(seedSequenceFromExisting('salesNote', { puntoVenta: 1 })).resolves.toBe(200);
+    const pattern: RegExp = (find.mock.calls as any[])[0][0].numeroComprobante.$regex;
+    expect(pattern.test('NV-0001-000120')).toBe(true);
+    expect(pattern.test('NV-0002-000120')).toBe(false);
+    expect(findOneAndUpdate).toHaveBeenCalledWith({ key: 'salesNote:1' }, { $max: { seq: 120 } }, { new: true, upsert: true });
+  });
+});
+
+describe('SalesNote numbering', () => {
+  const hooks = (SalesNote as any)._middleware;
+  const runPreSave = (doc: any) =>
+    new Promise<void>((resolve, reject) => hooks.execPre('save', doc, [], (error?: unknown) => (error ? reject(error) : resolve())));
+
+  const note = (fields: Record<string, unknown>) => new SalesNote({
+    cliente: { nombre: 'Ana', tipoDocumento: 'DNI', numeroDocumento: '30111222', direccion: 'Mitre 100' },
+    items: [{ description: 'Cable', quantity: 1, unitPrice: 10, total: 10 }],
+    subtotal: 10,
+    impuestos: 0,
+    total: 10,
+    ...fields
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('numbers a new note from the counter of its punto de venta', async () => {
+    const findOneAndUpdate = jest.spyOn(Counter, 'findOneAndUpdate').mockResolvedValue({ seq: 5 } as any);
+    const salesNote = note({ puntoVenta: 4 });
+
+    await runPreSave(salesNote);
+
+    expect(salesNote.numeroComprobante).toBe('NV-0004-000005');
+    expect(findOneAndUpdate).toHaveBeenCalledWith({ key: 'salesNote:4' }, { $inc: { seq: 1 } }, expect.anything());
+  });
+
+  it('keeps a number given by hand', async () => {
+    const findOneAndUpdate = jest.spyOn(Counter, 'findOneAndUpdate');
+    const salesNote = note({ numeroComprobante: 'NV-000777' });
+
+    await runPreSave(salesNote);
+
+    expect(salesNote.numeroComprobante).toBe('NV-000777');
+    expect(findOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,154 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { Counter } from '../models/Counter';
+
+export interface SequenceSeriesConfig {
+  prefix: string;
+  padding: number;
+  puntoVentaPadding: number;
+  modelName?: string; // Model holding the issued numbers, used to seed the counter
+  field?: string;
+}
+
+export interface SequenceOptions {
+  puntoVenta?: number;
+  session?: ClientSession | null;
+}
+
+const seriesConfig: Record<string, SequenceSeriesConfig> = {
+  salesNote: {
+    prefix: 'NV-',
+    padding: 6,
+    puntoVentaPadding: 4,
+    modelName: 'SalesNote',
+    field: 'numeroComprobante',
+  },
+  serviceRequest: {
+    prefix: 'SR-',
+    padding: 3,
+    puntoVentaPadding: 4,
+    modelName: 'ServiceRequest',
+    field: 'ticketId',
+  },
+  purchaseOrder: {
+    prefix: 'OC-',
+    padding: 6,
+    puntoVentaPadding: 4,
+    modelName: 'PurchaseOrder',
+    field: 'numeroOrden',
+  },
+};
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Register a new series or override the format of an existing one
+ */
+export function configureSequenceSeries(series: string, config: Partial<SequenceSeriesConfig>): void {
+  const defaults: SequenceSeriesConfig = { prefix: '', padding: 6, puntoVentaPadding: 4 };
+  seriesConfig[series] = {
+    ...defaults,
+    ...seriesConfig[series],
+    ...config,
+  };
+}
+
+export function getSequenceSeriesConfig(series: string): SequenceSeriesConfig {
+  const config = seriesConfig[series];
+  if (!config) {
+    throw new Error(`La serie de numeración '${series}' no está configurada`);
+  }
+  return config;
+}
+
+export function getCounterKey(series: string, puntoVenta?: number): string {
+  return puntoVenta ? `${series}:${puntoVenta}` : series;
+}
+
+export function formatSequenceNumber(series: string, seq: number, puntoVenta?: number): string {
+  const { prefix, padding, puntoVentaPadding } = getSequenceSeriesConfig(series);
+  const puntoVentaPart = puntoVenta ? `${puntoVenta.toString().padStart(puntoVentaPadding, '0')}-` : '';
+  return `${prefix}${puntoVentaPart}${seq.toString().padStart(padding, '0')}`;
+}
+
+/**
+ * Atomically reserve the next value of a counter. Series without a configuration are plain
+ * counters starting at 1. When a session is given the increment is part of the caller's
+ * transaction, so an aborted save does not leave a gap.
+ */
+export async function nextSequenceValue(series: string, options: SequenceOptions = {}): Promise<number> {
+  const { puntoVenta, session } = options;
+  const config = seriesConfig[series];
+  const key = getCounterKey(series, puntoVenta);
+
+  let counter = await Counter.findOneAndUpdate(
+    { key },
+    { $inc: { seq: 1 } },
+    { new: true, session: session ?? undefined }
+  );
+
+  if (!counter) {
+    // First number of the series: start after any number issued before counters existed
+    if (config?.modelName && config.field) {
+      await seedSequenceFromExisting(series, { puntoVenta });
+    }
+
+    counter = await Counter.findOneAndUpdate(
+      { key },
+      { $inc: { seq: 1 } },
+      { new: true, upsert: true, session: session ?? undefined }
+    );
+  }
+
+  return counter.seq;
+}
+
+/**
+ * Atomically reserve and format the next number of a configured series
+ */
+export async function nextSequenceNumber(series: string, options: SequenceOptions = {}): Promise<string> {
+  getSequenceSeriesConfig(series);
+  const seq = await nextSequenceValue(series, options);
+  return formatSequenceNumber(series, seq, options.puntoVenta);
+}
+
+/**
+ * Move the counter of a series up to the highest number already issued in its collection.
+ * Never moves a counter backwards. Returns the resulting counter value.
+ */
+export async function seedSequenceFromExisting(series: string, options: SequenceOptions = {}): Promise<number> {
+  const { puntoVenta } = options;
+  const { prefix, puntoVentaPadding, modelName, field } = getSequenceSeriesConfig(series);
+
+  if (!modelName || !field) {
+    throw new Error(`La serie de numeración '${series}' no tiene un modelo de origen para inicializarla`);
+  }
+
+  const model = mongoose.models[modelName];
+  if (!model) {
+    throw new Error(`El modelo '${modelName}' no está registrado`);
+  }
+
+  const puntoVentaPart = puntoVenta
+    ? `${escapeRegex(puntoVenta.toString().padStart(puntoVentaPadding, '0'))}-`
+    : '';
+  const pattern = new RegExp(`^${escapeRegex(prefix)}${puntoVentaPart}(\\d+)$`);
+
+  let maxNumber = 0;
+  const cursor = model.find({ [field]: { $regex: pattern } }, { [field]: 1 }).lean().cursor();
+  for await (const doc of cursor) {
+    const match = pattern.exec((doc as any)[field]);
+    if (match) {
+      maxNumber = Math.max(maxNumber, parseInt(match[1], 10));
+    }
+  }
+
+  const counter = await Counter.findOneAndUpdate(
+    { key: getCounterKey(series, puntoVenta) },
+    { $max: { seq: maxNumber } },
+    { new: true, upsert: true }
+  );
+
+  return counter.seq;
+}
\ No newline at end of file
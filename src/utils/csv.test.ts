@@ -0,0 +1,38 @@
+import { detectCsvDelimiter, parseCsv } from './csv';
+
+describe('detectCsvDelimiter', () => {
+  it('picks the delimiter that appears most outside quotes', () => {
+    expect(detectCsvDelimiter('codigo;descripcion;costo')).toBe(';');
+    expect(detectCsvDelimiter('codigo\tcosto')).toBe('\t');
+    expect(detectCsvDelimiter('"a,b,c";d;e')).toBe(';');
+  });
+
+  it('defaults to a comma', () => {
+    expect(detectCsvDelimiter('codigo')).toBe(',');
+  });
+});
+
+describe('parseCsv', () => {
+  it('splits rows and fields with the detected delimiter', () => {
+    expect(parseCsv('codigo;costo\nA1;1.234,56\n')).toEqual([['codigo', 'costo'], ['A1', '1.234,56']]);
+  });
+
+  it('handles quoted fields with delimiters, doubled quotes and line breaks', () => {
+    expect(parseCsv('a,b\n"x, y","dijo ""hola""\notra línea"', ',')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'dijo "hola"\notra línea']
+    ]);
+  });
+
+  it('strips a leading BOM and reads CRLF endings', () => {
+    expect(parseCsv('\uFEFFcodigo,costo\r\nA1,10\r\n')).toEqual([['codigo', 'costo'], ['A1', '10']]);
+  });
+
+  it('skips blank lines but keeps empty fields', () => {
+    expect(parseCsv('a,b\n\n   \n,2\n')).toEqual([['a', 'b'], ['', '2']]);
+  });
+
+  it('uses the given delimiter', () => {
+    expect(parseCsv('a;b,c', ',')).toEqual([['a;b', 'c']]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,64 @@
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+/**
+ * The delimiter used in a CSV line: whichever of comma, semicolon or tab appears most outside
+ * quotes. Spreadsheets in Spanish locales export with semicolons.
+ */
+export function detectCsvDelimiter(line: string): string {
+  const counts = new Map(CSV_DELIMITERS.map(delimiter => [delimiter, 0]));
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+  return [...counts.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+}
+
+/**
+ * Parse CSV text into rows of fields. Handles quoted fields with delimiters, doubled quotes and
+ * line breaks, CRLF endings and a leading BOM. Blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const separator = delimiter ?? detectCsvDelimiter(source.split(/\r?\n/, 1)[0] || '');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
\ No newline at end of file
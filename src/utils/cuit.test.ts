@@ -0,0 +1,34 @@
+import { computeCuitCheckDigit, isValidCuit, normalizeCuit } from './cuit';
+
+describe('normalizeCuit', () => {
+  it('formats eleven digits typed with any separators', () => {
+    expect(normalizeCuit('20123456786')).toBe('20-12345678-6');
+    expect(normalizeCuit(' 20.12345678/6 ')).toBe('20-12345678-6');
+    expect(normalizeCuit('20 1234 5678 6')).toBe('20-12345678-6');
+  });
+
+  it('returns other values trimmed', () => {
+    expect(normalizeCuit(' 2012345678 ')).toBe('2012345678');
+    expect(normalizeCuit('CUIT 20123456786')).toBe('CUIT 20123456786');
+  });
+});
+
+describe('computeCuitCheckDigit', () => {
+  it('computes the mod-11 digit', () => {
+    expect(computeCuitCheckDigit('2012345678')).toBe(6);
+    expect(computeCuitCheckDigit('3369345023')).toBe(9);
+  });
+});
+
+describe('isValidCuit', () => {
+  it('accepts a matching check digit, formatted or not', () => {
+    expect(isValidCuit('20-12345678-6')).toBe(true);
+    expect(isValidCuit('33693450239')).toBe(true);
+  });
+
+  it('rejects a wrong check digit or length', () => {
+    expect(isValidCuit('20-12345678-5')).toBe(false);
+    expect(isValidCuit('20-1234567-6')).toBe(false);
+    expect(isValidCuit('')).toBe(false);
+  });
+});
\ No newline at end of file
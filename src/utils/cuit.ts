@@ -0,0 +1,33 @@
+// Weights of the CUIT/CUIL check digit, applied to the first ten digits
+const CUIT_WEIGHTS = [5, 4, 3, 2, 7, 6, 5, 4, 3, 2];
+
+/**
+ * Format a CUIT as XX-XXXXXXXX-X, whatever separators it was typed with. Values that do not
+ * have eleven digits are returned trimmed, for validation to reject them.
+ */
+export function normalizeCuit(value: string): string {
+  const text = String(value ?? '').trim();
+  const digits = text.replace(/[\s.\-/]/g, '');
+  if (!/^\d{11}$/.test(digits)) return text;
+  return `${digits.slice(0, 2)}-${digits.slice(2, 10)}-${digits.slice(10)}`;
+}
+
+/**
+ * Mod-11 check digit of the first ten digits of a CUIT
+ */
+export function computeCuitCheckDigit(body: string): number {
+  const sum = CUIT_WEIGHTS.reduce((total, weight, index) => total + weight * Number(body[index]), 0);
+  const digit = 11 - (sum % 11);
+  if (digit === 11) return 0;
+  if (digit === 10) return 9;
+  return digit;
+}
+
+/**
+ * True for a CUIT/CUIL with eleven digits and a matching check digit
+ */
+export function isValidCuit(value: string): boolean {
+  const digits = normalizeCuit(value).replace(/-/g, '');
+  if (!/^\d{11}$/.test(digits)) return false;
+  return computeCuitCheckDigit(digits.slice(0, 10)) === Number(digits[10]);
+}
\ No newline at end of file
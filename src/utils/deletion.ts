@@ -0,0 +1,281 @@
+import mongoose, { ClientSession, Schema } from 'mongoose';
+import { EntityInUseError, EntityUsageSummary, ReassignmentConflict, ReassignmentConflictError } from './errors';
+import { recalculateEffectiveThresholds } from './stockThresholds';
+import { regenerateProductNames } from './productName';
+import { ClearedSupplierCode, transferSupplierCosts } from './supplierCosts';
+import { replaceProductEspecificacion } from './specifications';
+import { transferPurchaseOrders } from './purchaseOrders';
+
+export type CatalogEntity = 'Brand' | 'Supplier' | 'Category' | 'Especificacion';
+
+export interface CatalogDeleteOptions {
+  reasignarA?: string; // Move the products to this entity, then delete, in one transaction
+}
+
+export interface CatalogDeleteResult {
+  deleted: boolean;
+  reassigned: number; // Products moved to the replacement
+  clearedSupplierCodes?: ClearedSupplierCode[]; // Suppliers only: codes the replacement already used
+}
+
+// Products listed in an EntityInUseError
+const USAGE_SAMPLE_SIZE = 10;
+
+const ENTITY_LABELS: Record<CatalogEntity, string> = {
+  Brand: 'la marca',
+  Supplier: 'el proveedor',
+  Category: 'la categoría',
+  Especificacion: 'la especificación',
+};
+
+const NOT_FOUND_MESSAGES: Record<CatalogEntity, string> = {
+  Brand: 'Marca no encontrada',
+  Supplier: 'Proveedor no encontrado',
+  Category: 'Categoría no encontrada',
+  Especificacion: 'Especificación no encontrada',
+};
+
+/**
+ * Filter selecting the products that reference any of the entities
+ */
+function productReferenceFilter(entity: CatalogEntity, ids: unknown[]): Record<string, any> {
+  switch (entity) {
+    case 'Brand':
+      return { marcaId: { $in: ids } };
+    case 'Supplier':
+      return { proveedorId: { $in: ids } };
+    case 'Category':
+      return { categoriaId: { $in: ids } };
+    case 'Especificacion': {
+      // Products store especificacion ids as text
+      const textIds = ids.map(String);
+      return {
+        $or: [
+          { 'especificaciones.especificacionId': { $in: textIds } },
+          { 'variantes.especificacionId': { $in: textIds } }
+        ]
+      };
+    }
+  }
+}
+
+/**
+ * How many products (and, for categories, child categories; for suppliers, purchase orders)
+ * reference the entities
+ */
+export async function getEntityUsage(
+  entity: CatalogEntity,
+  ids: unknown[],
+  session?: ClientSession | null
+): Promise<EntityUsageSummary> {
+  if (ids.length === 0) return { productCount: 0, products: [], childCategoryCount: 0, purchaseOrderCount: 0 };
+
+  const Product = mongoose.models.Product;
+  const filter = productReferenceFilter(entity, ids);
+
+  const [productCount, products, childCategoryCount, purchaseOrderCount] = await Promise.all([
+    Product.countDocuments(filter).session(session ?? null),
+    Product.find(filter, { nombre: 1, codigoInterno: 1 }).limit(USAGE_SAMPLE_SIZE).session(session ?? null).lean(),
+    entity === 'Category'
+      ? mongoose.models.Category.countDocuments({ parentId: { $in: ids } }).session(session ?? null)
+      : Promise.resolve(0),
+    entity === 'Supplier'
+      ? mongoose.models.PurchaseOrder.countDocuments({ proveedorId: { $in: ids } }).session(session ?? null)
+      : Promise.resolve(0)
+  ]);
+
+  return {
+    productCount,
+    products: (products as any[]).map(product => ({
+      _id: String(product._id),
+      nombre: product.nombre,
+      codigoInterno: product.codigoInterno,
+    })),
+    childCategoryCount,
+    purchaseOrderCount,
+  };
+}
+
+/**
+ * Throw EntityInUseError when any of the entities is still referenced
+ */
+export async function assertNotInUse(
+  entity: CatalogEntity,
+  ids: unknown[],
+  session?: ClientSession | null
+): Promise<void> {
+  const usage = await getEntityUsage(entity, ids, session);
+  if (usage.productCount > 0 || usage.childCategoryCount > 0 || usage.purchaseOrderCount > 0) {
+    throw new EntityInUseError(entity, ENTITY_LABELS[entity], ids, usage);
+  }
+}
+
+/**
+ * Refuse deletes of entities still in use, through documents and queries alike
+ */
+export function guardDeletes(schema: Schema, entity: CatalogEntity): void {
+  schema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], async function() {
+    const session = this.getOptions().session;
+    const ids = await this.model.find(this.getFilter()).session(session ?? null).distinct('_id');
+    await assertNotInUse(entity, ids, session);
+  });
+
+  schema.pre('deleteOne', { document: true, query: false }, async function() {
+    await assertNotInUse(entity, [this._id], this.$session());
+  });
+}
+
+/**
+ * Move the products' especificaciones and variants from `id` to `replacement`, which also takes
+ * over its categories. Values are cast to the replacement's type; if any product cannot take
+ * it, nothing is changed and ReassignmentConflictError lists the products.
+ */
+async function reassignEspecificacion(
+  id: mongoose.Types.ObjectId,
+  replacement: mongoose.Types.ObjectId,
+  session: ClientSession
+): Promise<void> {
+  const Product = mongoose.models.Product;
+  const Especificacion = mongoose.models.Especificacion;
+
+  const [original, definition]: any[] = await Promise.all([
+    Especificacion.findById(id, { categoriaIds: 1 }).session(session).lean(),
+    Especificacion.findById(replacement).session(session).lean()
+  ]);
+
+  const products: any[] = await Product.find(
+    productReferenceFilter('Especificacion', [id]),
+    { nombre: 1, codigoInterno: 1, especificaciones: 1, variantes: 1 }
+  ).session(session).lean();
+
+  const conflicts: ReassignmentConflict[] = [];
+  const operations = products.map(product => {
+    const { especificaciones, variantes, errores } = replaceProductEspecificacion(product, String(id), String(replacement), definition);
+    if (errores.length > 0) {
+      conflicts.push({ _id: String(product._id), nombre: product.nombre, codigoInterno: product.codigoInterno, errores });
+    }
+    return { updateOne: { filter: { _id: product._id }, update: { $set: { especificaciones, variantes } } } };
+  });
+
+  if (conflicts.length > 0) {
+    throw new ReassignmentConflictError('Especificacion', replacement, conflicts);
+  }
+
+  const categoriaIds = (original?.categoriaIds || []).map(String);
+  if (categoriaIds.length > 0) {
+    await Especificacion.updateOne({ _id: replacement }, { $addToSet: { categoriaIds: { $each: categoriaIds } } }, { session });
+  }
+  if (operations.length > 0) {
+    await Product.bulkWrite(operations, { session });
+  }
+}
+
+/**
+ * Move the products of `id` to `replacement`. Categories also hand over their especificaciones,
+ * and products drop their subcategories, which belonged to the old category. Suppliers return the
+ * supplier codes dropped from their costs.
+ */
+async function reassignProducts(
+  entity: CatalogEntity,
+  id: mongoose.Types.ObjectId,
+  replacement: mongoose.Types.ObjectId,
+  session: ClientSession
+): Promise<ClearedSupplierCode[]> {
+  const Product = mongoose.models.Product;
+
+  switch (entity) {
+    case 'Brand':
+      await Product.updateMany({ marcaId: id }, { $set: { marcaId: replacement } }, { session });
+      break;
+    case 'Supplier': {
+      await Product.updateMany({ proveedorId: id }, { $set: { proveedorId: replacement } }, { session });
+      const cleared = await transferSupplierCosts([id], replacement, session);
+      await transferPurchaseOrders([id], replacement, session);
+      return cleared;
+    }
+    case 'Category': {
+      const Especificacion = mongoose.models.Especificacion;
+      await Especificacion.updateMany({ categoriaIds: String(id) }, { $addToSet: { categoriaIds: String(replacement) } }, { session });
+      await Especificacion.updateMany({ categoriaIds: String(id) }, { $pull: { categoriaIds: String(id) } }, { session });
+      await Product.updateMany({ categoriaId: id }, { $set: { categoriaId: replacement, subcategoriaIds: [] } }, { session });
+      break;
+    }
+    case 'Especificacion':
+      await reassignEspecificacion(id, replacement, session);
+      break;
+  }
+  return [];
+}
+
+/**
+ * Delete a brand, supplier, category or especificacion. Without `reasignarA` the delete is
+ * refused with EntityInUseError while products (or, for suppliers, purchase orders) reference
+ * it; with it, the products and purchase orders are moved to the replacement and the entity
+ * deleted in one transaction. Categories with child
+ * categories are always refused: move or delete the children first.
+ */
+export async function deleteCatalogEntity(
+  entity: CatalogEntity,
+  id: string,
+  options: CatalogDeleteOptions = {}
+): Promise<CatalogDeleteResult> {
+  const model = mongoose.models[entity];
+  const { reasignarA } = options;
+
+  const existing = mongoose.isValidObjectId(id) ? await model.findById(id, { _id: 1 }).lean() : null;
+  if (!existing) {
+    throw new Error(NOT_FOUND_MESSAGES[entity]);
+  }
+  const entityId = new mongoose.Types.ObjectId(id);
+
+  if (!reasignarA) {
+    await model.deleteOne({ _id: entityId });
+    if (entity === 'Category') {
+      await mongoose.models.Especificacion.updateMany({ categoriaIds: id }, { $pull: { categoriaIds: id } });
+    }
+    if (entity === 'Supplier') {
+      await transferSupplierCosts([entityId], null);
+    }
+    return { deleted: true, reassigned: 0 };
+  }
+
+  if (String(reasignarA) === String(id)) {
+    throw new Error('El reemplazo no puede ser el mismo registro que se elimina');
+  }
+  const replacement = mongoose.isValidObjectId(reasignarA) ? await model.findById(reasignarA, { _id: 1 }).lean() : null;
+  if (!replacement) {
+    throw new Error(`${NOT_FOUND_MESSAGES[entity]}: ${reasignarA}`);
+  }
+  const replacementId = new mongoose.Types.ObjectId(reasignarA);
+
+  const session = await mongoose.startSession();
+  let movedIds: unknown[] = [];
+  let clearedSupplierCodes: ClearedSupplierCode[] = [];
+
+  try {
+    await session.withTransaction(async () => {
+      movedIds = await mongoose.models.Product.find(productReferenceFilter(entity, [entityId]))
+        .session(session)
+        .distinct('_id');
+      clearedSupplierCodes = await reassignProducts(entity, entityId, replacementId, session);
+      await model.deleteOne({ _id: entityId }, { session });
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  // Bulk updates skip the save hooks that derive these from brands, categories and especificaciones
+  if (movedIds.length > 0 && entity !== 'Supplier') {
+    const moved = { _id: { $in: movedIds } };
+    if (entity !== 'Brand') {
+      await recalculateEffectiveThresholds(moved);
+    }
+    await regenerateProductNames(moved);
+  }
+
+  return {
+    deleted: true,
+    reassigned: movedIds.length,
+    ...(entity === 'Supplier' ? { clearedSupplierCodes } : {})
+  };
+}
\ No newline at end of file
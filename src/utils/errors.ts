@@ -0,0 +1,91 @@
+export interface ConflictingProduct {
+  _id: unknown;
+  nombre?: string;
+  codigoInterno?: string;
+}
+
+/**
+ * Raised when a write would give a barcode to a second product
+ */
+export class BarcodeConflictError extends Error {
+  readonly codigo: string;
+  readonly productId?: string;
+  readonly productNombre?: string;
+  readonly productCodigoInterno?: string;
+
+  constructor(codigo: string, conflicting?: ConflictingProduct | null) {
+    const producto = conflicting
+      ? ` (${conflicting.nombre || conflicting.codigoInterno || 'sin nombre'}, id ${String(conflicting._id)})`
+      : '';
+    super(`El código de barras '${codigo}' ya está en uso por otro producto${producto}`);
+    this.name = 'BarcodeConflictError';
+    this.codigo = codigo;
+    this.productId = conflicting ? String(conflicting._id) : undefined;
+    this.productNombre = conflicting?.nombre;
+    this.productCodigoInterno = conflicting?.codigoInterno;
+  }
+}
+
+export interface EntityUsageSummary {
+  productCount: number;
+  products: ConflictingProduct[]; // A sample of the products
+  childCategoryCount: number;
+  purchaseOrderCount: number; // Suppliers only
+}
+
+/**
+ * Raised when deleting a brand, supplier, category or especificacion that is still referenced
+ */
+export class EntityInUseError extends Error {
+  readonly entity: string;
+  readonly entityIds: string[];
+  readonly productCount: number;
+  readonly products: ConflictingProduct[];
+  readonly childCategoryCount: number;
+  readonly purchaseOrderCount: number;
+
+  constructor(entity: string, label: string, entityIds: unknown[], usage: EntityUsageSummary) {
+    const usos = [
+      ...(usage.productCount > 0 ? [`está en uso en ${usage.productCount} producto(s)`] : []),
+      ...(usage.childCategoryCount > 0 ? [`tiene ${usage.childCategoryCount} subcategoría(s)`] : []),
+      ...(usage.purchaseOrderCount > 0 ? [`tiene ${usage.purchaseOrderCount} orden(es) de compra`] : [])
+    ];
+    const ejemplos = usage.products
+      .map(product => product.nombre || product.codigoInterno || String(product._id))
+      .join(', ');
+    super(`No se puede eliminar ${label}: ${usos.join(' y ')}${ejemplos ? ` (${ejemplos}${usage.productCount > usage.products.length ? ', ...' : ''})` : ''}`);
+    this.name = 'EntityInUseError';
+    this.entity = entity;
+    this.entityIds = entityIds.map(String);
+    this.productCount = usage.productCount;
+    this.products = usage.products;
+    this.childCategoryCount = usage.childCategoryCount;
+    this.purchaseOrderCount = usage.purchaseOrderCount;
+  }
+}
+
+export interface ReassignmentConflict extends ConflictingProduct {
+  errores: string[];
+}
+
+/**
+ * Raised when products cannot take the replacement of a deleted entity, e.g. values that do
+ * not fit the replacement especificacion
+ */
+export class ReassignmentConflictError extends Error {
+  readonly entity: string;
+  readonly replacementId: string;
+  readonly conflicts: ReassignmentConflict[];
+
+  constructor(entity: string, replacementId: unknown, conflicts: ReassignmentConflict[]) {
+    const ejemplos = conflicts
+      .slice(0, 10)
+      .map(conflict => `${conflict.nombre || conflict.codigoInterno || String(conflict._id)}: ${conflict.errores.join('; ')}`)
+      .join(' | ');
+    super(`No se pueden reasignar ${conflicts.length} producto(s) al reemplazo (${ejemplos}${conflicts.length > 10 ? ' | ...' : ''})`);
+    this.name = 'ReassignmentConflictError';
+    this.entity = entity;
+    this.replacementId = String(replacementId);
+    this.conflicts = conflicts;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,135 @@
+import mongoose from 'mongoose';
+import { checkProductReferences, migrateReferenceIds, scanProductReferences } from './integrity';
+import * as stockThresholds from './stockThresholds';
+import * as productName from './productName';
+import { Product } from '../models/Product';
+import { Brand } from '../models/Brand';
+import { Category } from '../models/Category';
+import { Supplier } from '../models/Supplier';
+
+const id = () => new mongoose.Types.ObjectId();
+const marca = id();
+const proveedor = id();
+const subcategoria = id();
+const categoria = { _id: id(), subcategorias: [{ _id: subcategoria }] };
+
+// Brands, categories and suppliers found by the reference lookups
+function catalog() {
+  jest.spyOn(Brand, 'find').mockReturnValue({ lean: async () => [{ _id: marca }] } as any);
+  jest.spyOn(Category, 'find').mockReturnValue({ lean: async () => [categoria] } as any);
+  jest.spyOn(Supplier, 'find').mockReturnValue({ lean: async () => [{ _id: proveedor }] } as any);
+}
+
+describe('checkProductReferences', () => {
+  beforeEach(catalog);
+  afterEach(() => jest.restoreAllMocks());
+
+  it('accepts existing references and subcategories of the category', async () => {
+    await expect(checkProductReferences({
+      marcaId: marca,
+      categoriaId: String(categoria._id),
+      proveedorId: proveedor,
+      subcategoriaIds: [String(subcategoria)]
+    })).resolves.toEqual([]);
+  });
+
+  it('reports missing references and subcategories of another category', async () => {
+    const otraMarca = String(id());
+    const otraSubcategoria = String(id());
+
+    await expect(checkProductReferences({
+      marcaId: otraMarca,
+      categoriaId: categoria._id,
+      subcategoriaIds: [subcategoria, otraSubcategoria]
+    })).resolves.toEqual([
+      { field: 'marcaId', value: otraMarca, problema: 'inexistente' },
+      { field: 'subcategoriaIds', value: otraSubcategoria, problema: 'subcategoria-ajena' }
+    ]);
+  });
+
+  it('only checks the given fields', async () => {
+    await expect(checkProductReferences({ marcaId: String(id()), proveedorId: proveedor }, ['proveedorId'])).resolves.toEqual([]);
+  });
+});
+
+describe('scanProductReferences', () => {
+  const sano = { _id: id(), marcaId: marca, categoriaId: categoria._id, subcategoriaIds: [subcategoria] };
+  const roto = { _id: id(), marcaId: id(), categoriaId: categoria._id, subcategoriaIds: [subcategoria, id()] };
+  let bulkWrite: jest.SpyInstance;
+  let recalculate: jest.SpyInstance;
+
+  beforeEach(() => {
+    catalog();
+    jest.spyOn(Product, 'find').mockReturnValue({ lean: () => ({ cursor: () => [sano, roto] }) } as any);
+    bulkWrite = jest.spyOn(Product, 'bulkWrite').mockResolvedValue({ modifiedCount: 1 } as any);
+    recalculate = jest.spyOn(stockThresholds, 'recalculateEffectiveThresholds').mockResolvedValue(undefined as any);
+    jest.spyOn(productName, 'regenerateProductNames').mockResolvedValue(undefined as any);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('only reports without repair', async () => {
+    const report = await scanProductReferences();
+
+    expect(report.scanned).toBe(2);
+    expect(report.issues.map(issue => [issue.productId, issue.field])).toEqual([
+      [String(roto._id), 'marcaId'],
+      [String(roto._id), 'subcategoriaIds']
+    ]);
+    expect(bulkWrite).not.toHaveBeenCalled();
+  });
+
+  it('reassigns missing references, drops foreign subcategories and refreshes derived fields', async () => {
+    const report = await scanProductReferences({ repair: true, reasignar: { marcaId: String(marca) } });
+
+    expect(report.repaired).toBe(1);
+    expect(bulkWrite).toHaveBeenCalledWith([{
+      updateOne: {
+        filter: { _id: roto._id },
+        update: { $set: { marcaId: String(marca), subcategoriaIds: [subcategoria] } }
+      }
+    }]);
+    expect(recalculate).toHaveBeenCalledWith({ _id: { $in: [roto._id] } });
+  });
+
+  it('rejects a replacement that does not exist either', async () => {
+    await expect(scanProductReferences({ repair: true, reasignar: { proveedorId: String(id()) } }))
+      .rejects.toThrow('El reemplazo para proveedorId no existe');
+  });
+});
+
+describe('migrateReferenceIds', () => {
+  const productId = id();
+  let updateMany: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(Product.collection, 'find').mockReturnValue({
+      toArray: async () => [{ _id: productId, marcaId: 'acme', subcategoriaIds: [String(subcategoria), 'varios'] }]
+    } as any);
+    updateMany = jest.spyOn(Product.collection, 'updateMany').mockResolvedValue({ modifiedCount: 2 } as any);
+    jest.spyOn(Product.collection, 'countDocuments').mockResolvedValue(3);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('converts id strings in place and reports the strings that are not ids', async () => {
+    const result = await migrateReferenceIds();
+
+    expect(result.converted).toEqual({ marcaId: 2, categoriaId: 2, proveedorId: 2, subcategoriaIds: 2 });
+    expect(result.invalid).toEqual([
+      { productId: String(productId), field: 'marcaId', value: 'acme', problema: 'id-invalido' },
+      { productId: String(productId), field: 'subcategoriaIds', value: 'varios', problema: 'id-invalido' }
+    ]);
+    expect(updateMany).toHaveBeenCalledWith(
+      { marcaId: { $type: 'string', $regex: /^[0-9a-fA-F]{24}$/ } },
+      [{ $set: { marcaId: { $toObjectId: '$marcaId' } } }]
+    );
+  });
+
+  it('only counts on a dry run', async () => {
+    const result = await migrateReferenceIds({ dryRun: true });
+
+    expect(result.converted).toEqual({ marcaId: 3, categoriaId: 3, proveedorId: 3, subcategoriaIds: 3 });
+    expect(updateMany).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
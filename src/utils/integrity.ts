@@ -0,0 +1,313 @@
+import mongoose from 'mongoose';
+import { recalculateEffectiveThresholds } from './stockThresholds';
+import { regenerateProductNames } from './productName';
+
+export type ReferenceField = 'marcaId' | 'categoriaId' | 'proveedorId' | 'subcategoriaIds';
+
+export type ReferenceProblem = 'inexistente' | 'subcategoria-ajena' | 'id-invalido';
+
+export interface ReferenceIssue {
+  productId?: string;
+  field: ReferenceField;
+  value: string;
+  problema: ReferenceProblem;
+}
+
+export interface ProductReferences {
+  marcaId?: string | mongoose.Types.ObjectId;
+  categoriaId?: string | mongoose.Types.ObjectId;
+  proveedorId?: string | mongoose.Types.ObjectId;
+  subcategoriaIds?: Array<string | mongoose.Types.ObjectId>;
+}
+
+export interface ReferenceScanOptions {
+  repair?: boolean; // Drop foreign subcategories and apply `reasignar`
+  reasignar?: Partial<Record<'marcaId' | 'categoriaId' | 'proveedorId', string>>; // Replacement for missing references
+  batchSize?: number;
+}
+
+export interface ReferenceScanReport {
+  scanned: number;
+  issues: ReferenceIssue[];
+  repaired: number;
+}
+
+export interface ReferenceIdMigrationOptions {
+  dryRun?: boolean; // Count what would be converted without writing
+}
+
+export interface ReferenceIdMigrationResult {
+  dryRun: boolean;
+  converted: Record<ReferenceField, number>; // Products whose field was (or would be) converted
+  invalid: ReferenceIssue[]; // Strings that are not ids, left as they are
+}
+
+const REASSIGNABLE_FIELDS = ['marcaId', 'categoriaId', 'proveedorId'] as const;
+
+const OBJECT_ID_PATTERN = /^[0-9a-fA-F]{24}$/;
+
+const ISSUE_MESSAGES: Record<ReferenceField, string> = {
+  marcaId: 'La marca no existe',
+  categoriaId: 'La categoría no existe',
+  proveedorId: 'El proveedor no existe',
+  subcategoriaIds: 'Subcategoría inexistente o de otra categoría',
+};
+
+interface ReferenceCatalog {
+  marcaId: Set<string>;
+  proveedorId: Set<string>;
+  categoriaId: Map<string, Set<string>>; // Category id -> its subcategory ids
+}
+
+/**
+ * Load the ids the given references point at, or every brand, category and supplier when
+ * called without references (for whole-collection scans)
+ */
+async function loadReferenceCatalog(references?: ProductReferences[]): Promise<ReferenceCatalog> {
+  const idsOf = (field: 'marcaId' | 'categoriaId' | 'proveedorId') => references
+    ? { _id: { $in: [...new Set(references.map(r => String(r[field] || '')))].filter(id => mongoose.isValidObjectId(id)) } }
+    : {};
+
+  const [brands, categories, suppliers] = await Promise.all([
+    mongoose.models.Brand.find(idsOf('marcaId'), { _id: 1 }).lean(),
+    mongoose.models.Category.find(idsOf('categoriaId'), { 'subcategorias._id': 1 }).lean(),
+    mongoose.models.Supplier.find(idsOf('proveedorId'), { _id: 1 }).lean()
+  ]);
+
+  return {
+    marcaId: new Set((brands as any[]).map(b => String(b._id))),
+    proveedorId: new Set((suppliers as any[]).map(s => String(s._id))),
+    categoriaId: new Map((categories as any[]).map(c => [
+      String(c._id),
+      new Set<string>((c.subcategorias || []).map((sub: any) => String(sub._id)))
+    ])),
+  };
+}
+
+function findIssues(references: ProductReferences, catalog: ReferenceCatalog, fields?: ReferenceField[]): ReferenceIssue[] {
+  const issues: ReferenceIssue[] = [];
+  const checks = (field: ReferenceField) => !fields || fields.includes(field);
+
+  for (const field of ['marcaId', 'proveedorId'] as const) {
+    const value = references[field];
+    if (checks(field) && value !== undefined && !catalog[field].has(String(value))) {
+      issues.push({ field, value: String(value), problema: 'inexistente' });
+    }
+  }
+
+  const subcategorias = references.categoriaId !== undefined
+    ? catalog.categoriaId.get(String(references.categoriaId))
+    : undefined;
+
+  if (checks('categoriaId') && references.categoriaId !== undefined && !subcategorias) {
+    issues.push({ field: 'categoriaId', value: String(references.categoriaId), problema: 'inexistente' });
+  }
+
+  // Subcategories are only meaningful within an existing category
+  if (checks('subcategoriaIds') && subcategorias) {
+    for (const subcategoriaId of references.subcategoriaIds || []) {
+      if (!subcategorias.has(String(subcategoriaId))) {
+        issues.push({ field: 'subcategoriaIds', value: String(subcategoriaId), problema: 'subcategoria-ajena' });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check that a product's brand, category and supplier exist and that its subcategories
+ * belong to its category. `fields` limits the check to the references being written.
+ */
+export async function checkProductReferences(
+  references: ProductReferences,
+  fields?: ReferenceField[]
+): Promise<ReferenceIssue[]> {
+  return findIssues(references, await loadReferenceCatalog([references]), fields);
+}
+
+/**
+ * checkProductReferences over several products with a single catalog lookup
+ */
+export async function checkProductsReferences(
+  products: Array<ProductReferences & { _id?: unknown }>,
+  fields?: ReferenceField[]
+): Promise<ReferenceIssue[]> {
+  const catalog = await loadReferenceCatalog(products);
+  return products.flatMap(product => findIssues(product, catalog, fields).map(issue => ({
+    ...issue,
+    ...(product._id !== undefined ? { productId: String(product._id) } : {})
+  })));
+}
+
+export function describeReferenceIssue(issue: ReferenceIssue): string {
+  return `${ISSUE_MESSAGES[issue.field]}: ${issue.value}`;
+}
+
+/**
+ * A ValidationError with one entry per offending field, like the ones save() raises
+ */
+export function toReferenceValidationError(issues: ReferenceIssue[]): mongoose.Error.ValidationError {
+  const error = new mongoose.Error.ValidationError();
+  for (const field of [...new Set(issues.map(issue => issue.field))]) {
+    const values = [...new Set(issues.filter(issue => issue.field === field).map(issue => issue.value))];
+    error.addError(field, new mongoose.Error.ValidatorError({
+      path: field,
+      message: `${ISSUE_MESSAGES[field]}: ${values.join(', ')}`,
+      value: values.join(', '),
+    }));
+  }
+  return error;
+}
+
+/**
+ * Scan every product for references to missing brands, categories or suppliers and for
+ * subcategories of another category. With `repair`, foreign subcategories are removed and missing
+ * references are replaced by the ids in `reasignar`; anything else is only reported.
+ */
+export async function scanProductReferences(options: ReferenceScanOptions = {}): Promise<ReferenceScanReport> {
+  const { repair = false, reasignar = {}, batchSize = 500 } = options;
+  const Product = mongoose.models.Product;
+  const catalog = await loadReferenceCatalog();
+  const report: ReferenceScanReport = { scanned: 0, issues: [], repaired: 0 };
+  const repairedIds: unknown[] = [];
+
+  for (const field of REASSIGNABLE_FIELDS) {
+    const replacement = reasignar[field];
+    if (replacement && findIssues({ [field]: replacement }, catalog, [field]).length > 0) {
+      throw new Error(`El reemplazo para ${field} no existe: ${replacement}`);
+    }
+  }
+
+  let operations: any[] = [];
+  const flush = async () => {
+    if (operations.length > 0) {
+      const result = await Product.bulkWrite(operations);
+      report.repaired += result.modifiedCount;
+      operations = [];
+    }
+  };
+
+  const cursor = Product.find({}, { marcaId: 1, categoriaId: 1, proveedorId: 1, subcategoriaIds: 1 }).lean().cursor();
+
+  for await (const product of cursor) {
+    report.scanned++;
+    const issues = findIssues(product as ProductReferences, catalog);
+    if (issues.length === 0) continue;
+
+    report.issues.push(...issues.map(issue => ({ ...issue, productId: String(product._id) })));
+    if (!repair) continue;
+
+    const repaired: ProductReferences = { ...(product as ProductReferences) };
+    for (const field of REASSIGNABLE_FIELDS) {
+      if (reasignar[field] && issues.some(issue => issue.field === field)) {
+        repaired[field] = reasignar[field];
+      }
+    }
+    const subcategorias = catalog.categoriaId.get(String(repaired.categoriaId));
+    if (subcategorias) {
+      repaired.subcategoriaIds = (repaired.subcategoriaIds || []).filter(id => subcategorias.has(String(id)));
+    }
+
+    const $set: Record<string, any> = {};
+    for (const field of ['marcaId', 'categoriaId', 'proveedorId', 'subcategoriaIds'] as const) {
+      if (String(repaired[field]) !== String((product as any)[field])) {
+        $set[field] = repaired[field];
+      }
+    }
+    if (Object.keys($set).length > 0) {
+      operations.push({ updateOne: { filter: { _id: product._id }, update: { $set } } });
+      repairedIds.push(product._id);
+    }
+    if (operations.length >= batchSize) {
+      await flush();
+    }
+  }
+  await flush();
+
+  // bulkWrite skips the save hooks that derive these from the category
+  if (repairedIds.length > 0) {
+    await recalculateEffectiveThresholds({ _id: { $in: repairedIds } });
+    await regenerateProductNames({ _id: { $in: repairedIds } });
+  }
+
+  return report;
+}
+
+/**
+ * Convert brand, category, supplier and subcategory ids stored as strings to ObjectId, so they
+ * populate and join. Works on the raw collection, since the schema would cast or reject the old
+ * values. Strings that are not ids are reported and left for scanProductReferences to repair.
+ * Run it once after upgrading.
+ */
+export async function migrateReferenceIds(
+  options: ReferenceIdMigrationOptions = {}
+): Promise<ReferenceIdMigrationResult> {
+  const { dryRun = false } = options;
+  const collection = mongoose.models.Product.collection;
+  const result: ReferenceIdMigrationResult = {
+    dryRun,
+    converted: { marcaId: 0, categoriaId: 0, proveedorId: 0, subcategoriaIds: 0 },
+    invalid: [],
+  };
+
+  const invalidValue = { $type: 'string', $not: OBJECT_ID_PATTERN };
+  const invalidProducts = await collection.find(
+    {
+      $or: [
+        ...REASSIGNABLE_FIELDS.map(field => ({ [field]: invalidValue })),
+        { subcategoriaIds: { $elemMatch: invalidValue } }
+      ]
+    },
+    { projection: { marcaId: 1, categoriaId: 1, proveedorId: 1, subcategoriaIds: 1 } }
+  ).toArray();
+
+  for (const product of invalidProducts) {
+    for (const field of REASSIGNABLE_FIELDS) {
+      const value = product[field];
+      if (typeof value === 'string' && !OBJECT_ID_PATTERN.test(value)) {
+        result.invalid.push({ productId: String(product._id), field, value, problema: 'id-invalido' });
+      }
+    }
+    for (const value of product.subcategoriaIds || []) {
+      if (typeof value === 'string' && !OBJECT_ID_PATTERN.test(value)) {
+        result.invalid.push({ productId: String(product._id), field: 'subcategoriaIds', value, problema: 'id-invalido' });
+      }
+    }
+  }
+
+  for (const field of REASSIGNABLE_FIELDS) {
+    const filter = { [field]: { $type: 'string', $regex: OBJECT_ID_PATTERN } };
+    result.converted[field] = dryRun
+      ? await collection.countDocuments(filter)
+      : (await collection.updateMany(filter, [{ $set: { [field]: { $toObjectId: `$${field}` } } }])).modifiedCount;
+  }
+
+  const subcategoriasFilter = { subcategoriaIds: { $elemMatch: { $type: 'string', $regex: OBJECT_ID_PATTERN } } };
+  result.converted.subcategoriaIds = dryRun
+    ? await collection.countDocuments(subcategoriasFilter)
+    : (await collection.updateMany(subcategoriasFilter, [{
+      $set: {
+        subcategoriaIds: {
+          $map: {
+            input: '$subcategoriaIds',
+            as: 'id',
+            in: {
+              $cond: [
+                {
+                  $and: [
+                    { $eq: [{ $type: '$$id' }, 'string'] },
+                    { $regexMatch: { input: '$$id', regex: OBJECT_ID_PATTERN.source } }
+                  ]
+                },
+                { $toObjectId: '$$id' },
+                '$$id'
+              ]
+            }
+          }
+        }
+      }
+    }])).modifiedCount;
+
+  return result;
+}
\ No newline at end of file
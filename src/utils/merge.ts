@@ -0,0 +1,226 @@
+import mongoose, { Schema } from 'mongoose';
+import { MergeableEntity } from '../types';
+import { normalizeSearchText } from './search';
+import { regenerateProductNames } from './productName';
+import { ClearedSupplierCode, transferSupplierCosts } from './supplierCosts';
+import { transferPurchaseOrders } from './purchaseOrders';
+
+export interface DuplicateNameGroup {
+  nombreNormalizado: string;
+  items: Array<{ _id: string; nombre: string }>;
+}
+
+export interface MergeOptions {
+  reason?: string;
+  userId?: string;
+}
+
+export interface MergeResult {
+  targetId: string;
+  merged: number; // Duplicates deleted
+  productCount: number; // Products moved to the surviving record
+  logId: string; // CatalogMerge entry
+  clearedSupplierCodes?: ClearedSupplierCode[]; // Suppliers only: codes the target already used
+}
+
+export interface NormalizedNameSyncResult {
+  updated: number;
+  duplicates: DuplicateNameGroup[]; // Left without a normalized name until merged
+}
+
+const PRODUCT_FIELDS: Record<MergeableEntity, 'marcaId' | 'proveedorId'> = {
+  Brand: 'marcaId',
+  Supplier: 'proveedorId',
+};
+
+const NAME_TAKEN_MESSAGES: Record<MergeableEntity, string> = {
+  Brand: 'Ya existe una marca con ese nombre',
+  Supplier: 'Ya existe un proveedor con ese nombre',
+};
+
+const NOT_FOUND_MESSAGES: Record<MergeableEntity, string> = {
+  Brand: 'Marca no encontrada',
+  Supplier: 'Proveedor no encontrado',
+};
+
+/**
+ * Name as compared for uniqueness: "SAMSUNG ", "Samsung" and "Sámsung" are the same name
+ */
+export function normalizeEntityName(nombre: string): string {
+  return normalizeSearchText(nombre);
+}
+
+/**
+ * Keep `nombreNormalizado` in step with `nombre` and refuse names that differ from an existing
+ * one only in case, accents, spacing or punctuation
+ */
+export function guardUniqueName(schema: Schema, entity: MergeableEntity): void {
+  schema.pre('validate', async function() {
+    const doc = this as any;
+    const renamed = doc.isNew || doc.isModified('nombre');
+    if (!renamed && doc.nombreNormalizado) return;
+
+    const nombreNormalizado = normalizeEntityName(doc.nombre);
+    const existing: any = await (doc.constructor as mongoose.Model<any>).findOne(
+      { _id: { $ne: doc._id }, nombreNormalizado },
+      { nombre: 1 }
+    ).session(doc.$session()).lean();
+
+    if (existing) {
+      // Duplicates saved before names were normalized can still be edited until merged
+      if (renamed) {
+        doc.invalidate('nombre', `${NAME_TAKEN_MESSAGES[entity]}: ${existing.nombre}`, doc.nombre);
+      }
+      return;
+    }
+    doc.nombreNormalizado = nombreNormalizado;
+  });
+
+  // Renames through update queries; the unique index refuses duplicates
+  schema.pre(['updateOne', 'findOneAndUpdate'], function() {
+    const update: any = this.getUpdate();
+    const nombre = update?.$set?.nombre ?? update?.nombre;
+    if (typeof nombre === 'string') {
+      this.set('nombreNormalizado', normalizeEntityName(nombre));
+    }
+  });
+}
+
+/**
+ * Groups of brands or suppliers whose names are equal once normalized, to be merged
+ */
+export async function findDuplicateNames(entity: MergeableEntity): Promise<DuplicateNameGroup[]> {
+  const docs = await mongoose.models[entity].find({}, { nombre: 1 }).lean() as any[];
+
+  const groups = new Map<string, DuplicateNameGroup['items']>();
+  for (const doc of docs) {
+    const key = normalizeEntityName(doc.nombre);
+    groups.set(key, [...(groups.get(key) || []), { _id: String(doc._id), nombre: doc.nombre }]);
+  }
+
+  return [...groups.entries()]
+    .filter(([, items]) => items.length > 1)
+    .map(([nombreNormalizado, items]) => ({ nombreNormalizado, items }));
+}
+
+/**
+ * Fill in `nombreNormalizado` on records saved before it existed. Duplicated names are skipped
+ * and returned: merge them and run this again.
+ */
+export async function syncNormalizedNames(entity: MergeableEntity): Promise<NormalizedNameSyncResult> {
+  const model = mongoose.models[entity];
+  const duplicates = await findDuplicateNames(entity);
+  const duplicated = new Set(duplicates.flatMap(group => group.items.map(item => item._id)));
+
+  const docs = await model.find({}, { nombre: 1, nombreNormalizado: 1 }).lean() as any[];
+  const operations = docs
+    .filter(doc => !duplicated.has(String(doc._id)))
+    .filter(doc => doc.nombreNormalizado !== normalizeEntityName(doc.nombre))
+    .map(doc => ({
+      updateOne: { filter: { _id: doc._id }, update: { $set: { nombreNormalizado: normalizeEntityName(doc.nombre) } } }
+    }));
+
+  if (operations.length > 0) {
+    await model.bulkWrite(operations);
+  }
+  return { updated: operations.length, duplicates };
+}
+
+/**
+ * Merge duplicated brands or suppliers into `targetId`: their products move to it, they are
+ * deleted and the merge is logged in CatalogMerge, all in one transaction. Merged brands leave
+ * their slugs in the target's `slugsAnteriores`, so their URLs redirect to it; merged suppliers
+ * hand over their product costs where the target has none.
+ */
+export async function mergeCatalogEntities(
+  entity: MergeableEntity,
+  targetId: string,
+  duplicateIds: string[],
+  options: MergeOptions = {}
+): Promise<MergeResult> {
+  const model = mongoose.models[entity];
+  const field = PRODUCT_FIELDS[entity];
+
+  const ids = [...new Set(duplicateIds.map(String))];
+  if (ids.length === 0) {
+    throw new Error('Debe indicar al menos un registro duplicado');
+  }
+  if (ids.includes(String(targetId))) {
+    throw new Error('El registro que se conserva no puede estar entre los duplicados');
+  }
+  const invalid = [String(targetId), ...ids].find(id => !mongoose.isValidObjectId(id));
+  if (invalid) {
+    throw new Error(`${NOT_FOUND_MESSAGES[entity]}: ${invalid}`);
+  }
+
+  const target: any = await model.findById(targetId, { nombre: 1 }).lean();
+  if (!target) {
+    throw new Error(`${NOT_FOUND_MESSAGES[entity]}: ${targetId}`);
+  }
+  const duplicates = await model.find({ _id: { $in: ids } }, { nombre: 1, slug: 1, slugsAnteriores: 1 }).lean() as any[];
+  const missing = ids.find(id => !duplicates.some(duplicate => String(duplicate._id) === id));
+  if (missing) {
+    throw new Error(`${NOT_FOUND_MESSAGES[entity]}: ${missing}`);
+  }
+
+  const duplicateObjectIds = duplicates.map(duplicate => duplicate._id);
+  const session = await mongoose.startSession();
+  let movedIds: unknown[] = [];
+  let logId = '';
+  let clearedSupplierCodes: ClearedSupplierCode[] = [];
+
+  try {
+    await session.withTransaction(async () => {
+      const Product = mongoose.models.Product;
+      movedIds = await Product.find({ [field]: { $in: duplicateObjectIds } }).session(session).distinct('_id');
+      await Product.updateMany(
+        { [field]: { $in: duplicateObjectIds } },
+        { $set: { [field]: target._id } },
+        { session }
+      );
+
+      if (entity === 'Supplier') {
+        clearedSupplierCodes = await transferSupplierCosts(duplicateObjectIds, target._id, session);
+        await transferPurchaseOrders(duplicateObjectIds, target._id, session);
+      }
+      await model.deleteMany({ _id: { $in: duplicateObjectIds } }, { session });
+
+      const slugs = duplicates.flatMap(duplicate => [duplicate.slug, ...(duplicate.slugsAnteriores || [])]).filter(Boolean);
+      await model.updateOne(
+        { _id: target._id },
+        {
+          $set: { nombreNormalizado: normalizeEntityName(target.nombre) },
+          ...(entity === 'Brand' && slugs.length > 0 ? { $addToSet: { slugsAnteriores: { $each: slugs } } } : {})
+        },
+        { session }
+      );
+
+      const [log] = await mongoose.models.CatalogMerge.create([{
+        entity,
+        targetId: String(target._id),
+        targetName: target.nombre,
+        mergedIds: duplicateObjectIds.map(String),
+        mergedNames: duplicates.map(duplicate => duplicate.nombre),
+        productCount: movedIds.length,
+        reason: options.reason,
+        userId: options.userId,
+      }], { session });
+      logId = String(log._id);
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  // Product names include the brand
+  if (entity === 'Brand' && movedIds.length > 0) {
+    await regenerateProductNames({ _id: { $in: movedIds } });
+  }
+
+  return {
+    targetId: String(target._id),
+    merged: duplicates.length,
+    productCount: movedIds.length,
+    logId,
+    ...(entity === 'Supplier' ? { clearedSupplierCodes } : {})
+  };
+}
\ No newline at end of file
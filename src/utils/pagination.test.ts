@@ -0,0 +1,81 @@
+import mongoose from 'mongoose';
+import { buildKeysetFilter, decodeCursor, encodeCursor, keysetSort, toCursorPage } from './pagination';
+
+const id = new mongoose.Types.ObjectId('650000000000000000000001');
+
+describe('encodeCursor / decodeCursor', () => {
+  it('round-trips the sort value and id', () => {
+    const token = encodeCursor('precio', 1, { _id: id, precio: 1500 });
+    const position = decodeCursor(token, 'precio', 1);
+
+    expect(position.value).toBe(1500);
+    expect(position.id.equals(id)).toBe(true);
+  });
+
+  it('keeps dates as dates and missing values as null', () => {
+    const fecha = new Date('2024-03-01T12:00:00.000Z');
+    expect(decodeCursor(encodeCursor('fecha', -1, { _id: id, fecha }), 'fecha', -1).value).toEqual(fecha);
+    expect(decodeCursor(encodeCursor('fecha', -1, { _id: id }), 'fecha', -1).value).toBeNull();
+  });
+
+  it('rejects a token issued for another order', () => {
+    const token = encodeCursor('precio', 1, { _id: id, precio: 1500 });
+    expect(() => decodeCursor(token, 'precio', -1)).toThrow('El cursor de paginación no corresponde al orden solicitado');
+    expect(() => decodeCursor(token, 'nombre', 1)).toThrow('El cursor de paginación no corresponde al orden solicitado');
+  });
+
+  it('rejects malformed tokens', () => {
+    expect(() => decodeCursor('no-es-un-cursor', 'precio', 1)).toThrow('Cursor de paginación inválido');
+    const sinId = Buffer.from(JSON.stringify({ s: 'precio', o: 1, v: 1, id: 'x' })).toString('base64url');
+    expect(() => decodeCursor(sinId, 'precio', 1)).toThrow('Cursor de paginación inválido');
+  });
+});
+
+describe('keysetSort', () => {
+  it('breaks ties by _id in the same direction', () => {
+    expect(keysetSort('precio', -1)).toEqual({ precio: -1, _id: -1 });
+    expect(keysetSort('_id', 1)).toEqual({ _id: 1 });
+  });
+});
+
+describe('buildKeysetFilter', () => {
+  it('selects larger values, or the same value with a larger id, ascending', () => {
+    expect(buildKeysetFilter('precio', 1, { value: 100, id })).toEqual({
+      $or: [{ precio: { $gt: 100 } }, { precio: 100, _id: { $gt: id } }]
+    });
+  });
+
+  it('also selects missing values, which sort last, descending', () => {
+    expect(buildKeysetFilter('precio', -1, { value: 100, id })).toEqual({
+      $or: [{ precio: { $lt: 100 } }, { precio: 100, _id: { $lt: id } }, { precio: null }]
+    });
+  });
+
+  it('continues after a missing value', () => {
+    expect(buildKeysetFilter('precio', 1, { value: null, id })).toEqual({
+      $or: [{ precio: { $ne: null } }, { precio: null, _id: { $gt: id } }]
+    });
+    expect(buildKeysetFilter('precio', -1, { value: null, id })).toEqual({ precio: null, _id: { $lt: id } });
+  });
+
+  it('only compares ids when sorting by _id', () => {
+    expect(buildKeysetFilter('_id', -1, { value: id, id })).toEqual({ _id: { $lt: id } });
+  });
+});
+
+describe('toCursorPage', () => {
+  it('drops the extra document and points the cursor at the last item', () => {
+    const docs = [1, 2, 3].map(n => ({ _id: new mongoose.Types.ObjectId(), n }));
+    const page = toCursorPage(docs, 2, 'n', 1, 10);
+
+    expect(page.items).toEqual(docs.slice(0, 2));
+    expect(page.hasNextPage).toBe(true);
+    expect(page.total).toBe(10);
+    expect(decodeCursor(page.nextCursor!, 'n', 1).value).toBe(2);
+  });
+
+  it('has no cursor on the last page', () => {
+    const page = toCursorPage([{ _id: id, n: 1 }], 2, 'n', 1);
+    expect(page).toEqual({ items: [{ _id: id, n: 1 }], nextCursor: null, hasNextPage: false });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,157 @@
+import mongoose, { Model, Query } from 'mongoose';
+
+export type SortDirection = 1 | -1;
+
+export interface CursorPaginationOptions {
+  cursor?: string; // nextCursor of the previous page; omit for the first page
+  limit?: number;
+  includeTotal?: boolean; // Count every match, which costs a countDocuments per call
+}
+
+export interface CursorPage<T = any> {
+  items: T[];
+  nextCursor: string | null;
+  hasNextPage: boolean;
+  total?: number;
+}
+
+export interface KeysetPosition {
+  value: unknown;
+  id: mongoose.Types.ObjectId;
+}
+
+interface CursorPayload {
+  s: string; // Sort field
+  o: SortDirection;
+  v: unknown; // Sort value of the last item, dates as { $date }
+  id: string;
+}
+
+function encodeValue(value: unknown): unknown {
+  return value instanceof Date ? { $date: value.toISOString() } : value ?? null;
+}
+
+function decodeValue(value: any): unknown {
+  return value && typeof value === 'object' && typeof value.$date === 'string' ? new Date(value.$date) : value;
+}
+
+/**
+ * Opaque token pointing just after the given document in the given order
+ */
+export function encodeCursor(sortField: string, direction: SortDirection, doc: any): string {
+  const payload: CursorPayload = {
+    s: sortField,
+    o: direction,
+    v: encodeValue(doc[sortField]),
+    id: String(doc._id),
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Read a token produced by encodeCursor. A token issued for another order is rejected,
+ * since it would skip or repeat results.
+ */
+export function decodeCursor(token: string, sortField: string, direction: SortDirection): KeysetPosition {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Cursor de paginación inválido');
+  }
+
+  if (!payload || !mongoose.isValidObjectId(payload.id)) {
+    throw new Error('Cursor de paginación inválido');
+  }
+  if (payload.s !== sortField || payload.o !== direction) {
+    throw new Error('El cursor de paginación no corresponde al orden solicitado');
+  }
+
+  return { value: decodeValue(payload.v), id: new mongoose.Types.ObjectId(payload.id) };
+}
+
+export function keysetSort(sortField: string, direction: SortDirection): Record<string, SortDirection> {
+  return sortField === '_id' ? { _id: direction } : { [sortField]: direction, _id: direction };
+}
+
+/**
+ * Filter selecting the documents after `position` when sorting by the field and `_id`.
+ * Missing values sort first ascending and last descending, as MongoDB orders them.
+ */
+export function buildKeysetFilter(
+  sortField: string,
+  direction: SortDirection,
+  position: KeysetPosition
+): Record<string, any> {
+  const after = direction === 1 ? '$gt' : '$lt';
+  const idAfter = { _id: { [after]: position.id } };
+
+  if (sortField === '_id') return idAfter;
+
+  if (position.value === null || position.value === undefined) {
+    return direction === 1
+      ? { $or: [{ [sortField]: { $ne: null } }, { [sortField]: null, ...idAfter }] }
+      : { [sortField]: null, ...idAfter };
+  }
+
+  const branches: Record<string, any>[] = [
+    { [sortField]: { [after]: position.value } },
+    { [sortField]: position.value, ...idAfter }
+  ];
+  if (direction === -1) {
+    branches.push({ [sortField]: null });
+  }
+  return { $or: branches };
+}
+
+/**
+ * Build the page from `limit + 1` fetched documents
+ */
+export function toCursorPage<T>(
+  docs: T[],
+  limit: number,
+  sortField: string,
+  direction: SortDirection,
+  total?: number
+): CursorPage<T> {
+  const hasNextPage = docs.length > limit;
+  const items = hasNextPage ? docs.slice(0, limit) : docs;
+
+  return {
+    items,
+    nextCursor: hasNextPage ? encodeCursor(sortField, direction, items[items.length - 1]) : null,
+    hasNextPage,
+    ...(total !== undefined ? { total } : {})
+  };
+}
+
+/**
+ * Fetch one page of lean documents with keyset pagination. `customize` can add populate or
+ * projection to the query.
+ */
+export async function findCursorPage<T = any>(
+  model: Model<any>,
+  filter: Record<string, any>,
+  sortField: string,
+  direction: SortDirection,
+  options: CursorPaginationOptions = {},
+  customize?: (query: Query<any, any>) => Query<any, any>
+): Promise<CursorPage<T>> {
+  const { cursor, limit = 20, includeTotal = false } = options;
+
+  const pageFilter = cursor
+    ? { $and: [filter, buildKeysetFilter(sortField, direction, decodeCursor(cursor, sortField, direction))] }
+    : filter;
+
+  let query = model.find(pageFilter).sort(keysetSort(sortField, direction)).limit(limit + 1);
+  if (customize) {
+    query = customize(query);
+  }
+
+  const [docs, total] = await Promise.all([
+    query.lean(),
+    includeTotal ? model.countDocuments(filter) : Promise.resolve(undefined)
+  ]);
+
+  return toCursorPage(docs as T[], limit, sortField, direction, total);
+}
\ No newline at end of file
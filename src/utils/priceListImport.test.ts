@@ -0,0 +1,112 @@
+import mongoose from 'mongoose';
+import { Product } from '../models/Product';
+import { SupplierCost } from '../models/SupplierCost';
+import { matchPriceList, parsePriceAmount, parsePriceList, PriceListRow } from './priceListImport';
+
+describe('parsePriceAmount', () => {
+  it('reads the last separator as the decimal one', () => {
+    expect(parsePriceAmount('$ 1.234,56')).toBe(1234.56);
+    expect(parsePriceAmount('1,234.56')).toBe(1234.56);
+    expect(parsePriceAmount('1234,5')).toBe(1234.5);
+    expect(parsePriceAmount('USD 99')).toBe(99);
+  });
+
+  it('reads a lone separator before three digits as thousands', () => {
+    expect(parsePriceAmount('$ 12.500')).toBe(12500);
+    expect(parsePriceAmount('1,234')).toBe(1234);
+    expect(parsePriceAmount('1.234.567')).toBe(1234567);
+  });
+
+  it('keeps decimals that cannot be thousands', () => {
+    expect(parsePriceAmount('0.500')).toBe(0.5);
+    expect(parsePriceAmount('1234.500')).toBe(1234.5);
+    expect(parsePriceAmount('12.50')).toBe(12.5);
+  });
+
+  it('follows separadorDecimal when given', () => {
+    expect(parsePriceAmount('1.250', '.')).toBe(1.25);
+    expect(parsePriceAmount('1.250', ',')).toBe(1250);
+    expect(parsePriceAmount('1.234,5', ',')).toBe(1234.5);
+  });
+
+  it('returns null without digits', () => {
+    expect(parsePriceAmount('')).toBeNull();
+    expect(parsePriceAmount('consultar')).toBeNull();
+  });
+});
+
+describe('parsePriceList', () => {
+  const csv = [
+    'Código;Descripción;EAN;Precio;Moneda',
+    'SAM-55;Televisor 55";779-8001-23456-7;$ 450.000;',
+    'SAM-65;Televisor 65";;consultar;',
+    ';Cable HDMI;;1.500,50;usd',
+    'SAM-32;Televisor 32";;1000;PESOS',
+  ].join('\n');
+
+  const rows = parsePriceList(csv, {
+    columnas: { codigoProveedor: 'codigo', descripcion: 'Descripción', codigoBarras: 'ean', costo: 'precio', moneda: 'Moneda' }
+  });
+
+  it('maps columns by header name, ignoring case and accents', () => {
+    expect(rows[0]).toEqual({
+      fila: 2,
+      codigoProveedor: 'SAM-55',
+      codigoBarras: '7798001234567',
+      codigoInterno: undefined,
+      descripcion: 'Televisor 55"',
+      costo: 450000,
+      moneda: 'ARS',
+      status: 'ok',
+    });
+  });
+
+  it('marks rows without a cost, codes or a valid currency as invalid', () => {
+    expect(rows[1]).toMatchObject({ fila: 3, status: 'invalido', mensaje: 'Costo inválido: consultar' });
+    expect(rows[2]).toMatchObject({
+      costo: 1500.5,
+      moneda: 'USD',
+      status: 'invalido',
+      mensaje: 'La fila no tiene código de proveedor, código de barras ni código interno'
+    });
+    expect(rows[3]).toMatchObject({ status: 'invalido', mensaje: 'Moneda inválida: PESOS' });
+  });
+
+  it('reads columns by position without a header', () => {
+    const [row] = parsePriceList('A1,10.5', { encabezado: false, columnas: { codigoInterno: 0, costo: 1 }, moneda: 'usd' });
+    expect(row).toMatchObject({ fila: 1, codigoInterno: 'A1', costo: 10.5, moneda: 'USD', status: 'ok' });
+  });
+
+  it('rejects unknown columns', () => {
+    expect(() => parsePriceList(csv, { columnas: { costo: 'costo' } }))
+      .toThrow("No se encontró la columna 'costo' (columnas: Código, Descripción, EAN, Precio, Moneda)");
+    expect(() => parsePriceList('A1,10', { encabezado: false, columnas: { costo: 'costo' } }))
+      .toThrow("La columna 'costo' requiere un encabezado; use su posición");
+  });
+});
+
+describe('matchPriceList', () => {
+  const productId = new mongoose.Types.ObjectId();
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('matches barcodes of products the barcode index was never built for', async () => {
+    jest.spyOn(SupplierCost, 'find').mockReturnValue({ lean: async () => [] } as any);
+    const find = jest.spyOn(Product, 'find').mockImplementation(((filter: any) => ({
+      lean: async () => {
+        if (filter.$or) return [{ _id: productId, codigoBarras: '7790001000019' }];
+        if (filter._id) return [{ _id: productId, nombre: 'Vinilo', codigoInterno: 'P-1', precio: 100 }];
+        return [];
+      }
+    })) as any);
+    const row: PriceListRow = { fila: 2, codigoBarras: '7790001000019', costo: 50, moneda: 'ARS', status: 'ok' };
+
+    const [matched] = await matchPriceList([row], String(new mongoose.Types.ObjectId()));
+
+    expect(find).toHaveBeenCalledWith(
+      { $or: expect.arrayContaining([{ codigoBarras: { $in: ['7790001000019'] } }]) },
+      expect.anything()
+    );
+    expect(matched).toMatchObject({ status: 'ok', coincidencia: 'codigoBarras', productId: String(productId) });
+  });
+});
\ No newline at end of file
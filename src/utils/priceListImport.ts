@@ -0,0 +1,234 @@
+import mongoose from 'mongoose';
+import { parseCsv } from './csv';
+import { collectProductBarcodes, normalizeBarcode, PRODUCT_BARCODE_FIELDS, productBarcodeFilter } from './barcodes';
+import { normalizeSearchText } from './search';
+import { MONEDA_BASE } from './supplierCosts';
+
+export type PriceListColumn = string | number; // Header name, or zero-based position
+
+export interface PriceListColumnMapping {
+  costo: PriceListColumn;
+  codigoProveedor?: PriceListColumn;
+  codigoBarras?: PriceListColumn;
+  codigoInterno?: PriceListColumn;
+  descripcion?: PriceListColumn;
+  moneda?: PriceListColumn;
+}
+
+export interface PriceListParseOptions {
+  columnas: PriceListColumnMapping;
+  delimitador?: string; // Detected from the first line when omitted
+  encabezado?: boolean; // The first row holds the column names (default: true)
+  separadorDecimal?: ',' | '.'; // Guessed from each value when omitted
+  moneda?: string; // Currency of rows without a moneda column (default: MONEDA_BASE)
+}
+
+export type PriceListMatchField = 'codigoProveedor' | 'codigoBarras' | 'codigoInterno';
+
+export type PriceListRowStatus = 'ok' | 'sin-cambios' | 'sin-coincidencia' | 'ambiguo' | 'invalido';
+
+export interface PriceListCandidate {
+  productId: string;
+  nombre: string;
+  codigoInterno: string;
+  coincidencia: PriceListMatchField;
+}
+
+export interface PriceListRow {
+  fila: number; // Row number in the file, counting the header and not blank lines
+  codigoProveedor?: string;
+  codigoBarras?: string;
+  codigoInterno?: string;
+  descripcion?: string;
+  costo: number | null;
+  moneda: string;
+  status: PriceListRowStatus;
+  mensaje?: string; // Why the row is not applied
+  coincidencia?: PriceListMatchField;
+  productId?: string;
+  productNombre?: string;
+  candidatos?: PriceListCandidate[]; // Products the row's codes point to, when they disagree
+  costoAnterior?: number | null; // Null when the supplier had no cost for the product
+  monedaAnterior?: string;
+  codigoProveedorAnterior?: string;
+  precioAnterior?: number;
+  precioNuevo?: number; // Set when sale prices are updated from the cost
+}
+
+const MATCH_ORDER: PriceListMatchField[] = ['codigoProveedor', 'codigoBarras', 'codigoInterno'];
+
+/**
+ * Parse a price amount as suppliers write it: "$ 1.234,56", "1,234.56", "$ 12.500", "1234,5" or
+ * "USD 99". Without `separadorDecimal`, the last separator is the decimal one, unless it repeats
+ * or it is the only separator and groups exactly three digits after a 1-3 digit integer part
+ * ("12.500" is 12500, "0.500" and "1234.500" are decimals).
+ */
+export function parsePriceAmount(value: string, separadorDecimal?: ',' | '.'): number | null {
+  const text = String(value ?? '').replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(text)) return null;
+
+  let decimal = separadorDecimal;
+  if (!decimal) {
+    const last = Math.max(text.lastIndexOf(','), text.lastIndexOf('.'));
+    const separator = last >= 0 ? text[last] as ',' | '.' : undefined;
+    const other = separator === '.' ? ',' : '.';
+    const groupsThousands = separator !== undefined && !text.includes(other)
+      && (text.split(separator).length > 2 || /^-?0*[1-9]\d{0,2}[.,]\d{3}$/.test(text));
+    decimal = separator && !groupsThousands ? separator : other;
+  }
+
+  const thousands = decimal === ',' ? '.' : ',';
+  const amount = Number(text.split(thousands).join('').replace(decimal, '.'));
+  return Number.isFinite(amount) ? amount : null;
+}
+
+function columnIndex(header: string[] | null, column: PriceListColumn | undefined): number {
+  if (column === undefined) return -1;
+  if (typeof column === 'number') return column;
+  if (!header) {
+    throw new Error(`La columna '${column}' requiere un encabezado; use su posición`);
+  }
+
+  const index = header.findIndex(name => normalizeSearchText(name) === normalizeSearchText(column));
+  if (index < 0) {
+    throw new Error(`No se encontró la columna '${column}' (columnas: ${header.join(', ')})`);
+  }
+  return index;
+}
+
+/**
+ * Read the rows of a supplier's CSV price list through the column mapping. Rows without a valid
+ * cost or without any code come back 'invalido'; the rest still have to be matched.
+ */
+export function parsePriceList(text: string, options: PriceListParseOptions): PriceListRow[] {
+  const { columnas, delimitador, encabezado = true, separadorDecimal, moneda = MONEDA_BASE } = options;
+  const records = parseCsv(text, delimitador);
+  const header = encabezado ? records[0] || [] : null;
+
+  const indexes = Object.fromEntries(
+    (Object.keys(columnas) as Array<keyof PriceListColumnMapping>).map(key => [key, columnIndex(header, columnas[key])])
+  ) as Record<keyof PriceListColumnMapping, number>;
+  const cell = (record: string[], key: keyof PriceListColumnMapping) =>
+    indexes[key] >= 0 ? (record[indexes[key]] ?? '').trim() || undefined : undefined;
+
+  return records.slice(encabezado ? 1 : 0).map((record, index) => {
+    const costo = parsePriceAmount(cell(record, 'costo') ?? '', separadorDecimal);
+    const codigoBarras = cell(record, 'codigoBarras');
+    const row: PriceListRow = {
+      fila: index + (encabezado ? 2 : 1),
+      codigoProveedor: cell(record, 'codigoProveedor'),
+      codigoBarras: codigoBarras ? normalizeBarcode(codigoBarras) : undefined,
+      codigoInterno: cell(record, 'codigoInterno'),
+      descripcion: cell(record, 'descripcion'),
+      costo,
+      moneda: (cell(record, 'moneda') ?? moneda).toUpperCase(),
+      status: 'ok',
+    };
+
+    if (costo === null || costo < 0) {
+      row.status = 'invalido';
+      row.mensaje = `Costo inválido: ${cell(record, 'costo') ?? '(vacío)'}`;
+    } else if (!/^[A-Z]{3}$/.test(row.moneda)) {
+      row.status = 'invalido';
+      row.mensaje = `Moneda inválida: ${row.moneda}`;
+    } else if (!row.codigoProveedor && !row.codigoBarras && !row.codigoInterno) {
+      row.status = 'invalido';
+      row.mensaje = 'La fila no tiene código de proveedor, código de barras ni código interno';
+    }
+    return row;
+  });
+}
+
+/**
+ * Match parsed rows to products by the supplier's stored SKU, then barcode, then internal code.
+ * Rows whose codes point to different products, or that repeat a product or SKU of an earlier
+ * row, are 'ambiguo'; rows matching nothing are 'sin-coincidencia'. Matched rows carry the
+ * supplier's current cost and the product's price.
+ */
+export async function matchPriceList(rows: PriceListRow[], proveedorId: string): Promise<PriceListRow[]> {
+  const Product = mongoose.models.Product;
+  const SupplierCost = mongoose.models.SupplierCost;
+  const pending = rows.filter(row => row.status === 'ok');
+
+  const values = (field: PriceListMatchField) => [...new Set(pending.map(row => row[field]).filter(Boolean))] as string[];
+  const [bySku, byBarcode, byCode] = await Promise.all([
+    SupplierCost.find({ proveedorId, codigoProveedor: { $in: values('codigoProveedor') } }, { productId: 1, codigoProveedor: 1 }).lean(),
+    Product.find(productBarcodeFilter(values('codigoBarras')), PRODUCT_BARCODE_FIELDS).lean(),
+    Product.find({ codigoInterno: { $in: values('codigoInterno') } }, { codigoInterno: 1 }).lean()
+  ]) as any[][];
+
+  const lookups: Record<PriceListMatchField, Map<string, string>> = {
+    codigoProveedor: new Map(bySku.map(cost => [cost.codigoProveedor, String(cost.productId)])),
+    codigoBarras: new Map(byBarcode.flatMap(product =>
+      collectProductBarcodes(product).map(codigo => [codigo, String(product._id)] as [string, string]))),
+    codigoInterno: new Map(byCode.map(product => [product.codigoInterno, String(product._id)])),
+  };
+
+  const matches = pending.map(row => MATCH_ORDER
+    .filter(field => row[field] && lookups[field].has(row[field]!))
+    .map(field => ({ field, productId: lookups[field].get(row[field]!)! })));
+
+  const productIds = [...new Set(matches.flat().map(match => match.productId))];
+  const [products, costs] = await Promise.all([
+    Product.find({ _id: { $in: productIds } }, { nombre: 1, codigoInterno: 1, precio: 1 }).lean(),
+    SupplierCost.find({ proveedorId, productId: { $in: productIds } }, { productId: 1, costo: 1, moneda: 1, codigoProveedor: 1 }).lean()
+  ]) as any[][];
+  const productById = new Map(products.map(product => [String(product._id), product]));
+  const costByProduct = new Map(costs.map(cost => [String(cost.productId), cost]));
+
+  const seenProducts = new Map<string, number>();
+  const seenSkus = new Map<string, number>();
+
+  pending.forEach((row, index) => {
+    const found = matches[index].filter(match => productById.has(match.productId));
+    const distinct = [...new Set(found.map(match => match.productId))];
+
+    if (distinct.length === 0) {
+      row.status = 'sin-coincidencia';
+      row.mensaje = 'Ningún producto coincide con los códigos de la fila';
+      return;
+    }
+    if (distinct.length > 1) {
+      row.status = 'ambiguo';
+      row.mensaje = 'Los códigos de la fila corresponden a productos distintos';
+      row.candidatos = found.map(match => {
+        const product = productById.get(match.productId);
+        return { productId: match.productId, nombre: product.nombre, codigoInterno: product.codigoInterno, coincidencia: match.field };
+      });
+      return;
+    }
+
+    const product = productById.get(distinct[0]);
+    const cost = costByProduct.get(distinct[0]);
+    row.coincidencia = found[0].field;
+    row.productId = distinct[0];
+    row.productNombre = product.nombre;
+    row.precioAnterior = product.precio;
+    row.costoAnterior = cost ? cost.costo : null;
+    row.monedaAnterior = cost?.moneda;
+    row.codigoProveedorAnterior = cost?.codigoProveedor;
+
+    const repeatedProduct = seenProducts.get(row.productId!);
+    const repeatedSku = row.codigoProveedor ? seenSkus.get(row.codigoProveedor) : undefined;
+    if (repeatedProduct !== undefined || repeatedSku !== undefined) {
+      row.status = 'ambiguo';
+      row.mensaje = repeatedProduct !== undefined
+        ? `El producto ya aparece en la fila ${repeatedProduct}`
+        : `El código de proveedor ya aparece en la fila ${repeatedSku}`;
+      return;
+    }
+    seenProducts.set(row.productId!, row.fila);
+    if (row.codigoProveedor) seenSkus.set(row.codigoProveedor, row.fila);
+  });
+
+  return rows;
+}
+
+/**
+ * Number of rows in each status
+ */
+export function summarizePriceList(rows: PriceListRow[]): Record<PriceListRowStatus, number> & { total: number } {
+  const resumen = { total: rows.length, ok: 0, 'sin-cambios': 0, 'sin-coincidencia': 0, ambiguo: 0, invalido: 0 };
+  rows.forEach(row => resumen[row.status]++);
+  return resumen;
+}
\ No newline at end of file
@@ -0,0 +1,203 @@
+import mongoose from 'mongoose';
+import { EspecificacionValor, IProductEspecificacion } from '../types';
+import { buildSearchFields } from './search';
+
+export const DEFAULT_PLANTILLA_NOMBRE = '{categoria} {marca} {especificaciones}';
+
+export interface ProductNameContext {
+  categoria?: string;
+  marca?: string;
+  subcategorias: string[];
+  especificaciones: Array<{ nombre: string; valor: EspecificacionValor; unidad?: string }>;
+}
+
+export interface ProductNameSources {
+  brands: Map<string, any>;
+  categories: Map<string, any>;
+  especificaciones: Map<string, any>;
+}
+
+interface NameableProduct {
+  marcaId?: string;
+  categoriaId?: string;
+  subcategoriaIds?: string[];
+  especificaciones?: IProductEspecificacion[];
+}
+
+const TOKEN_PATTERN = /\{([^}]+)\}/g;
+
+function formatValue(especificacion: ProductNameContext['especificaciones'][number]): string {
+  // Boolean specifications read as a feature: "WiFi" when true, nothing when false
+  if (typeof especificacion.valor === 'boolean') {
+    return especificacion.valor ? especificacion.nombre : '';
+  }
+  if (Array.isArray(especificacion.valor)) {
+    return especificacion.valor.join(' ');
+  }
+  if (typeof especificacion.valor === 'number' && especificacion.unidad) {
+    return `${especificacion.valor} ${especificacion.unidad}`;
+  }
+  return String(especificacion.valor ?? '');
+}
+
+/**
+ * Render a name template. Supported tokens (case-insensitive):
+ * `{categoria}`, `{marca}`, `{subcategorias}`, `{<nombre de especificación>}` and
+ * `{especificaciones}`, which expands to the values not already placed by name.
+ */
+export function renderProductName(template: string, context: ProductNameContext): string {
+  const byName = new Map(context.especificaciones.map(e => [e.nombre.trim().toLowerCase(), e]));
+  const placed = new Set(
+    [...template.matchAll(TOKEN_PATTERN)]
+      .map(match => match[1].trim().toLowerCase())
+      .filter(token => byName.has(token))
+  );
+
+  return template
+    .replace(TOKEN_PATTERN, (_match, rawToken: string) => {
+      const token = rawToken.trim().toLowerCase();
+      switch (token) {
+        case 'categoria':
+          return context.categoria || '';
+        case 'marca':
+          return context.marca || '';
+        case 'subcategorias':
+          return context.subcategorias.join(' ');
+        case 'especificaciones':
+          return context.especificaciones
+            .filter(e => !placed.has(e.nombre.trim().toLowerCase()))
+            .map(formatValue)
+            .join(' ');
+        default: {
+          const especificacion = byName.get(token);
+          return especificacion ? formatValue(especificacion) : '';
+        }
+      }
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function validIds(ids: Array<string | undefined>): string[] {
+  return [...new Set(ids.map(id => String(id || '')))].filter(id => mongoose.isValidObjectId(id));
+}
+
+/**
+ * Load the brands, categories and especificaciones the given products take their names from
+ */
+export async function loadProductNameSources(products: NameableProduct[]): Promise<ProductNameSources> {
+  const brandIds = validIds(products.map(p => p.marcaId));
+  const categoryIds = validIds(products.map(p => p.categoriaId));
+  const especificacionIds = validIds(
+    products.flatMap(p => (p.especificaciones || []).map(e => e.especificacionId))
+  );
+
+  const [brands, categories, especificaciones] = await Promise.all([
+    brandIds.length > 0
+      ? mongoose.models.Brand.find({ _id: { $in: brandIds } }, { nombre: 1 }).lean()
+      : [],
+    categoryIds.length > 0
+      ? mongoose.models.Category.find(
+        { _id: { $in: categoryIds } },
+        { nombre: 1, plantillaNombre: 1, subcategorias: 1 }
+      ).lean()
+      : [],
+    especificacionIds.length > 0
+      ? mongoose.models.Especificacion.find({ _id: { $in: especificacionIds } }, { nombre: 1, unidad: 1 }).lean()
+      : []
+  ]);
+
+  const toMap = (docs: any[]) => new Map(docs.map(doc => [String(doc._id), doc]));
+
+  return {
+    brands: toMap(brands as any[]),
+    categories: toMap(categories as any[]),
+    especificaciones: toMap(especificaciones as any[])
+  };
+}
+
+export function buildProductName(product: NameableProduct, sources: ProductNameSources): string {
+  const category = sources.categories.get(String(product.categoriaId));
+  const subcategoriaIds = (product.subcategoriaIds || []).map(String);
+
+  const context: ProductNameContext = {
+    categoria: category?.nombre,
+    marca: sources.brands.get(String(product.marcaId))?.nombre,
+    subcategorias: (category?.subcategorias || [])
+      .filter((sub: any) => subcategoriaIds.includes(String(sub._id)))
+      .map((sub: any) => sub.nombre),
+    especificaciones: (product.especificaciones || [])
+      .map(e => {
+        const especificacion = sources.especificaciones.get(String(e.especificacionId));
+        return { nombre: especificacion?.nombre, valor: e.valor, unidad: especificacion?.unidad as string | undefined };
+      })
+      .filter((e): e is typeof e & { nombre: string } => Boolean(e.nombre))
+  };
+
+  return renderProductName(category?.plantillaNombre || DEFAULT_PLANTILLA_NOMBRE, context);
+}
+
+export async function generateProductName(product: NameableProduct): Promise<string> {
+  return buildProductName(product, await loadProductNameSources([product]));
+}
+
+/**
+ * Regenerate the names of products with `autogenerarNombre` matching the filter, e.g. after a
+ * brand, category or specification rename. Returns the number of products renamed.
+ */
+export async function regenerateProductNames(
+  filter: Record<string, any> = {},
+  batchSize: number = 500
+): Promise<number> {
+  const Product = mongoose.models.Product;
+  let renamed = 0;
+  let batch: any[] = [];
+
+  const flush = async () => {
+    const sources = await loadProductNameSources(batch);
+    const operations = batch
+      .map(product => ({ product, nombre: buildProductName(product, sources) }))
+      .filter(({ product, nombre }) => nombre && nombre !== product.nombre)
+      .map(({ product, nombre }) => ({
+        updateOne: {
+          filter: { _id: product._id },
+          update: { $set: { nombre, ...buildSearchFields({ ...product, nombre }) } }
+        }
+      }));
+
+    if (operations.length > 0) {
+      await Product.bulkWrite(operations);
+      renamed += operations.length;
+    }
+    batch = [];
+  };
+
+  const cursor = Product.find(
+    { ...filter, autogenerarNombre: true },
+    {
+      nombre: 1,
+      marcaId: 1,
+      categoriaId: 1,
+      subcategoriaIds: 1,
+      especificaciones: 1,
+      // Search fields are rebuilt along with the name
+      codigoInterno: 1,
+      codigosBarras: 1,
+      codigoBarras: 1,
+      codigoBarrasInterno: 1,
+      'variantes.codigosBarras': 1
+    }
+  ).lean().cursor();
+
+  for await (const product of cursor) {
+    batch.push(product);
+    if (batch.length >= batchSize) {
+      await flush();
+    }
+  }
+  if (batch.length > 0) {
+    await flush();
+  }
+
+  return renamed;
+}
\ No newline at end of file
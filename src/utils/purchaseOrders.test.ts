@@ -0,0 +1,183 @@
+import mongoose from 'mongoose';
+import { createPurchaseOrder, receivePurchaseOrder } from './purchaseOrders';
+import { EntityInUseError } from './errors';
+import * as stock from './stock';
+import { PurchaseOrder } from '../models/PurchaseOrder';
+import { Counter } from '../models/Counter';
+import { Product } from '../models/Product';
+import { Supplier } from '../models/Supplier';
+import { SupplierCost } from '../models/SupplierCost';
+
+const id = () => new mongoose.Types.ObjectId();
+
+// Model middleware compiled from the schema hooks
+const hooks = (PurchaseOrder as any)._middleware;
+const run = (exec: (done: (error?: unknown) => void) => void) =>
+  new Promise<void>((resolve, reject) => exec(error => (error ? reject(error) : resolve())));
+
+describe('createPurchaseOrder', () => {
+  const proveedorId = id();
+  const cable = { _id: id(), nombre: 'Cable USB' };
+  const funda = { _id: id(), nombre: 'Funda', variantes: [{ _id: id() }] };
+
+  beforeEach(() => {
+    jest.spyOn(Supplier, 'findById').mockReturnValue({ lean: async () => ({ _id: proveedorId, plazoEntregaDias: 10 }) } as any);
+    jest.spyOn(Product, 'find').mockReturnValue({ lean: async () => [cable, funda] } as any);
+    jest.spyOn(SupplierCost, 'find').mockReturnValue({
+      lean: async () => [{ productId: cable._id, costo: 150, moneda: 'ARS', codigoProveedor: 'CB-1' }]
+    } as any);
+    jest.spyOn(Counter, 'findOneAndUpdate').mockResolvedValue({ seq: 8 } as any);
+    // save() runs the save hooks without writing
+    jest.spyOn(PurchaseOrder.prototype, 'save').mockImplementation(async function(this: any) {
+      await run(done => hooks.execPre('save', this, [], done));
+      return this;
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('numbers a draft and completes the items from the supplier costs', async () => {
+    const fecha = new Date('2024-03-01T00:00:00Z');
+
+    const order = await createPurchaseOrder({
+      proveedorId: String(proveedorId),
+      fecha,
+      items: [
+        { productId: String(cable._id), quantity: 4 },
+        { productId: String(funda._id), varianteId: String(funda.variantes[0]._id), quantity: 2, unitCost: 80 }
+      ]
+    });
+
+    expect(order).toMatchObject({ numeroOrden: 'OC-000008', status: 'draft', moneda: 'ARS', total: 760 });
+    expect(order.fechaEntregaEstimada).toEqual(new Date('2024-03-11T00:00:00Z'));
+    expect(order.items[0]).toMatchObject({ description: 'Cable USB', codigoProveedor: 'CB-1', unitCost: 150, total: 600 });
+  });
+
+  it('asks for the cost when the supplier has none in the order currency', async () => {
+    await expect(createPurchaseOrder({
+      proveedorId: String(proveedorId),
+      moneda: 'usd',
+      items: [{ productId: String(cable._id), quantity: 1 }]
+    })).rejects.toThrow('Indique el costo de Cable USB: el proveedor no tiene un costo cargado en USD');
+  });
+
+  it('asks for the variant of products with variants', async () => {
+    await expect(createPurchaseOrder({
+      proveedorId: String(proveedorId),
+      items: [{ productId: String(funda._id), quantity: 1, unitCost: 80 }]
+    })).rejects.toThrow('El producto Funda tiene variantes: indique una variante válida');
+  });
+});
+
+describe('receivePurchaseOrder', () => {
+  const proveedorId = id();
+  const cable = id();
+  const funda = id();
+  const cargador = id();
+  let applyStockMovement: jest.SpyInstance;
+  let costWrites: jest.SpyInstance;
+
+  function loadOrder(status: string) {
+    const order: any = PurchaseOrder.hydrate({
+      _id: id(),
+      numeroOrden: 'OC-000008',
+      proveedorId,
+      status,
+      moneda: 'ARS',
+      items: [
+        { _id: id(), productId: cable, description: 'Cable USB', quantity: 10, quantityReceived: 0, unitCost: 100 },
+        { _id: id(), productId: funda, description: 'Funda', quantity: 5, quantityReceived: 0, unitCost: 50 }
+      ],
+      recepciones: []
+    });
+    jest.spyOn(order, 'save').mockResolvedValue(order);
+    jest.spyOn(PurchaseOrder, 'findById').mockReturnValue({ session: async () => order } as any);
+    return order;
+  }
+
+  beforeEach(() => {
+    jest.spyOn(mongoose, 'startSession').mockResolvedValue({
+      withTransaction: async (fn: () => Promise<void>) => fn(),
+      endSession: async () => undefined
+    } as any);
+    jest.spyOn(Supplier, 'exists').mockReturnValue({ session: async () => ({ _id: proveedorId }) } as any);
+    jest.spyOn(SupplierCost, 'find').mockReturnValue({
+      session: () => ({ lean: async () => [{ productId: cable, costo: 100, moneda: 'ARS' }] })
+    } as any);
+    costWrites = jest.spyOn(SupplierCost, 'bulkWrite').mockResolvedValue({} as any);
+    applyStockMovement = jest.spyOn(stock, 'applyStockMovement').mockResolvedValue({ product: {}, movement: {} });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('moves stock, updates costs and records what differs from the order', async () => {
+    const order = loadOrder('sent');
+
+    const result = await receivePurchaseOrder(String(order._id), {
+      remito: 'R-15',
+      cerrar: true,
+      items: [
+        { productId: String(cable), quantity: 12, unitCost: 110 },
+        { productId: String(cargador), quantity: 1, unitCost: 300 }
+      ]
+    });
+
+    expect(applyStockMovement).toHaveBeenCalledTimes(2);
+    expect(applyStockMovement).toHaveBeenCalledWith(String(cable), expect.objectContaining({
+      quantity: 12,
+      type: 'purchase',
+      referenceType: 'PurchaseOrder',
+      reason: 'Recepción de la orden de compra OC-000008 (remito R-15)'
+    }), expect.anything());
+    expect(result.discrepancias.map(d => [d.tipo, String(d.productId), d.esperado, d.recibido])).toEqual([
+      ['excedente', String(cable), 10, 12],
+      ['costo', String(cable), 100, 110],
+      ['no-pedido', String(cargador), undefined, 1],
+      ['faltante', String(funda), 5, 0]
+    ]);
+    expect(costWrites.mock.calls[0][0].map((op: any) => [String(op.updateOne.filter.productId), op.updateOne.update.$set.costo]))
+      .toEqual([[String(cable), 110], [String(cargador), 300]]);
+    expect(result.order.status).toBe('received');
+  });
+
+  it('leaves the order partially received while goods are pending', async () => {
+    const order = loadOrder('sent');
+
+    const result = await receivePurchaseOrder(String(order._id), {
+      actualizarCostos: false,
+      items: [{ itemId: String(order.items[0]._id), quantity: 10 }]
+    });
+
+    expect(result.discrepancias).toEqual([]);
+    expect(result.order.status).toBe('partially-received');
+    expect(result.order.items[0].quantityReceived).toBe(10);
+    expect(costWrites).not.toHaveBeenCalled();
+  });
+
+  it('does not receive goods for orders that were not sent', async () => {
+    const order = loadOrder('draft');
+
+    await expect(receivePurchaseOrder(String(order._id), { items: [{ productId: String(cable), quantity: 1 }] }))
+      .rejects.toThrow('No se puede recibir la orden OC-000008 en estado draft');
+    expect(applyStockMovement).not.toHaveBeenCalled();
+  });
+});
+
+describe('Supplier deletes', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('are refused while purchase orders point at the supplier', async () => {
+    const proveedorId = id();
+    jest.spyOn(Supplier, 'find').mockReturnValue({ session: () => ({ distinct: async () => [proveedorId] }) } as any);
+    jest.spyOn(Product, 'countDocuments').mockReturnValue({ session: async () => 0 } as any);
+    jest.spyOn(Product, 'find').mockReturnValue({ limit: () => ({ session: () => ({ lean: async () => [] }) }) } as any);
+    jest.spyOn(PurchaseOrder, 'countDocuments').mockReturnValue({ session: async () => 2 } as any);
+    const deleteOne = jest.spyOn(Supplier.collection, 'deleteOne');
+
+    const error = await Supplier.deleteOne({ _id: proveedorId }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(EntityInUseError);
+    expect((error as EntityInUseError).message).toContain('tiene 2 orden(es) de compra');
+    expect(deleteOne).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,368 @@
+import mongoose from 'mongoose';
+import { IPurchaseDiscrepancy, IPurchaseReceptionItem } from '../types';
+import { applyStockMovement } from './stock';
+import { MONEDA_BASE } from './supplierCosts';
+
+export interface PurchaseOrderItemInput {
+  productId: string;
+  varianteId?: string; // Required for products with variants
+  quantity: number;
+  unitCost?: number; // Default: the supplier's cost of the product, when in the order's currency
+  description?: string; // Default: the product name
+  codigoProveedor?: string; // Default: the supplier's code for the product
+}
+
+export interface PurchaseOrderInput {
+  proveedorId: string;
+  items: PurchaseOrderItemInput[];
+  moneda?: string; // Default: MONEDA_BASE
+  fecha?: Date;
+  fechaEntregaEstimada?: Date; // Default: today plus the supplier's plazoEntregaDias
+  observaciones?: string;
+  userId?: string;
+}
+
+export interface PurchaseReceptionItemInput {
+  itemId?: string; // Order item; or give productId (and varianteId)
+  productId?: string; // Goods that match no order item are received as not ordered
+  varianteId?: string;
+  quantity: number;
+  unitCost?: number; // Default: the ordered cost; required for goods not ordered
+}
+
+export interface PurchaseReceptionInput {
+  items: PurchaseReceptionItemInput[];
+  remito?: string;
+  fecha?: Date;
+  userId?: string;
+  observaciones?: string;
+  cerrar?: boolean; // No more goods are expected: pending quantities are recorded as missing
+  actualizarCostos?: boolean; // Update the supplier's cost of each product received (default: true)
+}
+
+export interface PurchaseReceptionResult {
+  order: any;
+  reception: any;
+  discrepancias: IPurchaseDiscrepancy[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Order items from the input, validated against the products and completed from the supplier's costs
+ */
+async function buildOrderItems(proveedorId: string, currency: string, items: PurchaseOrderItemInput[]): Promise<any[]> {
+  if (!items || items.length === 0) {
+    throw new Error('La orden de compra debe tener al menos un ítem');
+  }
+
+  const productIds = items.map(item => item.productId).filter(id => mongoose.isValidObjectId(id));
+  const [products, costs] = await Promise.all([
+    mongoose.models.Product.find({ _id: { $in: productIds } }, { nombre: 1, 'variantes._id': 1 }).lean(),
+    mongoose.models.SupplierCost.find({ proveedorId, productId: { $in: productIds } }).lean()
+  ]) as any[][];
+  const productById = new Map(products.map(product => [String(product._id), product]));
+  const costByProduct = new Map(costs.map(cost => [String(cost.productId), cost]));
+
+  return items.map(item => {
+    const product = productById.get(String(item.productId));
+    if (!product) {
+      throw new Error(`Producto ${item.productId} no encontrado`);
+    }
+    if (!Number.isFinite(item.quantity) || item.quantity <= 0) {
+      throw new Error(`La cantidad de ${product.nombre} debe ser mayor a 0`);
+    }
+    const variantes = product.variantes || [];
+    if (variantes.length > 0 && !variantes.some((v: any) => String(v._id) === item.varianteId)) {
+      throw new Error(`El producto ${product.nombre} tiene variantes: indique una variante válida`);
+    }
+
+    const cost = costByProduct.get(String(item.productId));
+    const unitCost = item.unitCost ?? (cost && cost.moneda === currency ? cost.costo : undefined);
+    if (unitCost === undefined) {
+      throw new Error(`Indique el costo de ${product.nombre}: el proveedor no tiene un costo cargado en ${currency}`);
+    }
+
+    return {
+      productId: product._id,
+      varianteId: item.varianteId,
+      description: item.description || product.nombre,
+      codigoProveedor: item.codigoProveedor ?? cost?.codigoProveedor,
+      quantity: item.quantity,
+      unitCost,
+    };
+  });
+}
+
+/**
+ * Create a draft purchase order. Costs, descriptions and supplier codes missing from the items are
+ * taken from the supplier's costs and the products.
+ */
+export async function createPurchaseOrder(input: PurchaseOrderInput): Promise<any> {
+  const { proveedorId, items, moneda = MONEDA_BASE, fecha = new Date(), ...rest } = input;
+  const currency = moneda.toUpperCase();
+
+  const supplier: any = mongoose.isValidObjectId(proveedorId)
+    ? await mongoose.models.Supplier.findById(proveedorId, { plazoEntregaDias: 1 }).lean()
+    : null;
+  if (!supplier) {
+    throw new Error(`Proveedor no encontrado: ${proveedorId}`);
+  }
+
+  const orderItems = await buildOrderItems(proveedorId, currency, items);
+
+  const fechaEntregaEstimada = rest.fechaEntregaEstimada
+    ?? (typeof supplier.plazoEntregaDias === 'number' ? new Date(fecha.getTime() + supplier.plazoEntregaDias * DAY_MS) : undefined);
+
+  const order = new mongoose.models.PurchaseOrder({
+    ...rest,
+    proveedorId,
+    moneda: currency,
+    fecha,
+    fechaEntregaEstimada,
+    items: orderItems,
+    status: 'draft',
+  });
+  await order.save();
+
+  return order.toObject();
+}
+
+async function findOrder(orderId: string): Promise<any> {
+  const order = mongoose.isValidObjectId(orderId) ? await mongoose.models.PurchaseOrder.findById(orderId) : null;
+  if (!order) {
+    throw new Error(`Orden de compra ${orderId} no encontrada`);
+  }
+  return order;
+}
+
+/**
+ * Replace the items of a draft purchase order, with the same defaults as createPurchaseOrder
+ */
+export async function updatePurchaseOrderItems(orderId: string, items: PurchaseOrderItemInput[]): Promise<any> {
+  const order = await findOrder(orderId);
+  if (order.status !== 'draft') {
+    throw new Error(`Solo se pueden modificar órdenes en borrador (la orden ${order.numeroOrden} está en estado ${order.status})`);
+  }
+
+  order.items = await buildOrderItems(String(order.proveedorId), order.moneda, items);
+  await order.save();
+
+  return order.toObject();
+}
+
+/**
+ * Mark a draft purchase order as sent to the supplier
+ */
+export async function sendPurchaseOrder(orderId: string, sentAt: Date = new Date()): Promise<any> {
+  const order = await findOrder(orderId);
+  if (order.status !== 'draft') {
+    throw new Error(`Solo se pueden enviar órdenes en borrador (la orden ${order.numeroOrden} está en estado ${order.status})`);
+  }
+
+  order.status = 'sent';
+  order.sentAt = sentAt;
+  await order.save();
+
+  return order.toObject();
+}
+
+/**
+ * Cancel a purchase order that has received no goods. Orders with receptions are closed by
+ * receiving with `cerrar` instead.
+ */
+export async function cancelPurchaseOrder(orderId: string, motivo?: string): Promise<any> {
+  const order = await findOrder(orderId);
+  if (order.status !== 'draft' && order.status !== 'sent') {
+    throw new Error(`No se puede cancelar la orden ${order.numeroOrden} en estado ${order.status}`);
+  }
+
+  order.status = 'cancelled';
+  order.cancelledAt = new Date();
+  if (motivo) {
+    order.observaciones = order.observaciones ? `${order.observaciones}\n${motivo}` : motivo;
+  }
+  await order.save();
+
+  return order.toObject();
+}
+
+/**
+ * Receive goods for a sent purchase order in one transaction: stock goes up by the quantities
+ * received, each with its stock movement, and the supplier's costs are updated. Quantities above
+ * what was pending, costs that differ from the order and goods not ordered are recorded as
+ * discrepancies of the reception.
+ */
+export async function receivePurchaseOrder(
+  orderId: string,
+  input: PurchaseReceptionInput
+): Promise<PurchaseReceptionResult> {
+  const { items = [], cerrar = false, actualizarCostos = true, fecha = new Date(), remito, userId, observaciones } = input;
+  const PurchaseOrder = mongoose.models.PurchaseOrder;
+
+  if (items.length === 0 && !cerrar) {
+    throw new Error('Indique los productos recibidos');
+  }
+  for (const item of items) {
+    if (!Number.isFinite(item.quantity) || item.quantity <= 0) {
+      throw new Error('La cantidad recibida debe ser mayor a 0');
+    }
+  }
+
+  const session = await mongoose.startSession();
+  let result: PurchaseReceptionResult | undefined;
+
+  try {
+    await session.withTransaction(async () => {
+      const order: any = mongoose.isValidObjectId(orderId) ? await PurchaseOrder.findById(orderId).session(session) : null;
+      if (!order) {
+        throw new Error(`Orden de compra ${orderId} no encontrada`);
+      }
+      if (order.status !== 'sent' && order.status !== 'partially-received') {
+        throw new Error(`No se puede recibir la orden ${order.numeroOrden} en estado ${order.status}`);
+      }
+      if (!await mongoose.models.Supplier.exists({ _id: order.proveedorId }).session(session)) {
+        throw new Error(`El proveedor de la orden ${order.numeroOrden} no existe: ${order.proveedorId}`);
+      }
+
+      const received: IPurchaseReceptionItem[] = [];
+      const discrepancias: IPurchaseDiscrepancy[] = [];
+      const newCosts = new Map<string, { productId: any; costo: number; codigoProveedor?: string }>();
+
+      for (const item of items) {
+        const orderItem = item.itemId
+          ? order.items.id(item.itemId)
+          : order.items.find((line: any) => String(line.productId) === String(item.productId)
+            && (line.varianteId || undefined) === (item.varianteId || undefined));
+        if (item.itemId && !orderItem) {
+          throw new Error(`El ítem ${item.itemId} no pertenece a la orden ${order.numeroOrden}`);
+        }
+
+        let productId: any;
+        let varianteId: string | undefined;
+        let unitCost: number;
+
+        if (orderItem) {
+          productId = orderItem.productId;
+          varianteId = orderItem.varianteId;
+          unitCost = item.unitCost ?? orderItem.unitCost;
+
+          const pendiente = Math.max(orderItem.quantity - orderItem.quantityReceived, 0);
+          if (item.quantity > pendiente) {
+            discrepancias.push({ tipo: 'excedente', itemId: orderItem._id, productId, esperado: pendiente, recibido: item.quantity });
+          }
+          if (unitCost !== orderItem.unitCost) {
+            discrepancias.push({ tipo: 'costo', itemId: orderItem._id, productId, esperado: orderItem.unitCost, recibido: unitCost });
+          }
+          orderItem.quantityReceived += item.quantity;
+        } else {
+          if (!item.productId || !mongoose.isValidObjectId(item.productId)) {
+            throw new Error('Indique el ítem de la orden o el producto recibido');
+          }
+          if (item.unitCost === undefined) {
+            throw new Error(`Indique el costo del producto ${item.productId}, que no figura en la orden`);
+          }
+          productId = new mongoose.Types.ObjectId(item.productId);
+          varianteId = item.varianteId;
+          unitCost = item.unitCost;
+          discrepancias.push({ tipo: 'no-pedido', productId, recibido: item.quantity });
+        }
+
+        await applyStockMovement(String(productId), {
+          quantity: item.quantity,
+          type: 'purchase',
+          varianteId,
+          reason: `Recepción de la orden de compra ${order.numeroOrden}${remito ? ` (remito ${remito})` : ''}`,
+          userId,
+          referenceType: 'PurchaseOrder',
+          referenceId: String(order._id),
+        }, session);
+
+        received.push({ itemId: orderItem?._id, productId, varianteId, quantity: item.quantity, unitCost });
+        newCosts.set(String(productId), { productId, costo: unitCost, codigoProveedor: orderItem?.codigoProveedor });
+      }
+
+      const pendientes = order.items.filter((line: any) => line.quantityReceived < line.quantity);
+      if (cerrar) {
+        for (const line of pendientes) {
+          discrepancias.push({ tipo: 'faltante', itemId: line._id, productId: line.productId, esperado: line.quantity, recibido: line.quantityReceived });
+        }
+      }
+
+      if (actualizarCostos && newCosts.size > 0) {
+        await updateSupplierCosts(order.proveedorId, order.moneda, [...newCosts.values()], fecha, session);
+      }
+
+      order.recepciones.push({ fecha, remito, userId, items: received, discrepancias, observaciones });
+      if (cerrar || pendientes.length === 0) {
+        order.status = 'received';
+        order.receivedAt = fecha;
+      } else {
+        order.status = 'partially-received';
+      }
+      await order.save({ session });
+
+      const saved = order.toObject();
+      result = { order: saved, reception: saved.recepciones[saved.recepciones.length - 1], discrepancias };
+    });
+
+    return result as PurchaseReceptionResult;
+  } finally {
+    await session.endSession();
+  }
+}
+
+/**
+ * Point the purchase orders of the suppliers `fromIds` to `toId`, as part of a supplier merge
+ * or reassignment
+ */
+export async function transferPurchaseOrders(
+  fromIds: unknown[],
+  toId: unknown,
+  session?: mongoose.ClientSession
+): Promise<number> {
+  const result = await mongoose.models.PurchaseOrder.updateMany(
+    { proveedorId: { $in: fromIds } },
+    { $set: { proveedorId: toId } },
+    { session }
+  );
+  return result.modifiedCount;
+}
+
+/**
+ * Set the supplier's cost of the received products to what was paid, where it changed
+ */
+async function updateSupplierCosts(
+  proveedorId: unknown,
+  moneda: string,
+  costs: Array<{ productId: any; costo: number; codigoProveedor?: string }>,
+  fecha: Date,
+  session: mongoose.ClientSession
+): Promise<void> {
+  const SupplierCost = mongoose.models.SupplierCost;
+  const existing = await SupplierCost.find(
+    { proveedorId, productId: { $in: costs.map(cost => cost.productId) } },
+    { productId: 1, costo: 1, moneda: 1 }
+  ).session(session).lean() as any[];
+  const byProduct = new Map(existing.map(cost => [String(cost.productId), cost]));
+
+  const operations = costs
+    .filter(cost => {
+      const current = byProduct.get(String(cost.productId));
+      return !current || current.costo !== cost.costo || current.moneda !== moneda;
+    })
+    .map(cost => ({
+      updateOne: {
+        filter: { productId: cost.productId, proveedorId },
+        update: {
+          $set: { costo: cost.costo, moneda, actualizadoEn: fecha },
+          ...(cost.codigoProveedor ? { $setOnInsert: { codigoProveedor: cost.codigoProveedor } } : {})
+        },
+        upsert: true,
+      }
+    }));
+
+  if (operations.length > 0) {
+    await SupplierCost.bulkWrite(operations, { session });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,82 @@
+import mongoose from 'mongoose';
+import { getReorderSuggestions } from './reorder';
+import { Product } from '../models/Product';
+import { PurchaseOrder } from '../models/PurchaseOrder';
+import { SalesNote } from '../models/SalesNote';
+import { Supplier } from '../models/Supplier';
+import { SupplierCost } from '../models/SupplierCost';
+
+describe('getReorderSuggestions', () => {
+  const id = () => new mongoose.Types.ObjectId();
+  const hasta = new Date('2024-04-30T00:00:00Z');
+  const mayorista = { _id: id(), nombre: 'Mayorista', plazoEntregaDias: 10 };
+  const importadora = { _id: id(), nombre: 'Importadora' }; // Without a lead time of its own
+  const products = {
+    cable: { _id: id(), nombre: 'Cable', codigoInterno: 'P1', stock: 10, umbralStockEfectivo: 4, proveedorId: mayorista._id },
+    funda: { _id: id(), nombre: 'Funda', codigoInterno: 'P2', stock: 50, umbralStockEfectivo: 5, proveedorId: mayorista._id },
+    remera: {
+      _id: id(),
+      nombre: 'Remera',
+      codigoInterno: 'P3',
+      stock: 12,
+      umbralStockEfectivo: 2,
+      proveedorId: mayorista._id,
+      variantes: [{ _id: id(), valor: 'M', stock: 12 }, { _id: id(), valor: 'L', stock: 0, activo: false }]
+    },
+    parlante: { _id: id(), nombre: 'Parlante', codigoInterno: 'P4', stock: 0, umbralStockEfectivo: 0, proveedorId: importadora._id }
+  };
+
+  beforeEach(() => {
+    jest.spyOn(SalesNote, 'aggregate').mockResolvedValue([
+      { _id: String(products.cable._id), unidades: 60 },
+      { _id: String(products.funda._id), unidades: 30 },
+      { _id: String(products.remera._id), unidades: 30 },
+      { _id: String(products.parlante._id), unidades: 90 }
+    ]);
+    jest.spyOn(Product, 'find').mockReturnValue({ lean: async () => Object.values(products) } as any);
+    jest.spyOn(PurchaseOrder, 'aggregate').mockResolvedValue([{ _id: products.cable._id, cantidad: 5 }]);
+    jest.spyOn(Supplier, 'find').mockReturnValue({ lean: async () => [mayorista, importadora] } as any);
+    jest.spyOn(SupplierCost, 'find').mockReturnValue({
+      lean: async () => [
+        { productId: products.cable._id, proveedorId: mayorista._id, costo: 100, moneda: 'ARS' },
+        { productId: products.parlante._id, proveedorId: importadora._id, costo: 40, moneda: 'USD' }
+      ]
+    } as any);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('suggests enough for the lead time and the next period once stock and open orders fall short', async () => {
+    const report = await getReorderSuggestions({ hasta, dias: 30, diasPedido: 30 });
+    const [importadoraGroup, mayoristaGroup] = report.proveedores;
+
+    expect(report.totalSugerencias).toBe(3);
+    expect(mayoristaGroup.sugerencias.map(s => [s.codigoInterno, s.puntoPedido, s.cantidadSugerida, s.urgente])).toEqual([
+      ['P1', 24, 69, true],
+      ['P3', 12, 30, false]
+    ]);
+    expect(mayoristaGroup.sugerencias[0]).toMatchObject({ stock: 10, enCamino: 5, ventasPorDia: 2, diasCobertura: 5 });
+    expect(mayoristaGroup.sugerencias[0].fechaQuiebre).toEqual(new Date('2024-05-05T00:00:00Z'));
+    expect(importadoraGroup.sugerencias[0]).toMatchObject({ codigoInterno: 'P4', plazoEntregaDias: 7, cantidadSugerida: 111 });
+  });
+
+  it('builds an order per supplier with the products that need no variant', async () => {
+    const report = await getReorderSuggestions({ hasta });
+    const [importadoraGroup, mayoristaGroup] = report.proveedores;
+
+    expect(mayoristaGroup.pedido).toEqual({
+      proveedorId: String(mayorista._id),
+      moneda: 'ARS',
+      items: [{ productId: String(products.cable._id), quantity: 69 }]
+    });
+    expect(mayoristaGroup.sugerencias[1]).toMatchObject({
+      enPedido: false,
+      variantes: [{ _id: String(products.remera.variantes[0]._id), valor: 'M', stock: 12 }]
+    });
+    expect(importadoraGroup.pedido).toMatchObject({ moneda: 'USD', items: [{ productId: String(products.parlante._id), quantity: 111 }] });
+  });
+
+  it('rejects an empty sales window', async () => {
+    await expect(getReorderSuggestions({ dias: 0 })).rejects.toThrow('La ventana de ventas debe ser de al menos un día');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,222 @@
+import mongoose from 'mongoose';
+import { DEFAULT_UMBRAL_STOCK_BAJO } from './stockThresholds';
+import { MONEDA_BASE } from './supplierCosts';
+import { PurchaseOrderInput } from './purchaseOrders';
+
+export interface ReorderOptions {
+  dias?: number; // Sales window in days (default: 30)
+  hasta?: Date; // End of the sales window (default: now)
+  diasPedido?: number; // Days of sales each order should cover once delivered (default: 30)
+  plazoEntregaDias?: number; // Lead time of suppliers without plazoEntregaDias (default: 7)
+  proveedorId?: string;
+  categoriaId?: string;
+}
+
+export interface ReorderVariant {
+  _id: string;
+  valor: string;
+  stock: number;
+}
+
+export interface ReorderSuggestion {
+  productId: string;
+  nombre: string;
+  codigoInterno: string;
+  unidadesVendidas: number;
+  ventasPorDia: number;
+  stock: number;
+  enCamino: number; // Pending quantity in open purchase orders, drafts included
+  umbralStockEfectivo: number;
+  diasCobertura: number; // Days the stock on hand lasts at the current pace
+  fechaQuiebre: Date; // When the stock on hand runs out at the current pace
+  plazoEntregaDias: number;
+  puntoPedido: number; // Stock plus pending quantity at or below which to reorder
+  cantidadSugerida: number;
+  urgente: boolean; // The stock on hand runs out before an order placed today arrives
+  costo?: number;
+  moneda?: string;
+  codigoProveedor?: string;
+  variantes?: ReorderVariant[]; // Products with variants: choose the variants to order
+  enPedido: boolean; // Included in the group's `pedido`
+}
+
+export interface SupplierReorderGroup {
+  proveedorId: string;
+  proveedorNombre?: string;
+  plazoEntregaDias: number;
+  sugerencias: ReorderSuggestion[];
+  urgentes: number;
+  // Input for createPurchaseOrder() with the suggestions that need no variant and have the
+  // supplier's cost in the order's currency; the rest have to be added by hand
+  pedido: PurchaseOrderInput;
+}
+
+export interface ReorderReport {
+  desde: Date;
+  hasta: Date;
+  dias: number;
+  proveedores: SupplierReorderGroup[];
+  totalSugerencias: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OPEN_ORDER_STATUSES = ['draft', 'sent', 'partially-received'];
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Suggest what to reorder from each supplier, from the units sold per product in the sales
+ * window. A product is reordered when its stock plus what is pending in open purchase orders no
+ * longer covers the supplier's lead time plus its low-stock threshold as safety stock; the
+ * suggested quantity brings it up to `diasPedido` more days of sales.
+ */
+export async function getReorderSuggestions(options: ReorderOptions = {}): Promise<ReorderReport> {
+  const {
+    dias = 30,
+    hasta = new Date(),
+    diasPedido = 30,
+    plazoEntregaDias: plazoDefault = 7,
+    proveedorId,
+    categoriaId
+  } = options;
+
+  if (!(dias > 0)) {
+    throw new Error('La ventana de ventas debe ser de al menos un día');
+  }
+  const desde = new Date(hasta.getTime() - dias * DAY_MS);
+
+  const ventas: Array<{ _id: string; unidades: number }> = await mongoose.models.SalesNote.aggregate([
+    { $match: { fecha: { $gt: desde, $lte: hasta } } },
+    { $unwind: '$items' },
+    { $match: { 'items.productId': { $nin: [null, ''] } } },
+    { $group: { _id: '$items.productId', unidades: { $sum: '$items.quantity' } } },
+    { $match: { unidades: { $gt: 0 } } }
+  ]);
+
+  const filter: any = {
+    _id: { $in: ventas.map(venta => venta._id).filter(id => mongoose.isValidObjectId(id)) }
+  };
+  if (proveedorId) filter.proveedorId = proveedorId;
+  if (categoriaId) filter.categoriaId = categoriaId;
+
+  const products: any[] = await mongoose.models.Product.find(filter, {
+    nombre: 1,
+    codigoInterno: 1,
+    stock: 1,
+    umbralStockBajo: 1,
+    umbralStockEfectivo: 1,
+    proveedorId: 1,
+    variantes: 1
+  }).lean();
+  const productIds = products.map(product => product._id);
+  const supplierIds = [...new Set(products.map(product => String(product.proveedorId)))];
+
+  const [pendientes, suppliers, costs] = await Promise.all([
+    mongoose.models.PurchaseOrder.aggregate([
+      { $match: { status: { $in: OPEN_ORDER_STATUSES }, 'items.productId': { $in: productIds } } },
+      { $unwind: '$items' },
+      { $match: { 'items.productId': { $in: productIds } } },
+      {
+        $group: {
+          _id: '$items.productId',
+          cantidad: { $sum: { $max: [{ $subtract: ['$items.quantity', '$items.quantityReceived'] }, 0] } }
+        }
+      }
+    ]),
+    mongoose.models.Supplier.find({ _id: { $in: supplierIds } }, { nombre: 1, plazoEntregaDias: 1 }).lean(),
+    mongoose.models.SupplierCost.find({ productId: { $in: productIds }, proveedorId: { $in: supplierIds } }).lean()
+  ]) as any[][];
+
+  const unitsByProduct = new Map(ventas.map(venta => [String(venta._id), venta.unidades]));
+  const pendingByProduct = new Map(pendientes.map(pendiente => [String(pendiente._id), pendiente.cantidad]));
+  const supplierById = new Map(suppliers.map(supplier => [String(supplier._id), supplier]));
+  const costByKey = new Map(costs.map(cost => [`${cost.productId}:${cost.proveedorId}`, cost]));
+
+  const groups = new Map<string, SupplierReorderGroup>();
+
+  for (const product of products) {
+    const supplierId = String(product.proveedorId);
+    const supplier = supplierById.get(supplierId);
+    const plazo = supplier?.plazoEntregaDias ?? plazoDefault;
+
+    const unidadesVendidas = unitsByProduct.get(String(product._id)) || 0;
+    const ventasPorDia = unidadesVendidas / dias;
+    const stock = Math.max(product.stock || 0, 0);
+    const enCamino = pendingByProduct.get(String(product._id)) || 0;
+    const umbral = product.umbralStockEfectivo ?? product.umbralStockBajo ?? DEFAULT_UMBRAL_STOCK_BAJO;
+    const seguridad = Math.max(umbral, 0);
+
+    const puntoPedido = Math.ceil(ventasPorDia * plazo + seguridad);
+    if (stock + enCamino > puntoPedido) continue;
+
+    const cantidadSugerida = Math.ceil(ventasPorDia * (plazo + diasPedido) + seguridad) - stock - enCamino;
+    if (cantidadSugerida <= 0) continue;
+
+    const diasCobertura = round(stock / ventasPorDia, 1);
+    const cost = costByKey.get(`${product._id}:${supplierId}`);
+    const variantes = (product.variantes || [])
+      .filter((variante: any) => variante.activo !== false)
+      .map((variante: any) => ({ _id: String(variante._id), valor: variante.valor, stock: variante.stock }));
+
+    const suggestion: ReorderSuggestion = {
+      productId: String(product._id),
+      nombre: product.nombre,
+      codigoInterno: product.codigoInterno,
+      unidadesVendidas,
+      ventasPorDia: round(ventasPorDia, 2),
+      stock,
+      enCamino,
+      umbralStockEfectivo: umbral,
+      diasCobertura,
+      fechaQuiebre: new Date(hasta.getTime() + diasCobertura * DAY_MS),
+      plazoEntregaDias: plazo,
+      puntoPedido,
+      cantidadSugerida,
+      urgente: diasCobertura < plazo,
+      costo: cost?.costo,
+      moneda: cost?.moneda,
+      codigoProveedor: cost?.codigoProveedor,
+      variantes: variantes.length > 0 ? variantes : undefined,
+      enPedido: false,
+    };
+
+    if (!groups.has(supplierId)) {
+      groups.set(supplierId, {
+        proveedorId: supplierId,
+        proveedorNombre: supplier?.nombre,
+        plazoEntregaDias: plazo,
+        sugerencias: [],
+        urgentes: 0,
+        pedido: { proveedorId: supplierId, items: [] },
+      });
+    }
+    const group = groups.get(supplierId)!;
+    group.sugerencias.push(suggestion);
+    if (suggestion.urgente) group.urgentes++;
+  }
+
+  const proveedores = [...groups.values()];
+  for (const group of proveedores) {
+    group.sugerencias.sort((a, b) => a.diasCobertura - b.diasCobertura);
+
+    // The order goes in the currency of the supplier's costs when they all share one
+    const monedas = new Set(group.sugerencias.filter(s => s.moneda).map(s => s.moneda));
+    const moneda = monedas.size === 1 ? [...monedas][0]! : MONEDA_BASE;
+    group.pedido.moneda = moneda;
+
+    for (const suggestion of group.sugerencias) {
+      if (suggestion.variantes || suggestion.moneda !== moneda) continue;
+      suggestion.enPedido = true;
+      group.pedido.items.push({ productId: suggestion.productId, quantity: suggestion.cantidadSugerida });
+    }
+  }
+  proveedores.sort((a, b) => b.urgentes - a.urgentes || (a.proveedorNombre || '').localeCompare(b.proveedorNombre || ''));
+
+  return {
+    desde,
+    hasta,
+    dias,
+    proveedores,
+    totalSugerencias: proveedores.reduce((sum, group) => sum + group.sugerencias.length, 0),
+  };
+}
\ No newline at end of file
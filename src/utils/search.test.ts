@@ -0,0 +1,79 @@
+import mongoose from 'mongoose';
+import { buildProductSearch, buildSearchFields, normalizeSearchText, rebuildSearchIndex, tokenizeSearchText } from './search';
+import { Product } from '../models/Product';
+
+describe('normalizeSearchText', () => {
+  it('ignores accents, case and punctuation', () => {
+    expect(normalizeSearchText('Cámara  Wi-Fi ÑANDÚ')).toBe('camara wi fi nandu');
+    expect(normalizeSearchText('camara wi fi nandu')).toBe('camara wi fi nandu');
+  });
+
+  it('drops repeated words from the tokens', () => {
+    expect(tokenizeSearchText('Cable cable USB')).toEqual(['cable', 'usb']);
+    expect(tokenizeSearchText(' - ')).toEqual([]);
+  });
+});
+
+describe('buildSearchFields', () => {
+  it('indexes the name, the internal code and every barcode', () => {
+    expect(buildSearchFields({
+      nombre: 'Auricular Bluetooth',
+      codigoInterno: 'AUR-01',
+      codigosBarras: ['4006381333931'],
+      variantes: [{ codigosBarras: ['96385074'] }]
+    })).toEqual({
+      textoBusqueda: 'auricular bluetooth aur 01',
+      terminosBusqueda: ['auricular', 'bluetooth', 'aur', '01', '4006381333931', '96385074']
+    });
+  });
+});
+
+describe('buildProductSearch', () => {
+  // Whether the token condition of the filter selects a product with these search terms
+  const matchesTokens = (term: string, terminos: string[]) => {
+    const tokenMatch = buildProductSearch(term)!.match.$or.find((condition: any) => condition.terminosBusqueda);
+    return tokenMatch.terminosBusqueda.$all.every((prefix: RegExp) => terminos.some(termino => prefix.test(termino)));
+  };
+  const { terminosBusqueda } = buildSearchFields({ nombre: 'Cámara Wi-Fi Exterior' });
+
+  it('matches every typed word as the prefix of a product word, without accents', () => {
+    expect(matchesTokens('camara', terminosBusqueda)).toBe(true);
+    expect(matchesTokens('CÁM ext', terminosBusqueda)).toBe(true);
+    expect(matchesTokens('camara interior', terminosBusqueda)).toBe(false);
+  });
+
+  it('ignores symbols typed in the term', () => {
+    expect(matchesTokens('wi.*', terminosBusqueda)).toBe(true);
+    expect(buildProductSearch('(cámara)')!.match.$or).toContainEqual({ terminosBusqueda: { $all: [/^camara/] } });
+  });
+
+  it('also selects exact barcode and internal code hits', () => {
+    expect(buildProductSearch(' 4006-3813-33931 ')!.match.$or).toEqual(expect.arrayContaining([
+      { codigosBarrasTodos: '4006381333931' },
+      { codigoInterno: '4006-3813-33931' }
+    ]));
+  });
+
+  it('returns null for a term without anything searchable', () => {
+    expect(buildProductSearch('   ')).toBeNull();
+  });
+});
+
+describe('rebuildSearchIndex', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('only rewrites products whose search fields are stale', async () => {
+    const current = { _id: new mongoose.Types.ObjectId(), nombre: 'Cable USB', ...buildSearchFields({ nombre: 'Cable USB' }) };
+    const stale = { _id: new mongoose.Types.ObjectId(), nombre: 'Cargador rápido', textoBusqueda: 'cargador' };
+    jest.spyOn(Product, 'find').mockReturnValue({ lean: () => ({ cursor: () => [current, stale] }) } as any);
+    const bulkWrite = jest.spyOn(Product, 'bulkWrite').mockResolvedValue({} as any);
+
+    await expect(rebuildSearchIndex()).resolves.toBe(1);
+    expect(bulkWrite).toHaveBeenCalledWith([{
+      updateOne: {
+        filter: { _id: stale._id },
+        update: { $set: { textoBusqueda: 'cargador rapido', terminosBusqueda: ['cargador', 'rapido'] } }
+      }
+    }]);
+  });
+});
\ No newline at end of file
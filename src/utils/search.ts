@@ -0,0 +1,168 @@
+import mongoose from 'mongoose';
+import { collectProductBarcodes, normalizeBarcode } from './barcodes';
+
+export interface SearchFields {
+  textoBusqueda: string;
+  terminosBusqueda: string[];
+}
+
+export interface ProductSearch {
+  match: Record<string, any>; // Filter selecting the products that match the term
+  score: Record<string, any>; // Aggregation expression ranking them, higher is better
+}
+
+interface SearchableProduct {
+  nombre?: string;
+  codigoInterno?: string;
+  codigosBarras?: string[];
+  codigoBarras?: string;
+  codigoBarrasInterno?: string;
+  variantes?: Array<{ codigosBarras?: string[] }>;
+}
+
+// Relevance weights
+const EXACT_CODE_SCORE = 100;
+const PHRASE_PREFIX_SCORE = 5;
+const WHOLE_TOKEN_SCORE = 3;
+const TOKEN_PREFIX_SCORE = 1;
+
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Lowercase, strip accents and turn everything but letters and digits into single spaces,
+ * so "Cámara  Wi-Fi" and "camara wi fi" compare equal
+ */
+export function normalizeSearchText(text: string): string {
+  return String(text ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function tokenizeSearchText(text: string): string[] {
+  const normalized = normalizeSearchText(text);
+  return normalized ? [...new Set(normalized.split(' '))] : [];
+}
+
+/**
+ * Search fields stored on a product: the normalized name and internal code, and the tokens
+ * of both plus every barcode, which back prefix matching through an index
+ */
+export function buildSearchFields(product: SearchableProduct): SearchFields {
+  const textoBusqueda = normalizeSearchText([product.nombre, product.codigoInterno].filter(Boolean).join(' '));
+  return {
+    textoBusqueda,
+    terminosBusqueda: [...new Set([
+      ...tokenizeSearchText(textoBusqueda),
+      ...collectProductBarcodes(product).map(codigo => codigo.toLowerCase())
+    ])]
+  };
+}
+
+/**
+ * Build the filter and relevance score for a user-entered term. Every word must prefix one of the
+ * product's tokens, so results narrow as the user types. Exact barcode or internal code hits
+ * rank first, then products whose name starts with the term, then whole-word matches.
+ * Returns null when the term has nothing searchable.
+ */
+export function buildProductSearch(term: string): ProductSearch | null {
+  const tokens = tokenizeSearchText(term);
+  const codigo = normalizeBarcode(term.trim());
+  const codigoInterno = term.trim().toUpperCase();
+
+  if (tokens.length === 0 && !codigo) return null;
+
+  const exactMatches = [{ codigosBarrasTodos: codigo }, { codigoInterno }];
+  const tokenMatch = tokens.length > 0
+    ? [{ terminosBusqueda: { $all: tokens.map(token => new RegExp(`^${escapeRegex(token)}`)) } }]
+    : [];
+
+  const terminos = { $ifNull: ['$terminosBusqueda', []] };
+
+  return {
+    match: { $or: [...exactMatches, ...tokenMatch] },
+    score: {
+      $add: [
+        {
+          $cond: [
+            {
+              $or: [
+                { $in: [codigo, { $ifNull: ['$codigosBarrasTodos', []] }] },
+                { $eq: ['$codigoInterno', codigoInterno] }
+              ]
+            },
+            EXACT_CODE_SCORE,
+            0
+          ]
+        },
+        {
+          $cond: [
+            { $eq: [{ $indexOfCP: [{ $ifNull: ['$textoBusqueda', ''] }, tokens.join(' ')] }, 0] },
+            PHRASE_PREFIX_SCORE,
+            0
+          ]
+        },
+        ...tokens.map(token => ({ $cond: [{ $in: [token, terminos] }, WHOLE_TOKEN_SCORE, TOKEN_PREFIX_SCORE] }))
+      ]
+    }
+  };
+}
+
+/**
+ * Recompute the search fields of the products matching the filter. Run it once over the whole
+ * collection after upgrading, and after changing names or codes through `bulkWrite` or update
+ * pipelines. Returns the number of products updated.
+ */
+export async function rebuildSearchIndex(
+  filter: Record<string, any> = {},
+  batchSize: number = 500
+): Promise<number> {
+  const Product = mongoose.models.Product;
+  let updated = 0;
+  let batch: any[] = [];
+
+  const flush = async () => {
+    const operations = batch
+      .map(product => ({ product, fields: buildSearchFields(product) }))
+      .filter(({ product, fields }) =>
+        product.textoBusqueda !== fields.textoBusqueda
+        || String(product.terminosBusqueda) !== String(fields.terminosBusqueda)
+      )
+      .map(({ product, fields }) => ({
+        updateOne: { filter: { _id: product._id }, update: { $set: fields } }
+      }));
+
+    if (operations.length > 0) {
+      await Product.bulkWrite(operations);
+      updated += operations.length;
+    }
+    batch = [];
+  };
+
+  const cursor = Product.find(filter, {
+    nombre: 1,
+    codigoInterno: 1,
+    codigosBarras: 1,
+    codigoBarras: 1,
+    codigoBarrasInterno: 1,
+    'variantes.codigosBarras': 1,
+    textoBusqueda: 1,
+    terminosBusqueda: 1
+  }).lean().cursor();
+
+  for await (const product of cursor) {
+    batch.push(product);
+    if (batch.length >= batchSize) {
+      await flush();
+    }
+  }
+  if (batch.length > 0) {
+    await flush();
+  }
+
+  return updated;
+}
\ No newline at end of file
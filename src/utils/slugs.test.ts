@@ -0,0 +1,74 @@
+import mongoose from 'mongoose';
+import { Brand } from '../models/Brand';
+import { nextFreeSlug, slugify } from './slugs';
+
+describe('slugify', () => {
+  it('transliterates accents and ñ and joins words with dashes', () => {
+    expect(slugify('Electrónica & Señales')).toBe('electronica-senales');
+    expect(slugify('  Televisor  LED 55"  ')).toBe('televisor-led-55');
+    expect(slugify('PEÑA')).toBe('pena');
+  });
+
+  it('returns an empty slug for text without letters or digits', () => {
+    expect(slugify('¡¿?!')).toBe('');
+  });
+});
+
+describe('nextFreeSlug', () => {
+  it('keeps the base when it is free', () => {
+    expect(nextFreeSlug('tv', new Set(['tv-2']))).toBe('tv');
+  });
+
+  it('adds the first free numeric suffix', () => {
+    expect(nextFreeSlug('tv', new Set(['tv']))).toBe('tv-2');
+    expect(nextFreeSlug('tv', new Set(['tv', 'tv-2', 'tv-3', 'tv-5']))).toBe('tv-4');
+  });
+});
+
+describe('retrySlugConflicts', () => {
+  const conflict = Object.assign(new Error('E11000 duplicate key error'), { code: 11000, keyPattern: { slug: 1 } });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('saves again with a new slug when a concurrent save took it', async () => {
+    const slugs: unknown[] = [];
+    const save = jest.spyOn(mongoose.Model.prototype, 'save').mockImplementation(async function(this: any) {
+      slugs.push(this.slug);
+      if (slugs.length === 1) {
+        this.slug = 'samsung'; // Generated by the save hooks, then taken by another brand
+        throw conflict;
+      }
+      return this;
+    });
+
+    await new Brand({ nombre: 'Samsung' }).save();
+
+    // Without a slug the hooks generate it again, now seeing the other brand's
+    expect(save).toHaveBeenCalledTimes(2);
+    expect(slugs).toEqual([undefined, undefined]);
+  });
+
+  it('keeps a slug set by hand as the base of the retry', async () => {
+    const slugs: unknown[] = [];
+    jest.spyOn(mongoose.Model.prototype, 'save').mockImplementation(async function(this: any) {
+      slugs.push(this.slug);
+      if (slugs.length === 1) {
+        this.slug = 'tv-2';
+        throw conflict;
+      }
+      return this;
+    });
+
+    await new Brand({ nombre: 'Televisores', slug: 'tv' }).save();
+
+    expect(slugs).toEqual(['tv', 'tv']);
+  });
+
+  it('does not retry other duplicate keys', async () => {
+    const duplicate = Object.assign(new Error('E11000 duplicate key error'), { code: 11000, keyPattern: { nombre: 1 } });
+    const save = jest.spyOn(mongoose.Model.prototype, 'save').mockRejectedValue(duplicate);
+
+    await expect(new Brand({ nombre: 'Samsung' }).save()).rejects.toBe(duplicate);
+    expect(save).toHaveBeenCalledTimes(1);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,171 @@
+import mongoose, { Model, Query, Schema } from 'mongoose';
+import { escapeRegex, normalizeSearchText } from './search';
+
+export interface SlugLookup<T = any> {
+  item: T;
+  redirect: boolean; // True when found by a previous slug; redirect to `item.slug`
+}
+
+export interface SlugRebuildOptions {
+  all?: boolean; // Regenerate every slug from its source instead of only the missing ones
+  batchSize?: number;
+}
+
+/**
+ * URL slug of a text: accents and ñ transliterated, lowercase, words joined by dashes
+ * ("Electrónica & Señales" -> "electronica-senales")
+ */
+export function slugify(text: string): string {
+  return normalizeSearchText(text).replace(/ /g, '-');
+}
+
+/**
+ * Slugs already used by other documents, as current or previous slug, that start with `base`
+ */
+async function takenSlugs(model: Model<any>, base: string, excludeId?: unknown): Promise<Set<string>> {
+  const pattern = new RegExp(`^${escapeRegex(base)}(-\\d+)?$`);
+  const docs = await model.find(
+    {
+      ...(excludeId !== undefined ? { _id: { $ne: excludeId } } : {}),
+      $or: [{ slug: pattern }, { slugsAnteriores: pattern }]
+    },
+    { slug: 1, slugsAnteriores: 1 }
+  ).lean() as any[];
+
+  return new Set(docs.flatMap(doc => [doc.slug, ...(doc.slugsAnteriores || [])]));
+}
+
+/**
+ * First of `base`, `base-2`, `base-3`... not in `taken`
+ */
+export function nextFreeSlug(base: string, taken: Set<string>): string {
+  if (!taken.has(base)) return base;
+  let suffix = 2;
+  while (taken.has(`${base}-${suffix}`)) suffix++;
+  return `${base}-${suffix}`;
+}
+
+/**
+ * Give a document a unique slug from `source`, or from its own `slug` when it was set by hand,
+ * and keep the replaced slug in `slugsAnteriores`. Slugs another document used before are not
+ * reused, so their old URLs keep redirecting to them. Call it from a pre('save') hook, and apply
+ * retrySlugConflicts to the schema for concurrent saves.
+ */
+export async function assignSlug(doc: any, source: string): Promise<void> {
+  const model = doc.constructor as Model<any>;
+  const manual = doc.isModified('slug') && doc.slug;
+  const base = slugify(manual ? doc.slug : source) || String(doc._id);
+
+  const anterior: string | undefined = doc.isNew
+    ? undefined
+    : (await model.findById(doc._id, { slug: 1 }).session(doc.$session()).lean() as any)?.slug;
+
+  // The document's own slugs do not count as taken, so an unchanged base keeps its slug
+  const slug = nextFreeSlug(base, await takenSlugs(model, base, doc._id));
+  const historial: string[] = doc.slugsAnteriores || [];
+  doc.slugsAnteriores = [
+    ...historial.filter((previo: string) => previo !== slug && previo !== anterior),
+    ...(anterior && anterior !== slug ? [anterior] : [])
+  ];
+  doc.slug = slug;
+}
+
+const MAX_SLUG_ATTEMPTS = 5;
+
+function isSlugConflict(error: any): boolean {
+  return error?.code === 11000 && (error.keyPattern?.slug !== undefined || error.keyValue?.slug !== undefined);
+}
+
+/**
+ * Retry save() when another document took the same slug between assignSlug's check and the
+ * write: the unique index rejects the later one, which then takes the next free slug. Mongoose
+ * error hooks cannot turn a failed save into a successful one, so save() itself is wrapped.
+ * Saves inside a transaction are not retried, since the failed write aborted it.
+ */
+export function retrySlugConflicts(schema: Schema): void {
+  schema.method('save', async function(this: any, ...args: any[]) {
+    // Slugs set by hand are kept as the base; generated ones are generated again
+    const manual = this.isModified('slug') && this.slug ? this.slug : undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await Model.prototype.save.apply(this, args);
+      } catch (error) {
+        if (attempt >= MAX_SLUG_ATTEMPTS || !isSlugConflict(error) || this.$session()?.inTransaction()) {
+          throw error;
+        }
+        this.slug = manual;
+      }
+    }
+  }, { suppressWarning: true });
+}
+
+/**
+ * Find a lean document by its current slug or, failing that, by a previous one. `customize` can
+ * add populate or projection to the queries.
+ */
+export async function findBySlug<T = any>(
+  model: Model<any>,
+  slug: string,
+  customize: (query: Query<any, any>) => Query<any, any> = query => query
+): Promise<SlugLookup<T> | null> {
+  const current = await customize(model.findOne({ slug })).lean();
+  if (current) return { item: current as T, redirect: false };
+
+  const previous = await customize(model.findOne({ slugsAnteriores: slug })).lean();
+  return previous ? { item: previous as T, redirect: true } : null;
+}
+
+/**
+ * Generate the slugs of the documents missing one, or of all of them with `all` (previous slugs
+ * are kept for redirects). `source` gives the text a document's slug comes from. Saves through
+ * bulkWrite, so no save hooks run. Returns the number of documents updated.
+ */
+export async function rebuildSlugs(
+  modelName: string,
+  source: (doc: any) => string,
+  options: SlugRebuildOptions = {}
+): Promise<number> {
+  const { all = false, batchSize = 500 } = options;
+  const model = mongoose.models[modelName];
+
+  const existing = await model.find({}, { slug: 1, slugsAnteriores: 1 }).lean() as any[];
+  const taken = new Set<string>(existing.flatMap(doc => [doc.slug, ...(doc.slugsAnteriores || [])].filter(Boolean)));
+
+  let updated = 0;
+  let operations: any[] = [];
+  const flush = async () => {
+    if (operations.length > 0) {
+      await model.bulkWrite(operations);
+      updated += operations.length;
+      operations = [];
+    }
+  };
+
+  const cursor = model.find(all ? {} : { $or: [{ slug: { $exists: false } }, { slug: null }, { slug: '' }] }).lean().cursor();
+
+  for await (const doc of cursor) {
+    const base = slugify(source(doc)) || String(doc._id);
+
+    // The document's own slugs are free for it to take back
+    const own: string[] = [doc.slug, ...(doc.slugsAnteriores || [])].filter(Boolean);
+    own.forEach(previo => taken.delete(previo));
+    const slug = nextFreeSlug(base, taken);
+    own.forEach(previo => taken.add(previo));
+    taken.add(slug);
+    if (slug === doc.slug) continue;
+
+    const slugsAnteriores = [
+      ...(doc.slugsAnteriores || []).filter((previo: string) => previo !== slug),
+      ...(doc.slug && doc.slug !== slug ? [doc.slug] : [])
+    ];
+    operations.push({ updateOne: { filter: { _id: doc._id }, update: { $set: { slug, slugsAnteriores } } } });
+
+    if (operations.length >= batchSize) {
+      await flush();
+    }
+  }
+  await flush();
+
+  return updated;
+}
\ No newline at end of file
@@ -0,0 +1,167 @@
+import mongoose from 'mongoose';
+import {
+  castEspecificacionValue,
+  checkProductEspecificaciones,
+  EspecificacionDefinition,
+  replaceProductEspecificacion
+} from './specifications';
+import { Especificacion } from '../models/Especificacion';
+
+const pantalla: EspecificacionDefinition = { nombre: 'Pantalla', tipo: 'numero', unidad: 'pulgadas', min: 1, max: 100 };
+const color: EspecificacionDefinition = {
+  nombre: 'Color',
+  tipo: 'opcion',
+  opciones: [{ valor: 'Rojo' }, { valor: 'Azul' }]
+};
+
+describe('castEspecificacionValue', () => {
+  it('parses numbers with a decimal comma and the unit as suffix', () => {
+    expect(castEspecificacionValue(pantalla, '15,6 pulgadas')).toEqual({ valor: 15.6 });
+    expect(castEspecificacionValue(pantalla, '55')).toEqual({ valor: 55 });
+    expect(castEspecificacionValue(pantalla, 32)).toEqual({ valor: 32 });
+  });
+
+  it('rejects numbers out of range or unreadable', () => {
+    expect(castEspecificacionValue(pantalla, 0)).toEqual({ error: 'El valor de Pantalla debe ser al menos 1 pulgadas' });
+    expect(castEspecificacionValue(pantalla, '120')).toEqual({ error: 'El valor de Pantalla no puede superar 100 pulgadas' });
+    expect(castEspecificacionValue(pantalla, 'grande').error).toBe('El valor de Pantalla debe ser un número: grande');
+    expect(castEspecificacionValue(pantalla, '').error).toBeDefined();
+  });
+
+  it('reads booleans in Spanish and English', () => {
+    const wifi: EspecificacionDefinition = { nombre: 'WiFi', tipo: 'booleano' };
+    expect(castEspecificacionValue(wifi, 'Sí')).toEqual({ valor: true });
+    expect(castEspecificacionValue(wifi, 'no')).toEqual({ valor: false });
+    expect(castEspecificacionValue(wifi, false)).toEqual({ valor: false });
+    expect(castEspecificacionValue(wifi, 'quizás').error).toBe('El valor de WiFi debe ser sí o no: quizás');
+  });
+
+  it('accepts one of the options, or any text with valorLibre', () => {
+    expect(castEspecificacionValue(color, ' Rojo ')).toEqual({ valor: 'Rojo' });
+    expect(castEspecificacionValue(color, 'Verde').error).toBe('Valor no válido para Color: Verde (opciones: Rojo, Azul)');
+    expect(castEspecificacionValue({ ...color, valorLibre: true }, 'Verde')).toEqual({ valor: 'Verde' });
+    expect(castEspecificacionValue(color, ['Rojo']).error).toBe('El valor de Color debe ser un único valor');
+  });
+
+  it('treats definitions without a type as options', () => {
+    expect(castEspecificacionValue({ ...color, tipo: undefined }, 'Azul')).toEqual({ valor: 'Azul' });
+    expect(castEspecificacionValue({ ...color, tipo: undefined }, 'Verde').error).toBeDefined();
+  });
+
+  it('keeps any trimmed text and rejects empty values', () => {
+    const modelo: EspecificacionDefinition = { nombre: 'Modelo', tipo: 'texto' };
+    expect(castEspecificacionValue(modelo, '  XR-500 ')).toEqual({ valor: 'XR-500' });
+    expect(castEspecificacionValue(modelo, '   ')).toEqual({ error: 'El valor de Modelo no puede estar vacío' });
+  });
+
+  it('turns multiple values into a list of distinct options', () => {
+    const colores = { ...color, tipo: 'multiple' as const };
+    expect(castEspecificacionValue(colores, ['Rojo', ' Azul', 'Rojo', ''])).toEqual({ valor: ['Rojo', 'Azul'] });
+    expect(castEspecificacionValue(colores, 'Azul')).toEqual({ valor: ['Azul'] });
+    expect(castEspecificacionValue(colores, []).error).toBe('El valor de Color no puede estar vacío');
+    expect(castEspecificacionValue(colores, ['Rojo', 'Verde']).error).toBeDefined();
+  });
+});
+
+describe('replaceProductEspecificacion', () => {
+  const tamano: EspecificacionDefinition = { nombre: 'Tamaño', tipo: 'numero', unidad: 'pulgadas' };
+
+  it('moves values and variants to the replacement, cast to its type', () => {
+    const result = replaceProductEspecificacion({
+      especificaciones: [{ especificacionId: 'viejo', valor: '55' }, { especificacionId: 'color', valor: 'Rojo' }],
+      variantes: [{ especificacionId: 'viejo', valor: '55 pulgadas', stock: 3 }]
+    }, 'viejo', 'tamano', tamano);
+
+    expect(result).toEqual({
+      especificaciones: [{ especificacionId: 'tamano', valor: 55 }, { especificacionId: 'color', valor: 'Rojo' }],
+      variantes: [{ especificacionId: 'tamano', valor: '55', stock: 3 }],
+      errores: []
+    });
+  });
+
+  it('keeps the value the product already has for the replacement', () => {
+    const result = replaceProductEspecificacion({
+      especificaciones: [{ especificacionId: 'viejo', valor: '50' }, { especificacionId: 'tamano', valor: 55 }]
+    }, 'viejo', 'tamano', tamano);
+
+    expect(result.especificaciones).toEqual([{ especificacionId: 'tamano', valor: 55 }]);
+    expect(result.errores).toEqual([]);
+  });
+
+  it('reports values that do not fit the replacement', () => {
+    const result = replaceProductEspecificacion({
+      especificaciones: [{ especificacionId: 'viejo', valor: 'grande' }]
+    }, 'viejo', 'tamano', tamano);
+
+    expect(result.errores).toEqual(['El valor de Tamaño debe ser un número: grande']);
+  });
+
+  it('reports variants that are not an option of the replacement', () => {
+    const result = replaceProductEspecificacion({
+      variantes: [
+        { especificacionId: 'viejo', valor: ' Rojo ', stock: 1 },
+        { especificacionId: 'viejo', valor: 'Verde', stock: 2 }
+      ]
+    }, 'viejo', 'color', { ...color, tipo: 'multiple' });
+
+    expect(result.variantes.map(variante => variante.valor)).toEqual(['Rojo', 'Verde']);
+    expect(result.errores).toEqual(['Valor no válido para Color: Verde (opciones: Rojo, Azul)']);
+  });
+
+  it('reports variants that repeat an option of the replacement', () => {
+    const result = replaceProductEspecificacion({
+      variantes: [
+        { especificacionId: 'tamano', valor: '55', stock: 1 },
+        { especificacionId: 'viejo', valor: '55', stock: 2 }
+      ]
+    }, 'viejo', 'tamano', tamano);
+
+    expect(result.errores).toEqual(['Ya existe una variante Tamaño: 55']);
+  });
+});
+
+describe('checkProductEspecificaciones', () => {
+  const categoriaId = new mongoose.Types.ObjectId();
+  const definitions = {
+    pantalla: { _id: new mongoose.Types.ObjectId(), ...pantalla, categoriaIds: [categoriaId] },
+    color: { _id: new mongoose.Types.ObjectId(), ...color, categoriaIds: [new mongoose.Types.ObjectId()] },
+    peso: { _id: new mongoose.Types.ObjectId(), nombre: 'Peso', tipo: 'numero', categoriaIds: [categoriaId], isActive: false }
+  };
+
+  beforeEach(() => {
+    jest.spyOn(Especificacion, 'find').mockReturnValue({ lean: async () => Object.values(definitions) } as any);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('casts the values of active especificaciones of the category', async () => {
+    await expect(checkProductEspecificaciones({
+      categoriaId,
+      especificaciones: [{ especificacionId: String(definitions.pantalla._id), valor: '15,6' }]
+    })).resolves.toEqual({ issues: [], valores: [15.6] });
+  });
+
+  it('reports each problem with the position of the especificacion', async () => {
+    const inexistente = String(new mongoose.Types.ObjectId());
+
+    const { issues, valores } = await checkProductEspecificaciones({
+      categoriaId,
+      especificaciones: [
+        { especificacionId: String(definitions.pantalla._id), valor: 'grande' },
+        { especificacionId: inexistente, valor: 'x' },
+        { especificacionId: String(definitions.color._id), valor: 'Rojo' },
+        { especificacionId: String(definitions.peso._id), valor: 2 },
+        { especificacionId: String(definitions.pantalla._id), valor: 14 }
+      ]
+    });
+
+    expect(issues.map(({ index, field, message }) => [index, field, message])).toEqual([
+      [0, 'valor', 'El valor de Pantalla debe ser un número: grande'],
+      [1, 'especificacionId', `La especificación no existe: ${inexistente}`],
+      [2, 'especificacionId', 'La especificación Color no corresponde a la categoría del producto'],
+      [3, 'especificacionId', 'La especificación Peso está inactiva'],
+      [4, 'especificacionId', 'La especificación Pantalla está repetida']
+    ]);
+    expect(valores).toEqual(['grande', 'x', 'Rojo', 2, 14]);
+  });
+});
\ No newline at end of file
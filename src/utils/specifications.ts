@@ -0,0 +1,330 @@
+import mongoose from 'mongoose';
+import { EspecificacionValor, TipoEspecificacion } from '../types';
+
+export interface EspecificacionIssue {
+  index: number; // Position in the product's especificaciones
+  field: 'especificacionId' | 'valor';
+  value: unknown;
+  message: string;
+}
+
+export interface EspecificacionCheck {
+  issues: EspecificacionIssue[];
+  valores: unknown[]; // Values cast to the type of their specification, by position
+}
+
+export interface ProductEspecificaciones {
+  categoriaId?: unknown;
+  especificaciones?: Array<{ especificacionId: string; valor: unknown }>;
+}
+
+export interface EspecificacionDefinition {
+  nombre: string;
+  tipo?: TipoEspecificacion; // Definitions saved before types existed are 'opcion'
+  unidad?: string;
+  min?: number;
+  max?: number;
+  opciones?: Array<{ valor: string }>;
+  valorLibre?: boolean;
+}
+
+export interface CastResult {
+  valor?: EspecificacionValor;
+  error?: string;
+}
+
+// Use one of valor, valores or the min/max range; a range takes precedence
+export interface EspecificacionFilter {
+  especificacionId: string;
+  valor?: string | number | boolean; // Exact value; 'multiple' specifications match when it is one of theirs
+  valores?: Array<string | number | boolean>; // Any of these values
+  min?: number; // Inclusive numeric range
+  max?: number;
+}
+
+export interface EspecificacionReplacement {
+  especificaciones: Array<{ especificacionId: string; valor: unknown }>;
+  variantes: Array<{ especificacionId: string; valor: string; [key: string]: any }>;
+  errores: string[]; // Why the product cannot take the replacement; empty when it can
+}
+
+export interface RecastReport {
+  updated: number;
+  invalid: Array<{ productId: string; valor: unknown; error: string }>; // Values left as they were
+}
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true,
+  false: false,
+  si: true,
+  'sí': true,
+  no: false,
+  '1': true,
+  '0': false,
+};
+
+function formatNumber(definition: EspecificacionDefinition, value: number): string {
+  return definition.unidad ? `${value} ${definition.unidad}` : String(value);
+}
+
+/**
+ * Parse a numeric value, accepting a decimal comma and the specification's unit as suffix
+ * ("15,6 pulgadas" -> 15.6)
+ */
+function parseNumber(definition: EspecificacionDefinition, valor: unknown): number {
+  if (typeof valor === 'number') return valor;
+  if (typeof valor !== 'string') return NaN;
+
+  let text = valor.trim();
+  const unidad = definition.unidad?.trim();
+  if (unidad && text.toLowerCase().endsWith(unidad.toLowerCase())) {
+    text = text.slice(0, -unidad.length).trim();
+  }
+  return text === '' ? NaN : Number(text.replace(',', '.'));
+}
+
+function checkOption(definition: EspecificacionDefinition, valor: string): string | undefined {
+  const opciones = (definition.opciones || []).map(opcion => opcion.valor);
+  if (!definition.valorLibre && !opciones.includes(valor)) {
+    return `Valor no válido para ${definition.nombre}: ${valor} (opciones: ${opciones.join(', ')})`;
+  }
+  return undefined;
+}
+
+/**
+ * Convert a value to the type its specification declares: numbers within min/max, booleans,
+ * trimmed text, one option or a list of distinct options
+ */
+export function castEspecificacionValue(definition: EspecificacionDefinition, valor: unknown): CastResult {
+  const vacio = { error: `El valor de ${definition.nombre} no puede estar vacío` };
+
+  switch (definition.tipo ?? 'opcion') {
+    case 'numero': {
+      const numero = parseNumber(definition, valor);
+      if (!Number.isFinite(numero)) {
+        return { error: `El valor de ${definition.nombre} debe ser un número: ${String(valor)}` };
+      }
+      if (typeof definition.min === 'number' && numero < definition.min) {
+        return { error: `El valor de ${definition.nombre} debe ser al menos ${formatNumber(definition, definition.min)}` };
+      }
+      if (typeof definition.max === 'number' && numero > definition.max) {
+        return { error: `El valor de ${definition.nombre} no puede superar ${formatNumber(definition, definition.max)}` };
+      }
+      return { valor: numero };
+    }
+    case 'booleano': {
+      const booleano = typeof valor === 'boolean' ? valor : BOOLEAN_VALUES[String(valor).trim().toLowerCase()];
+      if (booleano === undefined) {
+        return { error: `El valor de ${definition.nombre} debe ser sí o no: ${String(valor)}` };
+      }
+      return { valor: booleano };
+    }
+    case 'multiple': {
+      const valores = [...new Set((Array.isArray(valor) ? valor : [valor])
+        .map(v => String(v ?? '').trim())
+        .filter(Boolean))];
+      if (valores.length === 0) return vacio;
+
+      for (const v of valores) {
+        const error = checkOption(definition, v);
+        if (error) return { error };
+      }
+      return { valor: valores };
+    }
+    default: {
+      if (Array.isArray(valor) || (valor !== null && typeof valor === 'object')) {
+        return { error: `El valor de ${definition.nombre} debe ser un único valor` };
+      }
+      const texto = String(valor ?? '').trim();
+      if (!texto) return vacio;
+
+      const error = definition.tipo === 'texto' ? undefined : checkOption(definition, texto);
+      return error ? { error } : { valor: texto };
+    }
+  }
+}
+
+/**
+ * Check each of a product's especificaciones against its definition: it must exist, be active,
+ * be assigned to the product's category and appear once, and its value must match the
+ * specification's type. Values that pass are returned cast to that type.
+ */
+export async function checkProductEspecificaciones(product: ProductEspecificaciones): Promise<EspecificacionCheck> {
+  const especificaciones = product.especificaciones || [];
+  if (especificaciones.length === 0) return { issues: [], valores: [] };
+
+  const ids = [...new Set(especificaciones.map(e => String(e.especificacionId)))]
+    .filter(id => mongoose.isValidObjectId(id));
+  const definitions = await mongoose.models.Especificacion.find(
+    { _id: { $in: ids } },
+    { nombre: 1, tipo: 1, unidad: 1, min: 1, max: 1, opciones: 1, categoriaIds: 1, isActive: 1, valorLibre: 1 }
+  ).lean();
+  const byId = new Map((definitions as any[]).map(definition => [String(definition._id), definition]));
+
+  const categoriaId = String(product.categoriaId ?? '');
+  const seen = new Set<string>();
+  const issues: EspecificacionIssue[] = [];
+  const valores = especificaciones.map(e => e.valor);
+
+  especificaciones.forEach(({ especificacionId, valor }, index) => {
+    const id = String(especificacionId);
+    const definition = byId.get(id);
+    const issue = (field: EspecificacionIssue['field'], value: unknown, message: string) =>
+      issues.push({ index, field, value, message });
+
+    if (!definition) {
+      issue('especificacionId', especificacionId, `La especificación no existe: ${id}`);
+      return;
+    }
+    if (seen.has(id)) {
+      issue('especificacionId', especificacionId, `La especificación ${definition.nombre} está repetida`);
+      return;
+    }
+    seen.add(id);
+
+    if (definition.isActive === false) {
+      issue('especificacionId', especificacionId, `La especificación ${definition.nombre} está inactiva`);
+    }
+    if (!(definition.categoriaIds || []).map(String).includes(categoriaId)) {
+      issue('especificacionId', especificacionId, `La especificación ${definition.nombre} no corresponde a la categoría del producto`);
+    }
+
+    const cast = castEspecificacionValue(definition, valor);
+    if (cast.error) {
+      issue('valor', valor, cast.error);
+    } else {
+      valores[index] = cast.valor;
+    }
+  });
+
+  return { issues, valores };
+}
+
+/**
+ * A product's especificaciones and variantes with specification `fromId` replaced by `toId`.
+ * Values, variants' included, are cast to the replacement's type, so values that are not one of
+ * its options are reported. When the product already has the replacement, its
+ * own value is kept and the replaced entry dropped; variants that would repeat an existing
+ * option of the replacement are reported instead, since both carry stock.
+ */
+export function replaceProductEspecificacion(
+  product: { especificaciones?: Array<{ especificacionId: string; valor: unknown }>; variantes?: any[] },
+  fromId: string,
+  toId: string,
+  definition: EspecificacionDefinition
+): EspecificacionReplacement {
+  const errores: string[] = [];
+  const hasReplacement = (product.especificaciones || []).some(e => String(e.especificacionId) === toId);
+
+  const especificaciones = (product.especificaciones || []).flatMap(especificacion => {
+    if (String(especificacion.especificacionId) !== fromId) return [especificacion];
+    if (hasReplacement) return [];
+
+    const cast = castEspecificacionValue(definition, especificacion.valor);
+    if (cast.error) {
+      errores.push(cast.error);
+      return [especificacion];
+    }
+    return [{ ...especificacion, especificacionId: toId, valor: cast.valor }];
+  });
+
+  // Each variant holds a single option, also when the replacement takes several
+  const varianteDefinition = definition.tipo === 'multiple' ? { ...definition, tipo: 'opcion' as const } : definition;
+  const keys = new Set((product.variantes || [])
+    .filter(variante => String(variante.especificacionId) === toId)
+    .map(variante => String(variante.valor)));
+  const variantes = (product.variantes || []).map(variante => {
+    if (String(variante.especificacionId) !== fromId) return variante;
+
+    const cast = castEspecificacionValue(varianteDefinition, variante.valor);
+    if (cast.error) {
+      errores.push(cast.error);
+      return { ...variante, especificacionId: toId };
+    }
+
+    const valor = String(cast.valor);
+    if (keys.has(valor)) {
+      errores.push(`Ya existe una variante ${definition.nombre}: ${valor}`);
+    }
+    keys.add(valor);
+    return { ...variante, especificacionId: toId, valor };
+  });
+
+  return { especificaciones, variantes, errores };
+}
+
+/**
+ * Filter on `especificaciones` selecting the products whose value for the specification
+ * matches. Ranges only match numeric values.
+ */
+export function buildEspecificacionFilter(filter: EspecificacionFilter): Record<string, any> {
+  const conditions: Record<string, any> = { especificacionId: String(filter.especificacionId) };
+
+  if (typeof filter.min === 'number' || typeof filter.max === 'number') {
+    conditions.valor = {
+      ...(typeof filter.min === 'number' ? { $gte: filter.min } : {}),
+      ...(typeof filter.max === 'number' ? { $lte: filter.max } : {})
+    };
+  } else if (filter.valor !== undefined) {
+    conditions.valor = filter.valor;
+  } else if (filter.valores) {
+    conditions.valor = { $in: filter.valores };
+  }
+
+  return { especificaciones: { $elemMatch: conditions } };
+}
+
+/**
+ * Re-cast the stored values of a specification after its type changes, e.g. "16" -> 16 when
+ * it becomes numeric. Values that do not convert are reported and left for the user to fix.
+ */
+export async function recastEspecificacionValues(
+  especificacionId: string,
+  batchSize: number = 500
+): Promise<RecastReport> {
+  const Product = mongoose.models.Product;
+  const definition = await mongoose.models.Especificacion.findById(especificacionId).lean() as EspecificacionDefinition | null;
+  const report: RecastReport = { updated: 0, invalid: [] };
+  if (!definition) return report;
+
+  let operations: any[] = [];
+  const flush = async () => {
+    if (operations.length > 0) {
+      await Product.bulkWrite(operations);
+      report.updated += operations.length;
+      operations = [];
+    }
+  };
+
+  const cursor = Product.find(
+    { 'especificaciones.especificacionId': String(especificacionId) },
+    { especificaciones: 1 }
+  ).lean().cursor();
+
+  for await (const product of cursor) {
+    const especificaciones = (product as any).especificaciones || [];
+    let changed = false;
+
+    for (const especificacion of especificaciones) {
+      if (String(especificacion.especificacionId) !== String(especificacionId)) continue;
+
+      const cast = castEspecificacionValue(definition, especificacion.valor);
+      if (cast.error) {
+        report.invalid.push({ productId: String(product._id), valor: especificacion.valor, error: cast.error });
+      } else if (JSON.stringify(cast.valor) !== JSON.stringify(especificacion.valor)) {
+        especificacion.valor = cast.valor;
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      operations.push({ updateOne: { filter: { _id: product._id }, update: { $set: { especificaciones } } } });
+    }
+    if (operations.length >= batchSize) {
+      await flush();
+    }
+  }
+  await flush();
+
+  return report;
+}
\ No newline at end of file
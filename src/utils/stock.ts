@@ -0,0 +1,78 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { StockMovementType, StockReferenceType } from '../types';
+
+export interface StockMovementInput {
+  quantity: number; // Signed: positive adds stock, negative removes it
+  type: StockMovementType;
+  varianteId?: string; // Required for products with variants; moves that variant's stock
+  reason?: string;
+  userId?: string;
+  referenceType?: StockReferenceType;
+  referenceId?: string;
+  allowNegative?: boolean; // Allow the resulting stock to go below zero (default: false)
+}
+
+export interface StockMovementResult {
+  product: any;
+  movement: any;
+}
+
+/**
+ * Change the stock of a product, or of one of its variants, and record the movement, as part of
+ * the caller's transaction
+ */
+export async function applyStockMovement(
+  productId: string,
+  input: StockMovementInput,
+  session: ClientSession
+): Promise<StockMovementResult> {
+  const { quantity, varianteId, allowNegative = false, ...movementData } = input;
+  const Product = mongoose.models.Product;
+
+  // Stock checks live in the filter, so the check and the update are one operation
+  const filter: any = { _id: productId };
+  const update: any = { $inc: { stock: quantity } };
+  if (varianteId) {
+    filter.variantes = { $elemMatch: { _id: varianteId } };
+    if (quantity < 0 && !allowNegative) {
+      filter.variantes.$elemMatch.stock = { $gte: -quantity };
+    }
+    update.$inc['variantes.$.stock'] = quantity;
+  } else {
+    filter['variantes.0'] = { $exists: false };
+    if (quantity < 0 && !allowNegative) {
+      filter.stock = { $gte: -quantity };
+    }
+  }
+
+  const product: any = await Product.findOneAndUpdate(filter, update, { new: true, session }).lean();
+
+  if (!product) {
+    const existing: any = await Product.findById(productId, { variantes: 1 }).session(session).lean();
+    if (!existing) {
+      throw new Error(`Producto ${productId} no encontrado`);
+    }
+    if (!varianteId && existing.variantes?.length > 0) {
+      throw new Error(`El producto ${productId} tiene variantes: indique la variante a ajustar`);
+    }
+    if (varianteId && !existing.variantes?.some((v: any) => v._id.toString() === varianteId)) {
+      throw new Error(`Variante ${varianteId} no encontrada en el producto ${productId}`);
+    }
+    throw new Error(`Stock insuficiente para descontar ${-quantity} unidades del producto ${productId}`);
+  }
+
+  const newStock = varianteId
+    ? product.variantes.find((v: any) => v._id.toString() === varianteId).stock
+    : product.stock;
+
+  const [movement] = await mongoose.models.StockMovement.create([{
+    ...movementData,
+    productId,
+    varianteId,
+    quantity,
+    previousStock: newStock - quantity,
+    newStock,
+  }], { session });
+
+  return { product, movement: movement.toObject() };
+}
\ No newline at end of file
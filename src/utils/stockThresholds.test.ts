@@ -0,0 +1,153 @@
+import mongoose from 'mongoose';
+import { Category } from '../models/Category';
+import {
+  DEFAULT_UMBRAL_STOCK_BAJO,
+  ThresholdSources,
+  UMBRAL_DESACTIVADO,
+  loadThresholdSources,
+  resolveProductThreshold,
+  resolveProductThresholds
+} from './stockThresholds';
+
+const sources: ThresholdSources = {
+  categories: new Map<string, any>([
+    ['musica', {
+      _id: 'musica',
+      umbralStockBajo: 8,
+      subcategorias: [
+        { _id: 'vinilos', umbralStockBajo: 3 },
+        { _id: 'cds', umbralStockBajo: 6 },
+        { _id: 'casetes' }
+      ]
+    }],
+    ['libros', { _id: 'libros', subcategorias: [] }],
+    ['instrumentos', { _id: 'instrumentos', umbralStockBajo: 12 }],
+    ['cuerdas', { _id: 'cuerdas', umbralStockBajo: 7, ancestros: ['instrumentos'] }],
+    ['guitarras', { _id: 'guitarras', ancestros: ['instrumentos', 'cuerdas'] }],
+    ['vientos', { _id: 'vientos', ancestros: ['instrumentos'] }]
+  ]),
+  especificaciones: new Map<string, any>([
+    ['color', {
+      _id: 'color',
+      umbralStockBajoGeneral: 4,
+      opciones: [
+        { valor: 'Rojo', umbralStockBajo: 10, tieneUmbral: true },
+        { valor: 'Azul', umbralStockBajo: 2, tieneUmbral: true },
+        { valor: 'Negro', umbralStockBajo: -1, tieneUmbral: true },
+        { valor: 'Verde', umbralStockBajo: 7, tieneUmbral: false }
+      ]
+    }],
+    ['formato', { _id: 'formato', umbralStockBajoGeneral: 9, opciones: [] }]
+  ])
+};
+
+describe('resolveProductThreshold', () => {
+  it('uses the product threshold, zero included', () => {
+    expect(resolveProductThreshold({ umbralStockBajo: 0, categoriaId: 'musica' }, sources))
+      .toEqual({ umbral: 0, origen: 'producto' });
+  });
+
+  it('treats null as inherit', () => {
+    expect(resolveProductThreshold({ umbralStockBajo: null, categoriaId: 'musica' }, sources))
+      .toEqual({ umbral: 8, origen: 'categoria' });
+  });
+
+  it('takes the highest enabled option threshold', () => {
+    const product = {
+      categoriaId: 'libros',
+      especificaciones: [{ especificacionId: 'color', valor: ['Rojo', 'Azul', 'Negro'] }]
+    };
+    expect(resolveProductThreshold(product, sources)).toEqual({ umbral: 10, origen: 'opcion' });
+  });
+
+  it('disables alerts when the only matching options disable them', () => {
+    const product = { categoriaId: 'libros', especificaciones: [{ especificacionId: 'color', valor: 'Negro' }] };
+    expect(resolveProductThreshold(product, sources)).toEqual({ umbral: UMBRAL_DESACTIVADO, origen: 'opcion' });
+  });
+
+  it('prefers the subcategories and the category to the especificacion options', () => {
+    const especificaciones = [{ especificacionId: 'color', valor: 'Rojo' }];
+    expect(resolveProductThreshold({ categoriaId: 'musica', subcategoriaIds: ['vinilos'], especificaciones }, sources))
+      .toEqual({ umbral: 3, origen: 'subcategoria' });
+    expect(resolveProductThreshold({ categoriaId: 'musica', especificaciones }, sources))
+      .toEqual({ umbral: 8, origen: 'categoria' });
+  });
+
+  it('skips options without tieneUmbral', () => {
+    const product = {
+      categoriaId: 'libros',
+      especificaciones: [{ especificacionId: 'color', valor: 'Verde' }]
+    };
+    expect(resolveProductThreshold(product, sources)).toEqual({ umbral: 4, origen: 'especificacion' });
+  });
+
+  it('takes the highest threshold among the product subcategories', () => {
+    const product = { categoriaId: 'musica', subcategoriaIds: ['vinilos', 'cds', 'casetes'] };
+    expect(resolveProductThreshold(product, sources)).toEqual({ umbral: 6, origen: 'subcategoria' });
+  });
+
+  it('falls back to the category when the subcategories have no threshold', () => {
+    const product = { categoriaId: 'musica', subcategoriaIds: ['casetes'] };
+    expect(resolveProductThreshold(product, sources)).toEqual({ umbral: 8, origen: 'categoria' });
+  });
+
+  it('inherits the threshold of the nearest ancestor category that defines one', () => {
+    expect(resolveProductThreshold({ categoriaId: 'guitarras' }, sources)).toEqual({ umbral: 7, origen: 'categoria' });
+    expect(resolveProductThreshold({ categoriaId: 'vientos' }, sources)).toEqual({ umbral: 12, origen: 'categoria' });
+  });
+
+  it('takes the highest general threshold of the especificaciones', () => {
+    const product = {
+      categoriaId: 'libros',
+      especificaciones: [
+        { especificacionId: 'color', valor: 'Verde' },
+        { especificacionId: 'formato', valor: 'Tapa dura' }
+      ]
+    };
+    expect(resolveProductThreshold(product, sources)).toEqual({ umbral: 9, origen: 'especificacion' });
+  });
+
+  it('falls back to the default', () => {
+    expect(resolveProductThreshold({ categoriaId: 'libros' }, sources))
+      .toEqual({ umbral: DEFAULT_UMBRAL_STOCK_BAJO, origen: 'default' });
+    expect(resolveProductThreshold({}, sources)).toEqual({ umbral: DEFAULT_UMBRAL_STOCK_BAJO, origen: 'default' });
+  });
+});
+
+describe('resolveProductThresholds', () => {
+  it('resolves variants from their own threshold, their option and then the product', () => {
+    const variante = { especificacionId: 'color', stock: 0, codigosBarras: [], activo: true };
+    const thresholds = resolveProductThresholds({
+      categoriaId: 'musica',
+      variantes: [
+        { ...variante, valor: 'Rojo', umbralStockBajo: 1 },
+        { ...variante, valor: 'Azul' },
+        { ...variante, valor: 'Verde' }
+      ]
+    }, sources);
+
+    expect(thresholds.producto).toEqual({ umbral: 8, origen: 'categoria' });
+    expect(thresholds.variantes).toEqual([
+      { umbral: 1, origen: 'variante' },
+      { umbral: 2, origen: 'opcion' },
+      { umbral: 8, origen: 'categoria' }
+    ]);
+  });
+});
+
+describe('loadThresholdSources', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('loads the ancestors of the product categories', async () => {
+    const [raiz, padre, hoja] = [1, 2, 3].map(() => new mongoose.Types.ObjectId());
+    const find = jest.spyOn(Category, 'find')
+      .mockReturnValueOnce({ lean: async () => [{ _id: hoja, ancestros: [raiz, padre] }] } as any)
+      .mockReturnValueOnce({ lean: async () => [{ _id: raiz, umbralStockBajo: 12 }, { _id: padre }] } as any);
+
+    const loaded = await loadThresholdSources([{ categoriaId: String(hoja) }]);
+
+    expect(find).toHaveBeenLastCalledWith({ _id: { $in: [String(raiz), String(padre)] } }, { umbralStockBajo: 1 });
+    expect([...loaded.categories.keys()]).toEqual([hoja, raiz, padre].map(String));
+    expect(resolveProductThreshold({ categoriaId: String(hoja) }, loaded)).toEqual({ umbral: 12, origen: 'categoria' });
+  });
+});
\ No newline at end of file
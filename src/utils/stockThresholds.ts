@@ -0,0 +1,300 @@
+import mongoose from 'mongoose';
+import { IOpcionEspecificacion, IProductEspecificacion, IProductVariante } from '../types';
+
+export const DEFAULT_UMBRAL_STOCK_BAJO = 5;
+export const UMBRAL_DESACTIVADO = -1;
+
+// Value every product stored before thresholds were inherited
+const LEGACY_UMBRAL_DEFAULT = 5;
+
+export interface ThresholdDefaultsMigrationOptions {
+  dryRun?: boolean; // Only count the products (default: true; pass false to apply)
+  filter?: Record<string, any>; // Limit the migration, e.g. to some categories
+}
+
+export interface ThresholdDefaultsMigrationResult {
+  dryRun: boolean;
+  matched: number; // Products storing the old default
+  cleared: number; // Products whose own threshold was removed
+  recalculated: number; // Products whose effective threshold changed
+}
+
+export type ThresholdOrigin =
+  | 'producto'
+  | 'variante'
+  | 'opcion'
+  | 'subcategoria'
+  | 'categoria'
+  | 'especificacion'
+  | 'default';
+
+export interface EffectiveThreshold {
+  umbral: number; // UMBRAL_DESACTIVADO (-1) means low-stock alerts are disabled
+  origen: ThresholdOrigin;
+}
+
+export interface ProductThresholds {
+  producto: EffectiveThreshold;
+  variantes: EffectiveThreshold[]; // Same order as product.variantes
+}
+
+export interface ThresholdSources {
+  categories: Map<string, any>;
+  especificaciones: Map<string, any>;
+}
+
+interface ThresholdProduct {
+  umbralStockBajo?: number | null;
+  categoriaId?: string;
+  subcategoriaIds?: string[];
+  especificaciones?: IProductEspecificacion[];
+  variantes?: IProductVariante[];
+}
+
+function isSet(value: unknown): value is number {
+  return typeof value === 'number' && !isNaN(value);
+}
+
+function findOption(
+  sources: ThresholdSources,
+  especificacionId: string,
+  valor: unknown
+): IOpcionEspecificacion | undefined {
+  const especificacion = sources.especificaciones.get(String(especificacionId));
+  return especificacion?.opciones?.find((opcion: IOpcionEspecificacion) => opcion.valor === String(valor));
+}
+
+function optionThreshold(opcion?: IOpcionEspecificacion): number | undefined {
+  if (!opcion || opcion.tieneUmbral === false || !isSet(opcion.umbralStockBajo)) return undefined;
+  return opcion.umbralStockBajo;
+}
+
+/**
+ * Resolve the low-stock threshold of a product. The first level that defines one wins:
+ *
+ * 1. `Product.umbralStockBajo` (null/undefined means "inherit")
+ * 2. The highest threshold among the product's subcategories
+ * 3. `Category.umbralStockBajo`, or that of the nearest ancestor category that defines one
+ * 4. Thresholds of the Especificacion options matching the product's values (`tieneUmbral`);
+ *    the highest enabled one applies, and `-1` disables alerts when no option enables them
+ * 5. The highest `umbralStockBajoGeneral` among the product's especificaciones
+ * 6. DEFAULT_UMBRAL_STOCK_BAJO
+ */
+export function resolveProductThreshold(product: ThresholdProduct, sources: ThresholdSources): EffectiveThreshold {
+  if (isSet(product.umbralStockBajo)) {
+    return { umbral: product.umbralStockBajo, origen: 'producto' };
+  }
+
+  const category = product.categoriaId ? sources.categories.get(String(product.categoriaId)) : undefined;
+  const subcategoriaIds = (product.subcategoriaIds || []).map(String);
+
+  const subcategorias = (category?.subcategorias || [])
+    .filter((sub: any) => subcategoriaIds.includes(String(sub._id)))
+    .map((sub: any) => sub.umbralStockBajo)
+    .filter(isSet);
+  if (subcategorias.length > 0) {
+    return { umbral: Math.max(...subcategorias), origen: 'subcategoria' };
+  }
+
+  const lineage = category
+    ? [category, ...[...(category.ancestros || [])].reverse().map((id: unknown) => sources.categories.get(String(id)))]
+    : [];
+  const categoria = lineage.find(c => c && isSet(c.umbralStockBajo));
+  if (categoria) {
+    return { umbral: categoria.umbralStockBajo, origen: 'categoria' };
+  }
+
+  const especificaciones = product.especificaciones || [];
+
+  // Multiple-selection values match one option each
+  const opciones = especificaciones
+    .flatMap(e => (Array.isArray(e.valor) ? e.valor : [e.valor])
+      .map(valor => optionThreshold(findOption(sources, e.especificacionId, valor))))
+    .filter(isSet);
+  if (opciones.length > 0) {
+    const enabled = opciones.filter(umbral => umbral >= 0);
+    return {
+      umbral: enabled.length > 0 ? Math.max(...enabled) : UMBRAL_DESACTIVADO,
+      origen: 'opcion'
+    };
+  }
+
+  const generales = especificaciones
+    .map(e => sources.especificaciones.get(String(e.especificacionId))?.umbralStockBajoGeneral)
+    .filter(isSet);
+  if (generales.length > 0) {
+    return { umbral: Math.max(...generales), origen: 'especificacion' };
+  }
+
+  return { umbral: DEFAULT_UMBRAL_STOCK_BAJO, origen: 'default' };
+}
+
+/**
+ * Resolve the threshold of a variant: its own value, then its specification option's,
+ * then the product's effective threshold.
+ */
+export function resolveVariantThreshold(
+  variante: IProductVariante,
+  sources: ThresholdSources,
+  productThreshold: EffectiveThreshold
+): EffectiveThreshold {
+  if (isSet(variante.umbralStockBajo)) {
+    return { umbral: variante.umbralStockBajo, origen: 'variante' };
+  }
+
+  const opcion = optionThreshold(findOption(sources, variante.especificacionId, variante.valor));
+  if (isSet(opcion)) {
+    return { umbral: opcion, origen: 'opcion' };
+  }
+
+  return productThreshold;
+}
+
+export function resolveProductThresholds(product: ThresholdProduct, sources: ThresholdSources): ProductThresholds {
+  const producto = resolveProductThreshold(product, sources);
+  return {
+    producto,
+    variantes: (product.variantes || []).map(v => resolveVariantThreshold(v, sources, producto))
+  };
+}
+
+/**
+ * Load the categories, with their ancestors, and especificaciones the given products inherit
+ * thresholds from
+ */
+export async function loadThresholdSources(products: ThresholdProduct[]): Promise<ThresholdSources> {
+  const categoryIds = [...new Set(products.map(p => String(p.categoriaId || '')))]
+    .filter(id => mongoose.isValidObjectId(id));
+  const especificacionIds = [...new Set(products.flatMap(p => [
+    ...(p.especificaciones || []).map(e => String(e.especificacionId)),
+    ...(p.variantes || []).map(v => String(v.especificacionId))
+  ]))].filter(id => mongoose.isValidObjectId(id));
+
+  const loadCategories = async () => {
+    const categories: any[] = categoryIds.length > 0
+      ? await mongoose.models.Category.find(
+        { _id: { $in: categoryIds } },
+        { umbralStockBajo: 1, subcategorias: 1, ancestros: 1 }
+      ).lean()
+      : [];
+    const ancestorIds = [...new Set(categories.flatMap(c => (c.ancestros || []).map(String)))]
+      .filter(id => !categoryIds.includes(id));
+    if (ancestorIds.length > 0) {
+      categories.push(...await mongoose.models.Category.find({ _id: { $in: ancestorIds } }, { umbralStockBajo: 1 }).lean());
+    }
+    return categories;
+  };
+
+  const [categories, especificaciones] = await Promise.all([
+    loadCategories(),
+    especificacionIds.length > 0
+      ? mongoose.models.Especificacion.find(
+        { _id: { $in: especificacionIds }, isActive: true },
+        { umbralStockBajoGeneral: 1, opciones: 1 }
+      ).lean()
+      : []
+  ]);
+
+  return {
+    categories: new Map((categories as any[]).map(c => [String(c._id), c])),
+    especificaciones: new Map((especificaciones as any[]).map(e => [String(e._id), e]))
+  };
+}
+
+/**
+ * Recompute the stored effective thresholds (`umbralStockEfectivo`) of the products matching
+ * the filter. Run it after changing thresholds through update queries, and once over the whole
+ * collection after upgrading. Returns the number of products whose thresholds changed.
+ */
+export async function recalculateEffectiveThresholds(
+  filter: Record<string, any> = {},
+  batchSize: number = 500
+): Promise<number> {
+  const Product = mongoose.models.Product;
+  let updated = 0;
+  let batch: any[] = [];
+
+  const flush = async () => {
+    const sources = await loadThresholdSources(batch);
+    const operations: any[] = [];
+
+    for (const product of batch) {
+      const thresholds = resolveProductThresholds(product, sources);
+      const $set: Record<string, number> = {};
+      const arrayFilters: Record<string, any>[] = [];
+
+      if (product.umbralStockEfectivo !== thresholds.producto.umbral) {
+        $set.umbralStockEfectivo = thresholds.producto.umbral;
+      }
+      (product.variantes || []).forEach((variante: any, index: number) => {
+        if (variante.umbralStockEfectivo !== thresholds.variantes[index].umbral) {
+          $set[`variantes.$[v${index}].umbralStockEfectivo`] = thresholds.variantes[index].umbral;
+          arrayFilters.push({ [`v${index}._id`]: variante._id });
+        }
+      });
+
+      if (Object.keys($set).length > 0) {
+        operations.push({
+          updateOne: {
+            filter: { _id: product._id },
+            update: { $set },
+            ...(arrayFilters.length > 0 ? { arrayFilters } : {})
+          }
+        });
+      }
+    }
+
+    if (operations.length > 0) {
+      await Product.bulkWrite(operations);
+      updated += operations.length;
+    }
+    batch = [];
+  };
+
+  const cursor = Product.find(filter, {
+    umbralStockBajo: 1,
+    umbralStockEfectivo: 1,
+    categoriaId: 1,
+    subcategoriaIds: 1,
+    especificaciones: 1,
+    variantes: 1
+  }).lean().cursor();
+
+  for await (const product of cursor) {
+    batch.push(product);
+    if (batch.length >= batchSize) {
+      await flush();
+    }
+  }
+  if (batch.length > 0) {
+    await flush();
+  }
+
+  return updated;
+}
+
+/**
+ * Remove the product threshold from products that still store the old schema default (5), so
+ * they inherit from their subcategories, category and especificaciones, then recompute
+ * their effective thresholds. Products where 5 was set on purpose cannot be told apart: limit
+ * the run with `filter` or set their threshold again afterwards. Runs as a dry run unless
+ * `dryRun: false` is passed.
+ */
+export async function migrateThresholdDefaults(
+  options: ThresholdDefaultsMigrationOptions = {}
+): Promise<ThresholdDefaultsMigrationResult> {
+  const { dryRun = true, filter = {} } = options;
+  const Product = mongoose.models.Product;
+  const legacy = { ...filter, umbralStockBajo: LEGACY_UMBRAL_DEFAULT };
+
+  const matched = await Product.countDocuments(legacy);
+  if (dryRun || matched === 0) {
+    return { dryRun, matched, cleared: 0, recalculated: 0 };
+  }
+
+  const ids = await Product.find(legacy).distinct('_id');
+  const result = await Product.updateMany({ _id: { $in: ids } }, { $set: { umbralStockBajo: null } });
+  const recalculated = await recalculateEffectiveThresholds({ _id: { $in: ids } });
+
+  return { dryRun, matched, cleared: result.modifiedCount, recalculated };
+}
\ No newline at end of file
@@ -0,0 +1,257 @@
+import mongoose, { ClientSession } from 'mongoose';
+
+// Currency of Product.precio
+export const MONEDA_BASE = 'ARS';
+
+export interface SupplierCostInput {
+  proveedorId: string;
+  codigoProveedor?: string;
+  costo: number;
+  moneda?: string; // Default: MONEDA_BASE
+}
+
+export interface CostComparisonOptions {
+  tiposCambio?: Record<string, number>; // MONEDA_BASE per unit of each currency, e.g. { USD: 1050 }
+}
+
+export interface SupplierCostEntry {
+  _id: string;
+  proveedorId: string;
+  proveedorNombre?: string;
+  plazoEntregaDias?: number;
+  codigoProveedor?: string;
+  costo: number;
+  moneda: string;
+  actualizadoEn: Date;
+  costoBase: number | null; // Cost in MONEDA_BASE; null without an exchange rate for its currency
+  margen: number | null; // precio - costoBase
+  margenPorcentaje: number | null; // Margin as a percentage of precio
+}
+
+export interface ProductCostComparison {
+  productId: string;
+  precio: number;
+  costos: SupplierCostEntry[]; // Cheapest first; costs without an exchange rate last
+  masBarato: SupplierCostEntry | null;
+}
+
+// A supplier code dropped from a transferred cost because the receiving supplier already uses it
+export interface ClearedSupplierCode {
+  productId: string;
+  proveedorId: string; // Supplier the cost came from
+  codigoProveedor: string;
+}
+
+export interface SupplierPriceListItem extends SupplierCostEntry {
+  productId: string;
+  productNombre: string;
+  codigoInterno: string;
+  precio: number;
+  esMasBarato: boolean; // No other supplier sells the product for less
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * A cost in MONEDA_BASE, or null when its currency has no exchange rate
+ */
+export function toBaseCurrency(costo: number, moneda: string, tiposCambio: Record<string, number> = {}): number | null {
+  const codigo = (moneda || MONEDA_BASE).toUpperCase();
+  if (codigo === MONEDA_BASE) return costo;
+
+  const tipoCambio = tiposCambio[codigo];
+  return Number.isFinite(tipoCambio) && tipoCambio > 0 ? round(costo * tipoCambio) : null;
+}
+
+/**
+ * Cost entry of a lean SupplierCost, with its margin against the sale price. `proveedorId` may
+ * be populated with the supplier's nombre and plazoEntregaDias.
+ */
+export function toSupplierCostEntry(cost: any, precio: number, options: CostComparisonOptions = {}): SupplierCostEntry {
+  const proveedor = cost.proveedorId && typeof cost.proveedorId === 'object' && 'nombre' in cost.proveedorId
+    ? cost.proveedorId
+    : null;
+  const costoBase = toBaseCurrency(cost.costo, cost.moneda, options.tiposCambio);
+  const margen = costoBase === null ? null : round(precio - costoBase);
+
+  return {
+    _id: String(cost._id),
+    proveedorId: String(proveedor ? proveedor._id : cost.proveedorId),
+    proveedorNombre: proveedor?.nombre,
+    plazoEntregaDias: proveedor?.plazoEntregaDias,
+    codigoProveedor: cost.codigoProveedor,
+    costo: cost.costo,
+    moneda: cost.moneda,
+    actualizadoEn: cost.actualizadoEn,
+    costoBase,
+    margen,
+    margenPorcentaje: margen === null || precio <= 0 ? null : round((margen / precio) * 100),
+  };
+}
+
+/**
+ * Sort cost entries cheapest first; entries that cannot be converted go last
+ */
+export function sortByCost(entries: SupplierCostEntry[]): SupplierCostEntry[] {
+  return [...entries].sort((a, b) => {
+    if (a.costoBase === null || b.costoBase === null) {
+      return (a.costoBase === null ? 1 : 0) - (b.costoBase === null ? 1 : 0);
+    }
+    return a.costoBase - b.costoBase;
+  });
+}
+
+/**
+ * Every supplier's cost of a product, cheapest first, with the margin each leaves
+ */
+export async function getProductSupplierCosts(
+  productId: string,
+  options: CostComparisonOptions = {}
+): Promise<ProductCostComparison> {
+  const product: any = mongoose.isValidObjectId(productId)
+    ? await mongoose.models.Product.findById(productId, { precio: 1 }).lean()
+    : null;
+  if (!product) {
+    throw new Error(`Producto ${productId} no encontrado`);
+  }
+
+  const costs = await mongoose.models.SupplierCost.find({ productId: product._id })
+    .populate('proveedorId', 'nombre plazoEntregaDias')
+    .lean() as any[];
+  const costos = sortByCost(costs.map(cost => toSupplierCostEntry(cost, product.precio, options)));
+
+  return {
+    productId: String(product._id),
+    precio: product.precio,
+    costos,
+    masBarato: costos.length > 0 && costos[0].costoBase !== null ? costos[0] : null,
+  };
+}
+
+/**
+ * A supplier's costs with the products' prices and margins, flagging where it is the cheapest
+ */
+export async function getSupplierPriceList(
+  proveedorId: string,
+  options: CostComparisonOptions = {}
+): Promise<SupplierPriceListItem[]> {
+  if (!mongoose.isValidObjectId(proveedorId)) return [];
+  const SupplierCost = mongoose.models.SupplierCost;
+
+  const costs = (await SupplierCost.find({ proveedorId })
+    .populate('productId', 'nombre codigoInterno precio')
+    .lean() as any[])
+    .filter(cost => cost.productId); // Products deleted since
+
+  const productIds = costs.map(cost => cost.productId._id);
+  const allCosts = await SupplierCost.find({ productId: { $in: productIds } }, { productId: 1, costo: 1, moneda: 1 }).lean() as any[];
+
+  const cheapest = new Map<string, number>();
+  for (const cost of allCosts) {
+    const costoBase = toBaseCurrency(cost.costo, cost.moneda, options.tiposCambio);
+    const key = String(cost.productId);
+    if (costoBase !== null && costoBase < (cheapest.get(key) ?? Infinity)) {
+      cheapest.set(key, costoBase);
+    }
+  }
+
+  return costs
+    .map(cost => {
+      const product = cost.productId;
+      const entry = toSupplierCostEntry(cost, product.precio, options);
+      return {
+        ...entry,
+        productId: String(product._id),
+        productNombre: product.nombre,
+        codigoInterno: product.codigoInterno,
+        precio: product.precio,
+        esMasBarato: entry.costoBase !== null && entry.costoBase <= (cheapest.get(String(product._id)) ?? Infinity),
+      };
+    })
+    .sort((a, b) => a.productNombre.localeCompare(b.productNombre));
+}
+
+/**
+ * Create or update the cost of a product at a supplier
+ */
+export async function setSupplierCost(productId: string, input: SupplierCostInput): Promise<any> {
+  const { proveedorId, codigoProveedor, costo, moneda } = input;
+  if (!Number.isFinite(costo) || costo < 0) {
+    throw new Error('El costo debe ser un número mayor o igual a 0');
+  }
+
+  const [product, supplier] = await Promise.all([
+    mongoose.isValidObjectId(productId) ? mongoose.models.Product.exists({ _id: productId }) : null,
+    mongoose.isValidObjectId(proveedorId) ? mongoose.models.Supplier.exists({ _id: proveedorId }) : null
+  ]);
+  if (!product) {
+    throw new Error(`Producto ${productId} no encontrado`);
+  }
+  if (!supplier) {
+    throw new Error(`Proveedor no encontrado: ${proveedorId}`);
+  }
+
+  const SupplierCost = mongoose.models.SupplierCost;
+  const cost = await SupplierCost.findOne({ productId, proveedorId }) ?? new SupplierCost({ productId, proveedorId });
+  cost.costo = costo;
+  cost.moneda = moneda ?? cost.moneda ?? MONEDA_BASE;
+  if (codigoProveedor !== undefined) {
+    cost.codigoProveedor = codigoProveedor || undefined;
+  }
+  await cost.save();
+
+  return cost.toObject();
+}
+
+/**
+ * Hand the costs of `fromIds` suppliers over to `toId`, for the products `toId` has no cost for
+ * yet; the rest are deleted. With `toId` null they are all deleted. Moved costs lose their
+ * `codigoProveedor` when `toId` already uses it for another product; those are returned.
+ */
+export async function transferSupplierCosts(
+  fromIds: unknown[],
+  toId: unknown | null,
+  session?: ClientSession | null
+): Promise<ClearedSupplierCode[]> {
+  const SupplierCost = mongoose.models.SupplierCost;
+  const cleared: ClearedSupplierCode[] = [];
+
+  // One supplier at a time, so two of them costing the same product do not both move
+  for (const fromId of toId ? fromIds : []) {
+    const targetCosts: any[] = await SupplierCost.find({ proveedorId: toId }, { productId: 1, codigoProveedor: 1 })
+      .session(session ?? null)
+      .lean();
+    const existing = targetCosts.map(cost => cost.productId);
+    const codigos = targetCosts.map(cost => cost.codigoProveedor).filter(Boolean);
+
+    const conflicting: any[] = codigos.length > 0
+      ? await SupplierCost.find(
+        { proveedorId: fromId, productId: { $nin: existing }, codigoProveedor: { $in: codigos } },
+        { productId: 1, codigoProveedor: 1 }
+      ).session(session ?? null).lean()
+      : [];
+    if (conflicting.length > 0) {
+      await SupplierCost.updateMany(
+        { _id: { $in: conflicting.map(cost => cost._id) } },
+        { $unset: { codigoProveedor: 1 } },
+        { session: session ?? undefined }
+      );
+      cleared.push(...conflicting.map(cost => ({
+        productId: String(cost.productId),
+        proveedorId: String(fromId),
+        codigoProveedor: cost.codigoProveedor
+      })));
+    }
+
+    await SupplierCost.updateMany(
+      { proveedorId: fromId, productId: { $nin: existing } },
+      { $set: { proveedorId: toId } },
+      { session: session ?? undefined }
+    );
+  }
+  await SupplierCost.deleteMany({ proveedorId: { $in: fromIds } }, { session: session ?? undefined });
+
+  return cleared;
+}
\ No newline at end of file